@@ -0,0 +1,372 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Build Event Protocol - reads the JSON event stream written by `--build_event_json_file`
+ */
+
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { fileURLToPath } from 'url';
+import { logWithTimestamp, formatError } from '../logging';
+
+const BEP_FLAG = '--build_event_json_file';
+
+let bepFileCounter = 0;
+
+// ───────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────
+
+export interface BepTestResult {
+  label: string;
+  /** Bazel TestStatus, e.g. PASSED, FAILED, TIMEOUT, FLAKY */
+  status: string;
+  run: number;
+  shard: number;
+  attempt: number;
+  cachedLocally: boolean;
+  cachedRemotely: boolean;
+  durationMs?: number;
+  strategy?: string;
+  /** Test action outputs (test.log, test.xml, ...) mapped to local paths */
+  outputs: Record<string, string>;
+}
+
+export interface BepTestSummary {
+  label: string;
+  /** Bazel TestStatus, e.g. PASSED, FAILED, FLAKY, NO_STATUS, FAILED_TO_BUILD */
+  overallStatus: string;
+  totalRunCount: number;
+  attemptCount: number;
+  shardCount: number;
+  totalNumCached: number;
+  durationMs?: number;
+  passedLogs: string[];
+  failedLogs: string[];
+}
+
+export interface BepTargetCompleted {
+  label: string;
+  success: boolean;
+  failureMessage?: string;
+}
+
+export interface BepBuildFailure {
+  label?: string;
+  message: string;
+  /** Local path of the failed action's stderr, if any */
+  stderrPath?: string;
+}
+
+export interface BepBuildFinished {
+  overallSuccess: boolean;
+  exitCode: number;
+  exitName: string;
+}
+
+export interface BuildEventSummary {
+  testResults: BepTestResult[];
+  testSummaries: Map<string, BepTestSummary>;
+  targets: Map<string, BepTargetCompleted>;
+  failures: BepBuildFailure[];
+  finished?: BepBuildFinished;
+}
+
+// ───────────────────────────────────────────────────────────────
+// Public API
+// ───────────────────────────────────────────────────────────────
+
+/**
+ * Returns a fresh temp file path for one Bazel invocation's BEP output
+ */
+export function createBuildEventFilePath(): string {
+  bepFileCounter++;
+  return path.join(os.tmpdir(), `bazel-test-explorer-bep-${process.pid}-${Date.now()}-${bepFileCounter}.json`);
+}
+
+/**
+ * Returns the `--build_event_json_file` path already present in the given args, if any
+ */
+export function findBuildEventFileArg(args: string[]): string | undefined {
+  const arg = args.find(a => a.startsWith(`${BEP_FLAG}=`));
+  return arg ? arg.slice(BEP_FLAG.length + 1) : undefined;
+}
+
+/**
+ * Builds the flag that instructs Bazel to write its event stream to filePath
+ */
+export function buildEventFileFlag(filePath: string): string {
+  return `${BEP_FLAG}=${filePath}`;
+}
+
+/**
+ * Parses a newline-delimited BEP JSON stream. Malformed lines are skipped.
+ */
+export function parseBuildEventStream(content: string): BuildEventSummary {
+  const summary: BuildEventSummary = {
+    testResults: [],
+    testSummaries: new Map(),
+    targets: new Map(),
+    failures: []
+  };
+
+  for (const line of content.split(/\r?\n/)) {
+    if (!line.trim()) {
+      continue;
+    }
+    let event: BepEvent;
+    try {
+      event = JSON.parse(line) as BepEvent;
+    } catch {
+      continue;
+    }
+    applyEvent(summary, event);
+  }
+
+  return summary;
+}
+
+/**
+ * Reads and parses a BEP JSON file. Returns undefined when the file is missing
+ * or contains no events (e.g. Bazel failed before writing the stream).
+ */
+export async function readBuildEventFile(filePath: string): Promise<BuildEventSummary | undefined> {
+  try {
+    const content = await fs.promises.readFile(filePath, 'utf8');
+    if (!content.trim()) {
+      return undefined;
+    }
+    return parseBuildEventStream(content);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException)?.code === 'ENOENT') {
+      // Bazel exited before writing any events
+      return undefined;
+    }
+    logWithTimestamp(`Could not read build event file ${filePath}: ${formatError(error)}`, 'warn');
+    return undefined;
+  }
+}
+
+/**
+ * Removes a BEP temp file (best effort)
+ */
+export async function removeBuildEventFile(filePath: string): Promise<void> {
+  try {
+    await fs.promises.unlink(filePath);
+  } catch {
+    // already gone
+  }
+}
+
+/**
+ * Returns all test attempts for a target ordered by shard, run and attempt
+ */
+export function getTestResultsForTarget(summary: BuildEventSummary, label: string): BepTestResult[] {
+  return summary.testResults
+    .filter(result => result.label === label)
+    .sort((a, b) => a.shard - b.shard || a.run - b.run || a.attempt - b.attempt);
+}
+
+/**
+ * Converts a BEP status (FAILED_TO_BUILD) into the summary wording Bazel prints (FAILED TO BUILD)
+ */
+export function formatBepStatus(status: string): string {
+  return status.replace(/_/g, ' ');
+}
+
+// ───────────────────────────────────────────────────────────────
+// Event handling
+// ───────────────────────────────────────────────────────────────
+
+interface BepFile {
+  name?: string;
+  uri?: string;
+}
+
+interface BepEvent {
+  id?: {
+    testResult?: { label?: string; run?: number; shard?: number; attempt?: number };
+    testSummary?: { label?: string };
+    targetCompleted?: { label?: string };
+    actionCompleted?: { label?: string };
+    [key: string]: unknown;
+  };
+  testResult?: {
+    status?: string;
+    cachedLocally?: boolean;
+    testAttemptDurationMillis?: string | number;
+    testAttemptDuration?: string;
+    testActionOutput?: BepFile[];
+    executionInfo?: { strategy?: string; cachedRemotely?: boolean };
+  };
+  testSummary?: {
+    overallStatus?: string;
+    totalRunCount?: number;
+    attemptCount?: number;
+    shardCount?: number;
+    totalNumCached?: number;
+    totalRunDurationMillis?: string | number;
+    totalRunDuration?: string;
+    passed?: BepFile[];
+    failed?: BepFile[];
+  };
+  completed?: {
+    success?: boolean;
+    failureDetail?: { message?: string };
+  };
+  action?: {
+    success?: boolean;
+    label?: string;
+    stderr?: BepFile;
+    failureDetail?: { message?: string };
+  };
+  aborted?: {
+    reason?: string;
+    description?: string;
+  };
+  finished?: {
+    overallSuccess?: boolean;
+    exitCode?: { name?: string; code?: number };
+  };
+}
+
+function applyEvent(summary: BuildEventSummary, event: BepEvent): void {
+  const id = event.id ?? {};
+
+  if (event.testResult && id.testResult?.label) {
+    const result = event.testResult;
+    summary.testResults.push({
+      label: id.testResult.label,
+      status: result.status ?? 'NO_STATUS',
+      run: id.testResult.run ?? 1,
+      shard: id.testResult.shard ?? 1,
+      attempt: id.testResult.attempt ?? 1,
+      cachedLocally: !!result.cachedLocally,
+      cachedRemotely: !!result.executionInfo?.cachedRemotely,
+      durationMs: parseDuration(result.testAttemptDurationMillis, result.testAttemptDuration),
+      strategy: result.executionInfo?.strategy,
+      outputs: collectOutputs(result.testActionOutput)
+    });
+    return;
+  }
+
+  if (event.testSummary && id.testSummary?.label) {
+    const label = id.testSummary.label;
+    const result = event.testSummary;
+    summary.testSummaries.set(label, {
+      label,
+      overallStatus: result.overallStatus ?? 'NO_STATUS',
+      totalRunCount: result.totalRunCount ?? 0,
+      attemptCount: result.attemptCount ?? 1,
+      shardCount: result.shardCount ?? 1,
+      totalNumCached: result.totalNumCached ?? 0,
+      durationMs: parseDuration(result.totalRunDurationMillis, result.totalRunDuration),
+      passedLogs: (result.passed ?? []).map(fileToPath).filter(isDefined),
+      failedLogs: (result.failed ?? []).map(fileToPath).filter(isDefined)
+    });
+    return;
+  }
+
+  if (id.targetCompleted?.label && (event.completed || event.aborted)) {
+    const label = id.targetCompleted.label;
+    const success = !!event.completed?.success;
+    const failureMessage = event.completed?.failureDetail?.message ?? event.aborted?.description;
+    summary.targets.set(label, { label, success, failureMessage });
+    if (!success && failureMessage) {
+      summary.failures.push({ label, message: failureMessage });
+    }
+    return;
+  }
+
+  if (event.action && event.action.success === false) {
+    const label = event.action.label ?? id.actionCompleted?.label;
+    summary.failures.push({
+      label,
+      message: event.action.failureDetail?.message ?? `Action failed${label ? ` for ${label}` : ''}`,
+      stderrPath: event.action.stderr ? fileToPath(event.action.stderr) : undefined
+    });
+    return;
+  }
+
+  if (event.aborted && event.aborted.reason !== 'SKIPPED') {
+    const message = event.aborted.description || event.aborted.reason;
+    if (message) {
+      summary.failures.push({ label: findLabel(id), message });
+    }
+    return;
+  }
+
+  if (event.finished) {
+    summary.finished = {
+      overallSuccess: !!event.finished.overallSuccess,
+      exitCode: event.finished.exitCode?.code ?? 0,
+      exitName: event.finished.exitCode?.name ?? 'SUCCESS'
+    };
+  }
+}
+
+function collectOutputs(files: BepFile[] | undefined): Record<string, string> {
+  const outputs: Record<string, string> = {};
+  for (const file of files ?? []) {
+    const filePath = fileToPath(file);
+    if (file.name && filePath) {
+      outputs[file.name] = filePath;
+    }
+  }
+  return outputs;
+}
+
+function fileToPath(file: BepFile): string | undefined {
+  if (!file.uri) {
+    return undefined;
+  }
+  if (!file.uri.startsWith('file://')) {
+    // Remote (bytestream://) outputs cannot be opened locally
+    return undefined;
+  }
+  try {
+    return fileURLToPath(file.uri);
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * BEP reports durations either as millis (older Bazel) or as protobuf Duration strings ("1.5s")
+ */
+function parseDuration(millis: string | number | undefined, duration: string | undefined): number | undefined {
+  if (millis !== undefined) {
+    const value = Number(millis);
+    return Number.isFinite(value) ? value : undefined;
+  }
+  if (duration) {
+    const match = duration.match(/^([\d.]+)s$/);
+    if (match) {
+      return Math.round(parseFloat(match[1]) * 1000);
+    }
+  }
+  return undefined;
+}
+
+function findLabel(id: NonNullable<BepEvent['id']>): string | undefined {
+  for (const value of Object.values(id)) {
+    if (value && typeof value === 'object' && 'label' in value) {
+      const label = (value as { label?: unknown }).label;
+      if (typeof label === 'string') {
+        return label;
+      }
+    }
+  }
+  return undefined;
+}
+
+function isDefined<T>(value: T | undefined): value is T {
+  return value !== undefined;
+}
@@ -0,0 +1,212 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Build diagnostics - parses gcc/clang, javac, rustc and Go compiler errors of failed
+ * builds into a diagnostic collection that is cleared once the target builds again
+ */
+
+import * as vscode from 'vscode';
+import { resolveWorkspaceSourcePath } from '../explorer/sourceUtils';
+
+// ───────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────
+
+export type CompilerName = 'gcc/clang' | 'javac' | 'rustc' | 'go';
+
+export interface CompilerMessage {
+  compiler: CompilerName;
+  severity: 'error' | 'warning';
+  /** File as printed by the compiler (execroot-relative or sandbox path) */
+  file: string;
+  line: number;
+  column?: number;
+  message: string;
+  /** Error code, e.g. rustc `E0425` */
+  code?: string;
+}
+
+// ───────────────────────────────────────────────────────────────
+// Parsing
+// ───────────────────────────────────────────────────────────────
+
+// pkg/a.cc:12:5: error: ...   pkg/A.java:12: error: ...
+const GCC_STYLE = /^(.+?):(\d+):(?:(\d+):)? (?:fatal )?(error|warning): (.+)$/;
+// error[E0425]: cannot find value `x` in this scope
+const RUSTC_HEADER = /^(error|warning)(?:\[(E\d+)\])?: (.+)$/;
+//   --> pkg/src/lib.rs:3:5
+const RUSTC_LOCATION = /^\s*--> (.+):(\d+):(\d+)$/;
+// pkg/main.go:7:2: undefined: Foo (optionally prefixed by the builder, e.g. "compilepkg: ")
+const GO_STYLE = /^(?:[\w-]+: )?(\S+\.go):(\d+):(\d+): (.+)$/;
+
+/**
+ * Extracts compiler errors and warnings from Bazel's output of a failed build
+ */
+export function parseCompilerOutput(lines: string[]): CompilerMessage[] {
+  const messages: CompilerMessage[] = [];
+  let pendingRustc: { severity: 'error' | 'warning'; code?: string; message: string } | undefined;
+
+  for (const rawLine of lines) {
+    const line = rawLine.trimEnd();
+
+    if (pendingRustc) {
+      const location = line.match(RUSTC_LOCATION);
+      if (location) {
+        messages.push({
+          compiler: 'rustc',
+          ...pendingRustc,
+          file: location[1],
+          line: Number(location[2]),
+          column: Number(location[3])
+        });
+        pendingRustc = undefined;
+        continue;
+      }
+    }
+
+    const rustc = line.match(RUSTC_HEADER);
+    if (rustc) {
+      // Summary lines ("aborting due to ...", "could not compile ...") have no location
+      pendingRustc = { severity: rustc[1] as 'error' | 'warning', code: rustc[2], message: rustc[3] };
+      continue;
+    }
+
+    const gcc = line.match(GCC_STYLE);
+    if (gcc) {
+      messages.push({
+        compiler: gcc[1].endsWith('.java') ? 'javac' : 'gcc/clang',
+        severity: gcc[4] as 'error' | 'warning',
+        file: gcc[1],
+        line: Number(gcc[2]),
+        column: gcc[3] ? Number(gcc[3]) : undefined,
+        message: gcc[5]
+      });
+      continue;
+    }
+
+    const go = line.match(GO_STYLE);
+    if (go) {
+      messages.push({
+        compiler: 'go',
+        severity: 'error',
+        file: go[1],
+        line: Number(go[2]),
+        column: Number(go[3]),
+        message: go[4]
+      });
+    }
+  }
+
+  return dedupe(messages);
+}
+
+function dedupe(messages: CompilerMessage[]): CompilerMessage[] {
+  const seen = new Set<string>();
+  return messages.filter(message => {
+    const key = `${message.file}:${message.line}:${message.column ?? 0}:${message.message}`;
+    if (seen.has(key)) {
+      return false;
+    }
+    seen.add(key);
+    return true;
+  });
+}
+
+// ───────────────────────────────────────────────────────────────
+// Diagnostic collection
+// ───────────────────────────────────────────────────────────────
+
+let collection: vscode.DiagnosticCollection | undefined;
+/** Target label → file path → diagnostics reported for that target's last failed build */
+const diagnosticsByTarget = new Map<string, Map<string, vscode.Diagnostic[]>>();
+
+function getCollection(): vscode.DiagnosticCollection {
+  collection ??= vscode.languages.createDiagnosticCollection('bazel-build');
+  return collection;
+}
+
+/**
+ * Publishes the compiler messages of a failed build of the target, replacing the
+ * target's previous diagnostics. Messages outside the workspace are dropped.
+ * Returns the published diagnostics with their file paths.
+ */
+export function reportBuildDiagnostics(
+  targetLabel: string,
+  messages: CompilerMessage[],
+  workspacePath: string
+): { path: string; diagnostic: vscode.Diagnostic }[] {
+  const byFile = new Map<string, vscode.Diagnostic[]>();
+  const published: { path: string; diagnostic: vscode.Diagnostic }[] = [];
+
+  for (const message of messages) {
+    const resolved = resolveWorkspaceSourcePath(message.file, workspacePath);
+    if (!resolved) {
+      continue;
+    }
+    const position = new vscode.Position(Math.max(0, message.line - 1), Math.max(0, (message.column ?? 1) - 1));
+    const diagnostic = new vscode.Diagnostic(
+      new vscode.Range(position, position),
+      message.message,
+      message.severity === 'error' ? vscode.DiagnosticSeverity.Error : vscode.DiagnosticSeverity.Warning
+    );
+    diagnostic.source = `Bazel (${message.compiler})`;
+    if (message.code) {
+      diagnostic.code = message.code;
+    }
+    byFile.set(resolved, [...(byFile.get(resolved) ?? []), diagnostic]);
+    published.push({ path: resolved, diagnostic });
+  }
+
+  diagnosticsByTarget.set(targetLabel, byFile);
+  refreshCollection();
+  return published;
+}
+
+/**
+ * Removes the diagnostics of a target after it built successfully
+ */
+export function clearBuildDiagnostics(targetLabel: string): void {
+  if (diagnosticsByTarget.delete(targetLabel)) {
+    refreshCollection();
+  }
+}
+
+/**
+ * Dispose the diagnostic collection and forget all reported diagnostics.
+ * Call this during extension deactivation.
+ */
+export function disposeBuildDiagnostics(): void {
+  diagnosticsByTarget.clear();
+  collection?.dispose();
+  collection = undefined;
+}
+
+/**
+ * Rebuilds the collection from all targets; targets sharing a failing library
+ * report the same diagnostics, which are shown once
+ */
+function refreshCollection(): void {
+  const merged = new Map<string, Map<string, vscode.Diagnostic>>();
+  for (const byFile of diagnosticsByTarget.values()) {
+    for (const [file, diagnostics] of byFile) {
+      const forFile = merged.get(file) ?? new Map<string, vscode.Diagnostic>();
+      for (const diagnostic of diagnostics) {
+        const { line, character } = diagnostic.range.start;
+        forFile.set(`${line}:${character}:${diagnostic.message}`, diagnostic);
+      }
+      merged.set(file, forFile);
+    }
+  }
+
+  const target = getCollection();
+  target.clear();
+  for (const [file, diagnostics] of merged) {
+    target.set(vscode.Uri.file(file), Array.from(diagnostics.values()));
+  }
+}
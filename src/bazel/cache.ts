@@ -181,12 +181,15 @@ export class QueryCache {
   }
 
   /**
-   * Creates a cache key from query parameters
+   * Creates a cache key from query parameters; `discoveryArgs` distinguishes
+   * cquery discovery and its flags (order matters for flags)
    */
-  static createKey(queryPaths: string[], testTypes: string[]): string {
+  static createKey(queryPaths: string[], testTypes: string[], discoveryArgs: string[] = []): string {
     const sortedPaths = [...queryPaths].sort().join('|');
     const sortedTypes = [...testTypes].sort().join('|');
-    const combined = `${sortedPaths}:${sortedTypes}`;
+    const combined = discoveryArgs.length > 0
+      ? `${sortedPaths}:${sortedTypes}:${discoveryArgs.join('|')}`
+      : `${sortedPaths}:${sortedTypes}`;
     return crypto.createHash('sha256').update(combined).digest('hex').slice(0, 16);
   }
 }
@@ -12,12 +12,26 @@
 
 import { TestItem, TestRun, CancellationToken } from 'vscode';
 import { BazelTestTarget } from './types';
-import { queryBazelTestTargets, queryBazelTestLabelsOnly, queryBazelTestMetadata, getTestTargetById } from './queries';
-import { executeBazelTest } from './runner';
+import {
+  queryBazelTestTargets,
+  queryBazelTestLabelsOnly,
+  queryBazelTestMetadata,
+  getTestTargetById,
+  getTestTargets,
+  getDiscoveryKeyArgs,
+  queryAffectedTestTargets,
+  queryChangedPackages,
+  queryConfiguredTestTargets
+} from './queries';
+import { TestTargetDiff } from './discoverySnapshot';
+import { executeBazelTest, executeBazelTestBatch, executeBazelTestCases } from './runner';
 import { runBazelCommand } from '../infrastructure/process';
-import { ConfigurationService } from '../configuration';
+import { ConfigurationService, RunProfileSettings } from '../configuration';
 import { QueryCache } from './cache';
 import { ErrorHandler } from '../errors/errorHandler';
+import { describeBazelExitCode, formatExitCodeMessage } from './exitCodes';
+import { resolveTestEnvironment, ResolvedTestEnvironment } from './testEnvironment';
+import { parseShardId } from './shards';
 import { logWithTimestamp } from '../logging';
 
 /**
@@ -44,7 +58,8 @@ export class BazelClient {
       // Create cache key based on config
       const cacheKey = QueryCache.createKey(
         this.config.queryPaths,
-        this.config.testTypes
+        this.config.testTypes,
+        getDiscoveryKeyArgs(this.config)
       );
 
       // Get from cache if available
@@ -53,10 +68,16 @@ export class BazelClient {
         return cached;
       }
 
-      // Always use two-phase discovery: Phase 1 (labels), Phase 2 (chunked metadata)
-      logWithTimestamp('Using two-phase discovery');
-      const labels = await queryBazelTestLabelsOnly(this.workspaceRoot, this.config);
-      const targets = await queryBazelTestMetadata(labels, this.workspaceRoot, this.config);
+      let targets: BazelTestTarget[];
+      if (this.config.discoveryMode === 'cquery') {
+        logWithTimestamp('Using configured discovery (cquery)');
+        targets = await queryConfiguredTestTargets(this.workspaceRoot, this.config);
+      } else {
+        // Two-phase discovery: Phase 1 (labels), Phase 2 (chunked metadata)
+        logWithTimestamp('Using two-phase discovery');
+        const labels = await queryBazelTestLabelsOnly(this.workspaceRoot, this.config);
+        targets = await queryBazelTestMetadata(labels, this.workspaceRoot, this.config);
+      }
       
       // Store in cache
       this.cache.set(cacheKey, targets);
@@ -69,16 +90,36 @@ export class BazelClient {
     }
   }
 
+  /**
+   * Re-queries only the given packages after BUILD file changes and keeps the
+   * cached discovery result in sync with the merged targets
+   */
+  async queryPackages(packages: string[]): Promise<TestTargetDiff> {
+    try {
+      const diff = await queryChangedPackages(packages, this.workspaceRoot, this.config);
+      const cacheKey = QueryCache.createKey(this.config.queryPaths, this.config.testTypes, getDiscoveryKeyArgs(this.config));
+      if (this.cache.get(cacheKey)) {
+        this.cache.set(cacheKey, getTestTargets());
+      }
+      return diff;
+    } catch (error) {
+      const result = this.errorHandler.handle(error, 'query');
+      this.errorHandler.logError(result, 'QueryPackages');
+      throw new Error(result.userMessage, { cause: error });
+    }
+  }
+
   /**
    * Execute a single test with error handling and cancellation support
    */
   async runTest(
     testItem: TestItem,
     run: TestRun,
-    token?: CancellationToken
+    token?: CancellationToken,
+    profile?: RunProfileSettings
   ): Promise<void> {
     try {
-      return await executeBazelTest(testItem, this.workspaceRoot, run, this.config, token);
+      return await executeBazelTest(testItem, this.workspaceRoot, run, this.configFor(profile), token);
     } catch (error) {
       const result = this.errorHandler.handle(error, 'run');
       this.errorHandler.logError(result, 'RunTest');
@@ -86,6 +127,70 @@ export class BazelClient {
     }
   }
 
+  /**
+   * Execute several test targets in a single Bazel invocation
+   */
+  async runTestsBatch(
+    testItems: TestItem[],
+    run: TestRun,
+    token?: CancellationToken,
+    profile?: RunProfileSettings
+  ): Promise<void> {
+    try {
+      return await executeBazelTestBatch(testItems, this.workspaceRoot, run, this.configFor(profile), token);
+    } catch (error) {
+      const result = this.errorHandler.handle(error, 'run');
+      this.errorHandler.logError(result, 'RunTestsBatch');
+      throw new Error(result.userMessage, { cause: error });
+    }
+  }
+
+  /**
+   * Execute several test cases of one target in a single filtered Bazel invocation
+   */
+  async runTestCases(
+    caseItems: TestItem[],
+    run: TestRun,
+    token?: CancellationToken,
+    profile?: RunProfileSettings
+  ): Promise<void> {
+    try {
+      return await executeBazelTestCases(caseItems, this.workspaceRoot, run, this.configFor(profile), token);
+    } catch (error) {
+      const result = this.errorHandler.handle(error, 'run');
+      this.errorHandler.logError(result, 'RunTestCases');
+      throw new Error(result.userMessage, { cause: error });
+    }
+  }
+
+  /**
+   * Settings for a run, with the named run profile applied if given
+   */
+  private configFor(profile?: RunProfileSettings): ConfigurationService {
+    return profile ? this.config.withRunProfile(profile) : this.config;
+  }
+
+  /**
+   * Finds test targets depending on workspace-relative source files (rdeps)
+   */
+  async queryAffectedTests(files: string[], token?: CancellationToken): Promise<string[]> {
+    try {
+      return await queryAffectedTestTargets(files, this.workspaceRoot, this.config, token);
+    } catch (error) {
+      const result = this.errorHandler.handle(error, 'query');
+      this.errorHandler.logError(result, 'QueryAffectedTests');
+      throw new Error(result.userMessage, { cause: error });
+    }
+  }
+
+  /**
+   * Resolves the `--test_env` / `--test_arg` settings that apply to a target
+   */
+  getTestEnvironment(targetId: string): ResolvedTestEnvironment {
+    const targetLabel = parseShardId(targetId)?.targetId ?? targetId.split('::')[0];
+    return resolveTestEnvironment(targetLabel, this.config.testEnvByScope, this.config.testArgByScope);
+  }
+
   /**
    * Retrieves metadata for a target
    * @param targetId Target ID/Label
@@ -116,7 +221,7 @@ export class BazelClient {
       if (code === 0) {
         return { valid: true, version };
       } else {
-        return { valid: false, error: `Bazel exited with code ${code}` };
+        return { valid: false, error: formatExitCodeMessage(describeBazelExitCode(code)) };
       }
     } catch (error) {
       const result = this.errorHandler.handle(error, 'validation');
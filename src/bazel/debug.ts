@@ -0,0 +1,414 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Debug support - builds test binaries and creates VS Code launch configurations for Bazel tests
+ */
+
+import * as vscode from 'vscode';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { runBazelCommand } from '../infrastructure/process';
+import { logWithTimestamp } from '../logging';
+import { ConfigurationService } from '../configuration';
+import { BazelTestTarget } from './types';
+import { detectPrimaryFramework } from './frameworkDetection';
+import { normalizeSrcEntry } from '../explorer/sourceUtils';
+
+export type DebugLanguage = 'cpp' | 'python' | 'go' | 'java';
+
+/**
+ * Built test binary plus the environment Bazel would provide when running it
+ */
+export interface PreparedDebugTarget {
+  targetLabel: string;
+  binary: string;
+  runfilesDir: string;
+  workspaceName: string;
+  env: Record<string, string>;
+}
+
+/**
+ * How a debug session ended
+ */
+export interface DebugSessionOutcome {
+  /** Exit code the debuggee reported, undefined if the adapter sent none */
+  exitCode?: number;
+  cancelled: boolean;
+}
+
+/**
+ * Launch configuration property that identifies the sessions this extension starts
+ */
+export const DEBUG_SESSION_ID_KEY = 'bazelTestExplorerSessionId';
+
+let debugSessionCounter = 0;
+
+/**
+ * Maps a test target to the debugger family used to launch it
+ */
+export function resolveDebugLanguage(metadata?: BazelTestTarget, testType?: string): DebugLanguage | undefined {
+  const type = (metadata?.type ?? testType ?? '').toLowerCase();
+  if (type.includes('py_test') || type.includes('pytest')) {
+    return 'python';
+  }
+  if (type.includes('go_test')) {
+    return 'go';
+  }
+  if (type.includes('java_test') || type.includes('junit') || type.includes('kt_jvm_test')) {
+    return 'java';
+  }
+  if (type.includes('cc_test') || type.includes('rust_test') || type.includes('unity_test') || type.includes('gtest')) {
+    return 'cpp';
+  }
+  return undefined;
+}
+
+/**
+ * Builds the target and locates its binary and runfiles tree.
+ */
+export async function prepareDebugTarget(
+  targetLabel: string,
+  workspacePath: string,
+  config: ConfigurationService,
+  cancellationToken?: vscode.CancellationToken,
+  onOutput?: (line: string) => void
+): Promise<PreparedDebugTarget> {
+  const buildArgs = config.debugBuildArgs;
+
+  const build = await runBazelCommand(
+    withStartupOptions(config, ['build', targetLabel, ...buildArgs]),
+    workspacePath,
+    onOutput,
+    onOutput,
+    config.bazelPath,
+    undefined,
+    cancellationToken
+  );
+  if (build.code !== 0) {
+    throw new Error(`bazel build ${targetLabel} failed (code ${build.code}):\n${build.stderr.trim()}`);
+  }
+
+  const [files, executionRoot] = await Promise.all([
+    runBazelCommand(
+      withStartupOptions(config, ['cquery', targetLabel, '--output=files', ...buildArgs]),
+      workspacePath,
+      undefined,
+      undefined,
+      config.bazelPath,
+      undefined,
+      cancellationToken
+    ),
+    runBazelCommand(
+      withStartupOptions(config, ['info', 'execution_root', ...buildArgs]),
+      workspacePath,
+      undefined,
+      undefined,
+      config.bazelPath,
+      undefined,
+      cancellationToken
+    )
+  ]);
+  if (files.code !== 0) {
+    throw new Error(`bazel cquery --output=files ${targetLabel} failed (code ${files.code}):\n${files.stderr.trim()}`);
+  }
+  if (executionRoot.code !== 0) {
+    throw new Error(`bazel info execution_root failed (code ${executionRoot.code}):\n${executionRoot.stderr.trim()}`);
+  }
+
+  const execRoot = lastNonEmptyLine(executionRoot.stdout);
+  const relativeBinary = selectTestBinary(targetLabel, files.stdout.split(/\r?\n/));
+  if (!execRoot || !relativeBinary) {
+    throw new Error(`Could not locate the test binary for ${targetLabel}`);
+  }
+
+  const binary = path.isAbsolute(relativeBinary) ? relativeBinary : path.join(execRoot, relativeBinary);
+  const runfilesDir = `${binary}.runfiles`;
+  const workspaceName = detectWorkspaceName(runfilesDir);
+  const tmpDir = await fs.promises.mkdtemp(path.join(os.tmpdir(), 'bazel-test-explorer-debug-'));
+
+  logWithTimestamp(`Debug binary for ${targetLabel}: ${binary}`);
+
+  return {
+    targetLabel,
+    binary,
+    runfilesDir,
+    workspaceName,
+    env: {
+      TEST_SRCDIR: runfilesDir,
+      RUNFILES_DIR: runfilesDir,
+      TEST_WORKSPACE: workspaceName,
+      TEST_TARGET: targetLabel,
+      TEST_TMPDIR: tmpDir,
+      TEST_TOTAL_SHARDS: '1',
+      TEST_SHARD_INDEX: '0'
+    }
+  };
+}
+
+/**
+ * Removes the TEST_TMPDIR created for a debug session
+ */
+export async function releaseDebugTarget(prepared: PreparedDebugTarget): Promise<void> {
+  const tmpDir = prepared.env.TEST_TMPDIR;
+  if (!tmpDir) {
+    return;
+  }
+  try {
+    await fs.promises.rm(tmpDir, { recursive: true, force: true });
+  } catch (error) {
+    logWithTimestamp(`Could not remove debug TEST_TMPDIR ${tmpDir}: ${error}`, 'warn');
+  }
+}
+
+/**
+ * Tags a launch configuration so its session can be told apart from other
+ * sessions with the same name
+ */
+export function tagDebugConfiguration(debugConfig: vscode.DebugConfiguration): string {
+  const sessionId = `${process.pid}-${Date.now()}-${++debugSessionCounter}`;
+  debugConfig[DEBUG_SESSION_ID_KEY] = sessionId;
+  return sessionId;
+}
+
+/**
+ * Follows the debug session started with a tagged configuration. `ended` resolves
+ * when the session terminates, its debug adapter exits, or the token is cancelled
+ * (which also stops the session); the exit code comes from the adapter's `exited`
+ * event. Call `dispose` once the outcome has been reported.
+ */
+export function trackDebugSession(
+  sessionId: string,
+  token: vscode.CancellationToken
+): { ended: Promise<DebugSessionOutcome>; dispose: () => void } {
+  const isTracked = (session: vscode.DebugSession) => session.configuration[DEBUG_SESSION_ID_KEY] === sessionId;
+  let session: vscode.DebugSession | undefined;
+  let exitCode: number | undefined;
+  let finish: (cancelled: boolean) => void = () => undefined;
+  const ended = new Promise<DebugSessionOutcome>(resolve => {
+    finish = cancelled => resolve({ exitCode, cancelled });
+  });
+
+  const disposables: vscode.Disposable[] = [
+    vscode.debug.onDidStartDebugSession(started => {
+      if (isTracked(started)) {
+        session = started;
+      }
+    }),
+    vscode.debug.onDidTerminateDebugSession(terminated => {
+      if (isTracked(terminated)) {
+        finish(false);
+      }
+    }),
+    vscode.debug.registerDebugAdapterTrackerFactory('*', {
+      createDebugAdapterTracker: tracked => isTracked(tracked)
+        ? {
+          onDidSendMessage: (message: { type?: string; event?: string; body?: { exitCode?: number } }) => {
+            if (message?.type === 'event' && message.event === 'exited' && typeof message.body?.exitCode === 'number') {
+              exitCode = message.body.exitCode;
+            }
+          },
+          // The adapter crashed or quit without terminating the session
+          onExit: () => finish(false),
+          onError: () => finish(false)
+        }
+        : undefined
+    }),
+    token.onCancellationRequested(() => {
+      if (session) {
+        void vscode.debug.stopDebugging(session);
+      }
+      finish(true);
+    })
+  ];
+
+  return {
+    ended,
+    dispose: () => disposables.forEach(disposable => disposable.dispose())
+  };
+}
+
+/**
+ * Picks the executable among the files reported by `cquery --output=files`
+ */
+export function selectTestBinary(targetLabel: string, files: string[]): string | undefined {
+  const candidates = files.map(f => f.trim()).filter(Boolean);
+  const targetName = targetLabel.split(':').pop() ?? '';
+  const byName = candidates.find(f => {
+    const base = path.basename(f);
+    return base === targetName || base === `${targetName}.exe`;
+  });
+  return byName ?? candidates.find(f => !f.endsWith('.jar')) ?? candidates[0];
+}
+
+/**
+ * Environment that tells the test framework which case to run.
+ * TESTBRIDGE_TEST_ONLY is what Bazel sets for --test_filter.
+ */
+export function buildTestFilterEnv(testCaseName: string | undefined, framework?: string): Record<string, string> {
+  if (!testCaseName) {
+    return {};
+  }
+  const env: Record<string, string> = { TESTBRIDGE_TEST_ONLY: testCaseName };
+  if (framework === 'gtest') {
+    env.GTEST_FILTER = testCaseName.replace(/::/g, '.');
+  }
+  return env;
+}
+
+/**
+ * Creates the launch configuration for the debugger matching the test language
+ */
+export function buildDebugConfiguration(
+  language: DebugLanguage,
+  prepared: PreparedDebugTarget,
+  workspacePath: string,
+  config: ConfigurationService,
+  metadata?: BazelTestTarget,
+  testCaseName?: string
+): vscode.DebugConfiguration {
+  const name = `Debug ${testCaseName ? `${prepared.targetLabel}::${testCaseName}` : prepared.targetLabel}`;
+  const env = { ...prepared.env, ...buildTestFilterEnv(testCaseName, detectPrimaryFramework(metadata)) };
+  const cwd = path.join(prepared.runfilesDir, prepared.workspaceName);
+
+  switch (language) {
+    case 'python':
+      return {
+        type: 'debugpy',
+        request: 'launch',
+        name,
+        program: resolvePythonMain(prepared, metadata) ?? prepared.binary,
+        args: testCaseName ? ['-k', testCaseName] : [],
+        cwd,
+        env: { ...env, PYTHONPATH: [cwd, prepared.runfilesDir].join(path.delimiter) },
+        justMyCode: false
+      };
+    case 'go':
+      return {
+        type: 'go',
+        request: 'launch',
+        mode: 'exec',
+        name,
+        program: prepared.binary,
+        args: testCaseName ? ['-test.run', `^${testCaseName}$`] : [],
+        cwd,
+        env
+      };
+    case 'java':
+      return {
+        type: 'java',
+        request: 'attach',
+        name,
+        hostName: 'localhost',
+        port: JAVA_DEBUG_PORT
+      };
+    case 'cpp':
+    default:
+      if (config.cppDebugger === 'lldb') {
+        return {
+          type: 'lldb',
+          request: 'launch',
+          name,
+          program: prepared.binary,
+          args: [],
+          cwd,
+          env,
+          sourceMap: { '.': workspacePath, '/proc/self/cwd': workspacePath }
+        };
+      }
+      return {
+        type: 'cppdbg',
+        request: 'launch',
+        name,
+        program: prepared.binary,
+        args: [],
+        cwd,
+        environment: Object.entries(env).map(([key, value]) => ({ name: key, value })),
+        MIMode: process.platform === 'darwin' ? 'lldb' : 'gdb',
+        sourceFileMap: { '/proc/self/cwd': workspacePath }
+      };
+  }
+}
+
+/**
+ * Port used by `bazel test --java_debug` (JDWP, suspended until a debugger attaches)
+ */
+export const JAVA_DEBUG_PORT = 5005;
+
+/**
+ * Arguments for running a Java test under `--java_debug`; the JVM waits on JAVA_DEBUG_PORT
+ */
+export function buildJavaDebugTestArgs(
+  config: ConfigurationService,
+  targetLabel: string,
+  testCaseName?: string
+): string[] {
+  const filter = testCaseName ? [`--test_filter=${testCaseName}`] : [];
+  return withStartupOptions(config, [
+    'test',
+    targetLabel,
+    '--java_debug',
+    '--test_output=streamed',
+    ...filter,
+    ...config.debugBuildArgs
+  ]);
+}
+
+/**
+ * Returns true once `--java_debug` output shows the JVM is waiting for a debugger
+ */
+export function isJavaDebuggerListening(line: string): boolean {
+  return /Listening for transport dt_socket at address/.test(line);
+}
+
+// ───────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────
+
+function withStartupOptions(config: ConfigurationService, args: string[]): string[] {
+  if (!config.ignoreRcFiles) {
+    return args;
+  }
+  const explicitBazelrc = config.bazelrcFiles.map(p => `--bazelrc=${p}`);
+  return ['--ignore_all_rc_files', ...explicitBazelrc, ...args];
+}
+
+function lastNonEmptyLine(output: string): string | undefined {
+  const lines = output.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
+  return lines[lines.length - 1];
+}
+
+/**
+ * Bzlmod workspaces use `_main` as the runfiles directory; WORKSPACE-based ones use the workspace name
+ */
+function detectWorkspaceName(runfilesDir: string): string {
+  try {
+    if (fs.existsSync(path.join(runfilesDir, '_main'))) {
+      return '_main';
+    }
+    const entries = fs.readdirSync(runfilesDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('bazel_tools'));
+    if (entries.length === 1) {
+      return entries[0].name;
+    }
+  } catch {
+    // runfiles tree not materialized (e.g. --nobuild_runfile_links)
+  }
+  return '_main';
+}
+
+function resolvePythonMain(prepared: PreparedDebugTarget, metadata?: BazelTestTarget): string | undefined {
+  const targetName = prepared.targetLabel.split(':').pop() ?? '';
+  const packagePath = prepared.targetLabel.replace(/^@[^/]*/, '').replace(/^\/\//, '').split(':')[0];
+  const pySrcs = (metadata?.srcs ?? [])
+    .map(src => normalizeSrcEntry(src, packagePath))
+    .filter((src): src is string => !!src && src.endsWith('.py'));
+  const main = pySrcs.find(src => path.basename(src) === `${targetName}.py`) ?? pySrcs[0];
+  return main ? path.join(prepared.runfilesDir, prepared.workspaceName, main) : undefined;
+}
@@ -0,0 +1,170 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Discovery snapshot - persists the discovered test targets in workspace storage,
+ * keyed by a fingerprint of the BUILD and MODULE files, so the test tree can be
+ * rendered at activation before Bazel has answered a single query
+ */
+
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as path from 'path';
+import { BazelTestTarget } from './types';
+import { QueryCache } from './cache';
+import { logWithTimestamp } from '../logging';
+
+// ───────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────
+
+export interface DiscoverySnapshot {
+  version: number;
+  fingerprint: string;
+  savedAt: number;
+  targets: BazelTestTarget[];
+}
+
+export interface TestTargetDiff {
+  added: BazelTestTarget[];
+  changed: BazelTestTarget[];
+  /** Labels of targets that no longer exist */
+  removed: string[];
+}
+
+let storage: { get: (key: string) => unknown; set: (key: string, value: unknown) => Thenable<void> } | undefined;
+
+const STORAGE_KEY = 'bazelTestExplorer.discoverySnapshot';
+const SNAPSHOT_VERSION = 1;
+
+// Files whose content decides which test targets exist
+const BUILD_FILE_NAMES = new Set(['BUILD', 'BUILD.bazel', 'WORKSPACE', 'WORKSPACE.bazel', 'MODULE.bazel']);
+
+// ───────────────────────────────────────────────────────────────
+// Public API
+// ───────────────────────────────────────────────────────────────
+
+export const initializeDiscoverySnapshot = (
+  state: { get: (key: string) => unknown; update: (key: string, value: unknown) => Thenable<void> }
+): void => {
+  storage = {
+    get: (key) => state.get(key),
+    set: (key, value) => state.update(key, value)
+  };
+};
+
+/**
+ * Hashes the relative path and content of every BUILD, WORKSPACE and MODULE file,
+ * together with the configured query paths, test types and discovery mode. Hidden
+ * directories, `node_modules` and the `bazel-*` convenience symlinks are not searched.
+ */
+export async function computeDiscoveryFingerprint(
+  workspacePath: string,
+  queryPaths: string[],
+  testTypes: string[],
+  discoveryArgs: string[] = []
+): Promise<string> {
+  const files: string[] = [];
+  const pending = [workspacePath];
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(current, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        if (!entry.name.startsWith('.') && !entry.name.startsWith('bazel-') && entry.name !== 'node_modules') {
+          pending.push(entryPath);
+        }
+      } else if (entry.isFile() && BUILD_FILE_NAMES.has(entry.name)) {
+        files.push(path.relative(workspacePath, entryPath).split(path.sep).join('/'));
+      }
+    }
+  }
+
+  const hash = crypto.createHash('sha256').update(QueryCache.createKey(queryPaths, testTypes, discoveryArgs));
+  for (const file of files.sort()) {
+    try {
+      const content = await fs.promises.readFile(path.join(workspacePath, file));
+      hash.update(`\0${file}\0`).update(content);
+    } catch {
+      // Removed while hashing; the next discovery sees a different fingerprint
+    }
+  }
+  return hash.digest('hex');
+}
+
+/**
+ * Targets of the stored snapshot, or undefined if there is none for the fingerprint
+ */
+export function loadDiscoverySnapshot(fingerprint: string): BazelTestTarget[] | undefined {
+  const raw = storage?.get(STORAGE_KEY) as DiscoverySnapshot | undefined;
+  if (!raw || typeof raw !== 'object' || raw.version !== SNAPSHOT_VERSION || !Array.isArray(raw.targets)) {
+    return undefined;
+  }
+  if (raw.fingerprint !== fingerprint) {
+    logWithTimestamp('Discovery snapshot is outdated: BUILD or MODULE files changed since it was saved');
+    return undefined;
+  }
+  return raw.targets;
+}
+
+/**
+ * Replaces the stored snapshot with the targets of a completed discovery
+ */
+export async function saveDiscoverySnapshot(fingerprint: string, targets: BazelTestTarget[]): Promise<void> {
+  if (!storage) {
+    return;
+  }
+  const snapshot: DiscoverySnapshot = { version: SNAPSHOT_VERSION, fingerprint, savedAt: Date.now(), targets };
+  try {
+    await storage.set(STORAGE_KEY, snapshot);
+  } catch (error) {
+    logWithTimestamp(`Failed to save discovery snapshot: ${error}`, 'warn');
+  }
+}
+
+/**
+ * Compares two discovery results by label; a target counts as changed when any of
+ * its metadata differs
+ */
+export function diffTestTargets(previous: BazelTestTarget[], next: BazelTestTarget[]): TestTargetDiff {
+  const before = new Map(previous.map(target => [target.target, target]));
+  const diff: TestTargetDiff = { added: [], changed: [], removed: [] };
+
+  for (const target of next) {
+    const old = before.get(target.target);
+    before.delete(target.target);
+    if (!old) {
+      diff.added.push(target);
+    } else if (serializeTarget(old) !== serializeTarget(target)) {
+      diff.changed.push(target);
+    }
+  }
+  diff.removed = Array.from(before.keys());
+  return diff;
+}
+
+export const disposeDiscoverySnapshot = (): void => {
+  storage = undefined;
+};
+
+// ───────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────
+
+/**
+ * JSON of a target with sorted keys, so the attribute order of the query does not count as a change
+ */
+function serializeTarget(target: BazelTestTarget): string {
+  return JSON.stringify(target, Object.keys(target).sort());
+}
@@ -0,0 +1,223 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Bazel exit codes - maps every documented exit code to a test state, a user
+ * message and a suggested action
+ */
+
+// ───────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────
+
+/**
+ * State a test item gets when its invocation ends with the exit code
+ */
+export type ExitCodeTestState = 'passed' | 'failed' | 'errored' | 'skipped';
+
+export interface BazelExitCode {
+  code: number;
+  /** Name of the code in Bazel's `ExitCode` class */
+  name: string;
+  testState: ExitCodeTestState;
+  /** Tests ran, so test.xml and test.log hold results to report */
+  hasTestResults: boolean;
+  /** Running the same command again may succeed */
+  transient: boolean;
+  icon: string;
+  title: string;
+  message: string;
+  /** What the user can do about it */
+  action?: string;
+}
+
+type ExitCodeEntry = Omit<BazelExitCode, 'code' | 'hasTestResults' | 'transient'>
+  & Partial<Pick<BazelExitCode, 'hasTestResults' | 'transient'>>;
+
+// https://bazel.build/run/scripts#exit-codes
+const EXIT_CODES: Record<number, ExitCodeEntry> = {
+  0: {
+    name: 'SUCCESS',
+    testState: 'passed',
+    hasTestResults: true,
+    icon: '✅',
+    title: 'Test Passed',
+    message: 'The build and all tests succeeded.'
+  },
+  1: {
+    name: 'BUILD_FAILURE',
+    testState: 'errored',
+    icon: '🔨',
+    title: 'Build Failed',
+    message: 'The target or one of its dependencies did not build, so no test ran.',
+    action: 'Fix the compiler errors listed in the Problems view and run again.'
+  },
+  2: {
+    name: 'COMMAND_LINE_ERROR',
+    testState: 'errored',
+    icon: '⚙️',
+    title: 'Invalid Command Line',
+    message: 'Bazel rejected the command line: a flag, a flag value or a --config is invalid.',
+    action: 'Check bazelTestExplorer.testArgs, the flags of the run profile and that every --config exists in your .bazelrc.'
+  },
+  3: {
+    name: 'TESTS_FAILED',
+    testState: 'failed',
+    hasTestResults: true,
+    icon: '❌',
+    title: 'Some Tests Failed',
+    message: 'The build succeeded but some tests failed or timed out.'
+  },
+  4: {
+    name: 'NO_TESTS_FOUND',
+    testState: 'skipped',
+    icon: '🚫',
+    title: 'No Tests Found',
+    message: 'The build succeeded but no test ran.',
+    action: 'Check that the target is a test rule and that the test filter matches a test case; tags like "manual" exclude targets from wildcard patterns.'
+  },
+  6: {
+    name: 'RUN_FAILURE',
+    testState: 'errored',
+    icon: '🧨',
+    title: 'Run Failed',
+    message: 'The program started by bazel run failed.'
+  },
+  7: {
+    name: 'ANALYSIS_FAILURE',
+    testState: 'errored',
+    icon: '🧨',
+    title: 'Analysis Failed',
+    message: 'Bazel could not analyze the targets or evaluate the query.',
+    action: 'Check the BUILD files and query paths named in the output.'
+  },
+  8: {
+    name: 'INTERRUPTED',
+    testState: 'skipped',
+    transient: true,
+    icon: '⏹️',
+    title: 'Interrupted',
+    message: 'The build was interrupted before the tests finished.',
+    action: 'Run the tests again.'
+  },
+  9: {
+    name: 'LOCK_HELD_NOBLOCK_FOR_LOCK',
+    testState: 'errored',
+    transient: true,
+    icon: '🔒',
+    title: 'Server Lock Held',
+    message: 'Another Bazel command holds the server lock and --noblock_for_lock is set.',
+    action: 'Wait for the other command to finish or remove --noblock_for_lock.'
+  },
+  32: {
+    name: 'REMOTE_ENVIRONMENTAL_ERROR',
+    testState: 'errored',
+    transient: true,
+    icon: '🌐',
+    title: 'Remote Environment Error',
+    message: 'A remote execution or cache service failed.',
+    action: 'Check --remote_executor, --remote_cache and your network connection, then run again.'
+  },
+  33: {
+    name: 'OOM_ERROR',
+    testState: 'errored',
+    icon: '💥',
+    title: 'Out of Memory',
+    message: 'The Bazel server ran out of memory.',
+    action: 'Raise the server heap with --host_jvm_args=-Xmx<size> in .bazelrc or lower --jobs.'
+  },
+  36: {
+    name: 'LOCAL_ENVIRONMENTAL_ERROR',
+    testState: 'errored',
+    icon: '💻',
+    title: 'Local Environment Error',
+    message: 'A problem on this machine, such as a full disk or missing permissions, stopped Bazel.',
+    action: 'Check the free disk space and the permissions of the output base (bazel info output_base).'
+  },
+  37: {
+    name: 'BLAZE_INTERNAL_ERROR',
+    testState: 'errored',
+    transient: true,
+    icon: '🐞',
+    title: 'Bazel Internal Error',
+    message: 'Bazel crashed with an unhandled exception.',
+    action: 'Run "bazel shutdown" and try again; report the crash to Bazel if it persists.'
+  },
+  38: {
+    name: 'TRANSIENT_BUILD_EVENT_SERVICE_UPLOAD_ERROR',
+    testState: 'errored',
+    transient: true,
+    icon: '📡',
+    title: 'Build Event Upload Failed',
+    message: 'The results could not be uploaded to the Build Event Service.',
+    action: 'Run again; the local results are kept in bazel-testlogs.'
+  },
+  39: {
+    name: 'REMOTE_CACHE_EVICTED',
+    testState: 'errored',
+    transient: true,
+    icon: '🌐',
+    title: 'Remote Cache Evicted',
+    message: 'Outputs Bazel needed were evicted from the remote cache during the build.',
+    action: 'Run again; --experimental_remote_cache_eviction_retries retries automatically.'
+  },
+  45: {
+    name: 'PERSISTENT_BUILD_EVENT_SERVICE_UPLOAD_ERROR',
+    testState: 'errored',
+    icon: '📡',
+    title: 'Build Event Upload Failed',
+    message: 'The Build Event Service rejected the upload of the results.',
+    action: 'Check the --bes_backend configuration and its credentials.'
+  }
+};
+
+// ───────────────────────────────────────────────────────────────
+// Public API
+// ───────────────────────────────────────────────────────────────
+
+/**
+ * Describes a Bazel exit code; codes Bazel does not document are reported as errors
+ */
+export function describeBazelExitCode(code: number): BazelExitCode {
+  const entry = EXIT_CODES[code];
+  if (!entry) {
+    return {
+      code,
+      name: 'UNKNOWN',
+      testState: 'errored',
+      hasTestResults: false,
+      transient: false,
+      icon: '🧨',
+      title: 'Build or Config Error',
+      message: `Bazel exited with undocumented code ${code}.`
+    };
+  }
+  return { hasTestResults: false, transient: false, ...entry, code };
+}
+
+/**
+ * One-paragraph user message: `Title (Code N): message` and the suggested action
+ */
+export function formatExitCodeMessage(exit: BazelExitCode): string {
+  const summary = `${exit.icon} ${exit.title} (Code ${exit.code}): ${exit.message}`;
+  return exit.action ? `${summary}\n💡 ${exit.action}` : summary;
+}
+
+/**
+ * A Bazel command that ended with an exit code its caller cannot continue from
+ */
+export class BazelCommandError extends Error {
+  readonly exitCode: BazelExitCode;
+
+  constructor(command: string, code: number, readonly stderr = '') {
+    const exitCode = describeBazelExitCode(code);
+    super(`bazel ${command} failed: ${exitCode.title} (Code ${code})`);
+    this.name = 'BazelCommandError';
+    this.exitCode = exitCode;
+  }
+}
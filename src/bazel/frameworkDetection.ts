@@ -50,6 +50,9 @@ export function detectFrameworks(metadata?: BazelTestTarget): string[] {
     if (hasDep('catch2')) {
       frameworks.add('catch2');
     }
+    if (hasDep('boost//:test', 'boost.test', 'boost_test', 'unit_test_framework')) {
+      frameworks.add('boost');
+    }
     if (hasDep('doctest')) {
       frameworks.add('doctest');
     }
@@ -14,6 +14,11 @@ import * as vscode from 'vscode';
 import * as path from 'path';
 import * as fs from 'fs';
 import { logWithTimestamp } from '../logging';
+import { buildMemcheckMessages, parseMemcheckReport } from './testcase/parseMemcheck';
+import { buildSanitizerMessages, parseSanitizerReports } from './testcase/parseSanitizer';
+import { applyStackTrace } from './testcase/parseStackTrace';
+import { extractAssertionDiff } from './testcase/parseAssertionDiff';
+import { getPackagePath } from '../explorer/sourceUtils';
 
 export function analyzeTestFailures(
   testLog: string[],
@@ -49,10 +54,18 @@ export function analyzeTestFailures(
     { pattern: /^Assertion failed: .*?, function .*?, file (.+?), line (\d+)\./, source: 'Built-in' },
   ];
 
-  const messages: vscode.TestMessage[] = [];
-  const matchingLines = testLog.filter(line => failPatterns.some(({ pattern }) => pattern.test(line)));
+  // Sanitizer and Valgrind reports come first; they are located at the first user frame
+  const packagePath = getPackagePath(testItem.id);
+  const messages: vscode.TestMessage[] = [
+    ...buildSanitizerMessages(parseSanitizerReports(testLog), workspacePath, packagePath),
+    ...buildMemcheckMessages(parseMemcheckReport(testLog), workspacePath, packagePath)
+  ];
+  const matchingIndices = testLog
+    .map((line, index) => (failPatterns.some(({ pattern }) => pattern.test(line)) ? index : -1))
+    .filter(index => index !== -1);
 
-  for (const line of matchingLines) {
+  matchingIndices.forEach((lineIndex, n) => {
+    const line = testLog[lineIndex];
     let bestMatch: {
       match: RegExpMatchArray;
       pattern: RegExp;
@@ -80,14 +93,19 @@ export function analyzeTestFailures(
         const zeroBased = Math.max(0, Number(lineStr) - 1);
         const location = new vscode.Location(uri, new vscode.Position(zeroBased, 0));
         const fullText = [line, '', ...testLog].join('\n');
-        const message = new vscode.TestMessage(fullText);
+        // The lines up to the next failure belong to this one (gtest/testify values follow the location)
+        const diff = extractAssertionDiff(testLog.slice(lineIndex, matchingIndices[n + 1] ?? testLog.length));
+        const message = diff
+          ? vscode.TestMessage.diff(fullText, diff.expected, diff.actual)
+          : new vscode.TestMessage(fullText);
         message.location = location;
+        applyStackTrace(message, testLog, workspacePath, packagePath);
         messages.push(message);
       } else {
         logWithTimestamp(`File not found: ${fullPath}`);
       }
     }
-  }
+  });
 
   return messages;
 }
@@ -12,8 +12,14 @@
 
 import { BazelTestTarget } from './types';
 import { logWithTimestamp, measure } from '../logging';
-import { runBazelCommand } from '../infrastructure/process';
+import { runBazelCommand, ScheduleOptions } from '../infrastructure/process';
 import { ConfigurationService } from '../configuration';
+import { withQueryOutputBase } from './queryServer';
+import { BazelCommandError, describeBazelExitCode, formatExitCodeMessage } from './exitCodes';
+import { diffTestTargets, TestTargetDiff } from './discoverySnapshot';
+import { CancellationToken } from 'vscode';
+import * as fs from 'fs';
+import * as path from 'path';
 
 // Query configuration constants
 const MIN_CHUNK_SIZE = 50;
@@ -31,6 +37,20 @@ function clamp(value: number, min: number, max: number): number {
   return Math.min(max, Math.max(min, Math.floor(value)));
 }
 
+const BUILD_FILE_NAMES = ['BUILD.bazel', 'BUILD'];
+
+// Excluded kinds are spliced into a regular expression of the query
+const RULE_KIND_PATTERN = /^[A-Za-z0-9_]+$/;
+
+// Flags of `bazel test` that cquery rejects or that only affect test execution and output
+const TEST_ONLY_FLAG_PREFIXES = [
+  '--test_', '--runs_per_test', '--flaky_test_attempts', '--cache_test_results', '--build_tests_only',
+  '--run_under', '--build_event_', '--bes_', '--combined_report'
+];
+
+// Discovery runs in the background and waits for test runs the user started
+const DISCOVERY_SCHEDULE: ScheduleOptions = { priority: 'background' };
+
 const testMap: Map<string, BazelTestTarget> = new Map();
 
 export const queryBazelTestTargets = async (
@@ -42,10 +62,9 @@ export const queryBazelTestTargets = async (
   // Clear testMap before querying to remove deleted/renamed targets
   testMap.clear();
 
-  const testTypes: string[] = config.testTypes;
   const queryPaths: string[] = config.queryPaths;
   const sanitizedPaths = sanitizeQueryPaths(queryPaths);
-  const queries = buildBazelQueries(sanitizedPaths, testTypes);
+  const queries = sanitizedPaths.map(path => buildTestKindQuery(path, config));
 
   await executeBazelQueries(queries, workspacePath, config);
 
@@ -67,24 +86,29 @@ export const queryBazelTestLabelsOnly = async (
 ): Promise<string[]> => {
   logWithTimestamp(`Two-phase discovery: Phase 1 (labels only)`);
   
-  const testTypes: string[] = config.testTypes;
   const queryPaths: string[] = config.queryPaths;
   const sanitizedPaths = sanitizeQueryPaths(queryPaths);
-  const allTypes = [...new Set([...testTypes, "test_suite"])];
   
   const labels: string[] = [];
   
   for (const path of sanitizedPaths) {
-    const query = `${allTypes.map(type => `kind(${type}, ${path})`).join(" union ")}`;
-    const bazelArgs = ['query', query, '--keep_going', '--output=label'];
+    const query = buildTestKindQuery(path, config);
+    const bazelArgs = withQueryOutputBase(['query', query, '--keep_going', '--output=label'], workspacePath, config);
     
-    const { stdout } = await runBazelCommand(
+    const { code, stdout, stderr } = await runBazelCommand(
       bazelArgs, 
       workspacePath, 
       undefined, 
       undefined, 
-      config.bazelPath
+      config.bazelPath,
+      undefined,
+      undefined,
+      DISCOVERY_SCHEDULE
     );
+    // --keep_going reports broken packages with code 3 and still lists the other targets
+    if (code !== 0 && code !== 3) {
+      throw new BazelCommandError('query', code, stderr);
+    }
     
     labels.push(...stdout.split('\n').filter(l => l.trim() !== ''));
   }
@@ -161,11 +185,11 @@ async function queryMetadataChunk(
   config: ConfigurationService
 ): Promise<void> {
   const query = `${labels.join(' union ')}`;
-  const bazelArgs = ['query', query, '--keep_going', '--output=streamed_jsonproto'];
+  const bazelArgs = withQueryOutputBase(['query', query, '--keep_going', '--output=streamed_jsonproto'], workspacePath, config);
   
   await runBazelCommand(bazelArgs, workspacePath, line => {
-    parseBazelLine(line);
-  }, undefined, config.bazelPath);
+    storeTestTarget(parseBazelLine(line));
+  }, undefined, config.bazelPath, undefined, undefined, DISCOVERY_SCHEDULE);
   
   logWithTimestamp(`Chunk complete: ${labels.length} labels processed`);
 }
@@ -174,6 +198,218 @@ export const getTestTargetById = (target: string): BazelTestTarget | undefined =
   return testMap.get(target);
 };
 
+/**
+ * Makes targets restored from a discovery snapshot available to runs before
+ * the first query completes
+ */
+export const restoreTestTargets = (targets: BazelTestTarget[]): void => {
+  testMap.clear();
+  for (const target of targets) {
+    testMap.set(target.target, target);
+  }
+};
+
+export const getTestTargets = (): BazelTestTarget[] => {
+  return Array.from(testMap.values());
+};
+
+/**
+ * Re-discovers the test targets of changed packages (e.g. `//pkg/a`) with one
+ * `kind(..., //pkg/a:*)` query and merges the result into the known targets.
+ * Packages without a BUILD file, including known packages whose directory was
+ * deleted or renamed, lose their targets without being queried.
+ *
+ * @returns The targets added, changed and removed by the merge
+ */
+export const queryChangedPackages = async (
+  packages: string[],
+  workspacePath: string,
+  config: ConfigurationService
+): Promise<TestTargetDiff> => {
+  const knownPackages = new Set(
+    Array.from(testMap.keys()).filter(label => label.startsWith('//')).map(label => label.split(':')[0])
+  );
+  const affected = new Set(packages);
+  for (const known of knownPackages) {
+    if (!hasBuildFile(workspacePath, known)) {
+      affected.add(known);
+    }
+  }
+
+  const existing = Array.from(affected).filter(pkg => hasBuildFile(workspacePath, pkg)).sort();
+  const sanitizedPaths = sanitizeQueryPaths(config.queryPaths);
+  const patterns = [...new Set(existing.flatMap(pkg => packagePatterns(pkg, sanitizedPaths)))];
+
+  const discovered: BazelTestTarget[] = [];
+  if (patterns.length > 0) {
+    const query = buildTestKindQuery(patterns.join(' + '), config);
+    logWithTimestamp(`Re-querying ${existing.length} changed package(s): ${existing.join(', ')}`);
+
+    if (config.discoveryMode === 'cquery') {
+      discovered.push(...await runConfiguredQuery(query, workspacePath, config));
+    } else {
+      const { code, stderr } = await runBazelCommand(
+        withQueryOutputBase(['query', query, '--keep_going', '--output=streamed_jsonproto'], workspacePath, config),
+        workspacePath,
+        line => {
+          const target = parseBazelLine(line);
+          if (target) {
+            discovered.push(target);
+          }
+        },
+        undefined,
+        config.bazelPath,
+        undefined,
+        undefined,
+        DISCOVERY_SCHEDULE
+      );
+      if (code !== 0 && code !== 3) {
+        throw new BazelCommandError('query', code, stderr);
+      }
+    }
+  }
+
+  return mergeChangedPackages(affected, discovered);
+};
+
+/**
+ * Discovers test targets with `bazel cquery` in the build configuration of test
+ * runs, so attributes chosen through `select()` resolve to one branch
+ */
+export const queryConfiguredTestTargets = async (
+  workspacePath: string,
+  config: ConfigurationService
+): Promise<BazelTestTarget[]> => {
+  const query = buildTestKindQuery(sanitizeQueryPaths(config.queryPaths).join(' + '), config);
+
+  const targets = await measure('cquery discovery', () => runConfiguredQuery(query, workspacePath, config));
+  testMap.clear();
+  targets.forEach(storeTestTarget);
+  logWithTimestamp(`Found ${testMap.size} configured test targets in Bazel workspace.`);
+  return Array.from(testMap.values());
+};
+
+/**
+ * Build flags for cquery discovery: `testArgs` without test-only and output
+ * flags, followed by `cqueryArgs`
+ */
+export function buildCqueryFlags(config: ConfigurationService): string[] {
+  const buildFlags = config.testArgs.filter(arg =>
+    arg.startsWith('-') && !TEST_ONLY_FLAG_PREFIXES.some(prefix => arg.replace(/^--(no)?/, '--').startsWith(prefix))
+  );
+  return [...buildFlags, ...config.cqueryArgs];
+}
+
+/**
+ * Distinguishes discovery results of different modes and flags in caches and
+ * the discovery snapshot
+ */
+export function getDiscoveryKeyArgs(config: ConfigurationService): string[] {
+  const kindArgs = config.autoDetectTestKinds
+    ? ['auto-kinds', ...[...config.excludedTestKinds].sort().map(kind => `-${kind}`)]
+    : [];
+  return config.discoveryMode === 'cquery' ? ['cquery', ...buildCqueryFlags(config), ...kindArgs] : kindArgs;
+}
+
+/**
+ * Parses `bazel cquery --output=jsonproto`. A target analyzed in several
+ * configurations is kept once, preferring a non-tool configuration.
+ */
+export function parseCqueryOutput(stdout: string): BazelTestTarget[] {
+  if (stdout.trim() === '') {
+    return [];
+  }
+  const output = JSON.parse(stdout) as CqueryOutput;
+  const configurations = output.configurations ?? [];
+  const targets = new Map<string, { target: BazelTestTarget; isTool: boolean }>();
+
+  for (const result of output.results ?? []) {
+    if (result.target?.type !== 'RULE' || !result.target.rule) {
+      continue;
+    }
+    const described = result.configuration;
+    const known = configurations.find(c =>
+      (described?.checksum !== undefined && c.checksum === described.checksum)
+      || (described?.id !== undefined && c.id === described.id)
+    );
+    const mnemonic = described?.mnemonic ?? known?.mnemonic ?? described?.checksum?.slice(0, 8);
+    const isTool = described?.isTool ?? known?.isTool ?? false;
+    const target = toTestTarget(result.target.rule, mnemonic);
+
+    const existing = targets.get(target.target);
+    if (!existing || (existing.isTool && !isTool)) {
+      targets.set(target.target, { target, isTool });
+    }
+  }
+  return Array.from(targets.values()).map(entry => entry.target);
+}
+
+/**
+ * Maps workspace-relative file paths to Bazel source labels via the nearest
+ * enclosing BUILD file. Files outside any package are dropped.
+ */
+export const toSourceLabels = (files: string[], workspacePath: string): string[] => {
+  const labels = new Set<string>();
+  for (const file of files) {
+    const parts = file.replace(/\\/g, '/').split('/').filter(part => part !== '' && part !== '.');
+    if (parts.length === 0 || parts.includes('..')) {
+      continue;
+    }
+    for (let depth = parts.length - 1; depth >= 0; depth--) {
+      const packageDir = parts.slice(0, depth).join('/');
+      const hasBuildFile = BUILD_FILE_NAMES.some(name =>
+        fs.existsSync(path.join(workspacePath, packageDir, name))
+      );
+      if (hasBuildFile) {
+        labels.add(`//${packageDir}:${parts.slice(depth).join('/')}`);
+        break;
+      }
+    }
+  }
+  return Array.from(labels);
+};
+
+/**
+ * Finds the test targets (of the configured test types) that depend on the given
+ * source labels or workspace-relative files, using `rdeps` over the configured query paths.
+ */
+export const queryAffectedTestTargets = async (
+  files: string[],
+  workspacePath: string,
+  config: ConfigurationService,
+  cancellationToken?: CancellationToken
+): Promise<string[]> => {
+  const fileLabels = files
+    .map(file => file.trim().replace(/\\/g, '/'))
+    .filter(file => file !== '' && !/["\s]/.test(file))
+    .map(file => `"${file}"`);
+  if (fileLabels.length === 0) {
+    return [];
+  }
+
+  const universe = sanitizeQueryPaths(config.queryPaths).join(' + ');
+  const kinds = buildTestKindQuery('$affected', config, false);
+  const query = `let affected = rdeps(${universe}, set(${fileLabels.join(' ')})) in ${kinds}`;
+
+  // --keep_going: files outside any package are reported but do not drop the other results
+  const { code, stdout, stderr } = await runBazelCommand(
+    withQueryOutputBase(['query', query, '--keep_going', '--output=label'], workspacePath, config),
+    workspacePath,
+    undefined,
+    undefined,
+    config.bazelPath,
+    undefined,
+    cancellationToken
+  );
+  if (code !== 0 && code !== 3) {
+    logWithTimestamp(`rdeps query failed: ${formatExitCodeMessage(describeBazelExitCode(code))}\n${stderr.trim()}`, 'warn');
+  }
+
+  const labels = stdout.split(/\r?\n/).map(l => l.trim()).filter(l => l !== '');
+  logWithTimestamp(`${labels.length} test target(s) depend on ${files.length} changed file(s)`);
+  return labels;
+};
+
 /**
  * Validates a single Bazel query path
  */
@@ -220,11 +456,89 @@ function sanitizeQueryPaths(queryPaths: string[]): string[] {
   return validPaths.length > 0 ? validPaths : ['//...'];
 }
 
-function buildBazelQueries(paths: string[], testTypes: string[]): string[] {
-  const allTypes = [...new Set([...testTypes, "test_suite"])];
-  return paths.map(path =>
-    `${allTypes.map(type => `kind(${type}, ${path})`).join(" union ")}`
+/**
+ * Replaces the known targets of the affected packages with the re-discovered ones
+ */
+function mergeChangedPackages(affected: Set<string>, discovered: BazelTestTarget[]): TestTargetDiff {
+  const previous = Array.from(testMap.values()).filter(target => affected.has(target.target.split(':')[0]));
+  const diff = diffTestTargets(previous, discovered);
+  for (const label of diff.removed) {
+    testMap.delete(label);
+  }
+  for (const target of [...diff.added, ...diff.changed]) {
+    testMap.set(target.target, target);
+  }
+  logWithTimestamp(
+    `Changed packages: ${diff.added.length} target(s) added, ${diff.changed.length} changed, ${diff.removed.length} removed`
+  );
+  return diff;
+}
+
+async function runConfiguredQuery(
+  query: string,
+  workspacePath: string,
+  config: ConfigurationService
+): Promise<BazelTestTarget[]> {
+  // The rc files of test runs decide what --config means
+  const startupArgs = config.ignoreRcFiles
+    ? ['--ignore_all_rc_files', ...config.bazelrcFiles.map(file => `--bazelrc=${file}`)]
+    : [];
+  const bazelArgs = withQueryOutputBase(
+    [...startupArgs, 'cquery', query, '--keep_going', '--output=jsonproto', ...buildCqueryFlags(config)],
+    workspacePath,
+    config
+  );
+
+  const { code, stdout, stderr } = await runBazelCommand(
+    bazelArgs, workspacePath, undefined, undefined, config.bazelPath, undefined, undefined, DISCOVERY_SCHEDULE
   );
+  if (code !== 0 && code !== 3) {
+    throw new BazelCommandError('cquery', code, stderr);
+  }
+  return parseCqueryOutput(stdout);
+}
+
+function hasBuildFile(workspacePath: string, packageName: string): boolean {
+  const packageDir = packageName.replace(/^\/\//, '');
+  return BUILD_FILE_NAMES.some(name => fs.existsSync(path.join(workspacePath, packageDir, name)));
+}
+
+/**
+ * Target patterns that re-query a package within the configured query paths:
+ * `//pkg:*` below a recursive path, the path itself for a path into the package
+ */
+function packagePatterns(packageName: string, queryPaths: string[]): string[] {
+  const patterns: string[] = [];
+  for (const queryPath of queryPaths) {
+    if (queryPath.endsWith('...')) {
+      const base = queryPath.replace(/\/?\.\.\.$/, '');
+      if (base === '//' || packageName === base || packageName.startsWith(`${base}/`)) {
+        patterns.push(`${packageName}:*`);
+      }
+    } else if (queryPath.split(':')[0] === packageName) {
+      patterns.push(queryPath);
+    }
+  }
+  return patterns;
+}
+
+/**
+ * Query expression for the test targets in a universe: the configured `testTypes`,
+ * or with `autoDetectTestKinds` every rule kind ending in `_test` except the
+ * excluded ones. `test_suite` is included unless `includeSuites` is false.
+ */
+export function buildTestKindQuery(universe: string, config: ConfigurationService, includeSuites = true): string {
+  const suites = includeSuites ? ` union kind(test_suite, ${universe})` : '';
+  if (config.autoDetectTestKinds) {
+    const excluded = config.excludedTestKinds.filter(kind => RULE_KIND_PATTERN.test(kind));
+    const tests = `kind(".*_test rule", ${universe})`;
+    const kinds = excluded.length > 0
+      ? `(${tests} except kind("^(${excluded.join('|')}) rule$", ${universe}))`
+      : tests;
+    return `${kinds}${suites}`;
+  }
+  const types = includeSuites ? [...new Set([...config.testTypes, "test_suite"])] : config.testTypes;
+  return types.map(type => `kind(${type}, ${universe})`).join(" union ");
 }
 
 function normalizeQueryPathForRecursion(path: string): string {
@@ -276,50 +590,76 @@ async function executeBazelQueries(queries: string[], workspacePath: string, con
 
 async function executeSingleBazelQuery(query: string, workspacePath: string, config: ConfigurationService): Promise<void> {
   const queryStart = Date.now();
-  const bazelArgs = ['query', query, '--keep_going', '--output=streamed_jsonproto'];
+  const bazelArgs = withQueryOutputBase(['query', query, '--keep_going', '--output=streamed_jsonproto'], workspacePath, config);
 
   const { code, stdout } = await runBazelCommand(bazelArgs, workspacePath, line => {
-    parseBazelLine(line);
-  }, undefined, config.bazelPath);
+    storeTestTarget(parseBazelLine(line));
+  }, undefined, config.bazelPath, undefined, undefined, DISCOVERY_SCHEDULE);
 
   const duration = ((Date.now() - queryStart) / 1000).toFixed(2);
   logWithTimestamp(`Query completed in ${duration}s`);
   if (code !== 0) {
-    logWithTimestamp(`Bazel query failed with exit code ${code}. Please try running the query manually for more details.`, "warn");
+    logWithTimestamp(`Bazel query failed: ${formatExitCodeMessage(describeBazelExitCode(code))}`, "warn");
+
+  }
+}
 
+function storeTestTarget(target: BazelTestTarget | undefined): void {
+  if (target) {
+    testMap.set(target.target, target);
   }
 }
 
-function parseBazelLine(line: string): void {
-  if (line.trim() === '') {return;}
+function parseBazelLine(line: string): BazelTestTarget | undefined {
+  if (line.trim() === '') {return undefined;}
 
   try {
     const target: BazelQueryTarget = JSON.parse(line) as BazelQueryTarget;
-    if (target.type !== "RULE" || !target.rule) {return;}
-
-    const rule: BazelRule = target.rule;
-    const targetName = rule.name;
-
-    testMap.set(targetName, {
-      target: targetName,
-      type: rule.ruleClass,
-      location: rule.location ?? undefined,
-      tags: getAttribute(rule, "tags")?.stringListValue ?? [],
-      srcs: getAttribute(rule, "srcs")?.stringListValue ?? [],
-      timeout: getAttribute(rule, "timeout")?.stringValue ?? undefined,
-      size: getAttribute(rule, "size")?.stringValue ?? undefined,
-      flaky: getAttribute(rule, "flaky")?.booleanValue ?? false,
-      toolchain: getAttribute(rule, "$cc_toolchain")?.stringValue ?? undefined,
-      deps: getAttribute(rule, "deps")?.stringListValue ?? [],
-      tests: getAttribute(rule, "tests")?.stringListValue ?? [],
-      visibility: getAttribute(rule, "visibility")?.stringListValue ?? [],
-      shard_count: getAttribute(rule, "shard_count")?.intValue
-    });
+    if (target.type !== "RULE" || !target.rule) {return undefined;}
+
+    return toTestTarget(target.rule);
   } catch (e) {
     logWithTimestamp(`Failed to parse Bazel line: ${line}`, "warn");
+    return undefined;
   }
 }
 
+function toTestTarget(rule: BazelRule, configuration?: string): BazelTestTarget {
+  const target: BazelTestTarget = {
+    target: normalizeMainRepoLabel(rule.name),
+    type: rule.ruleClass,
+    location: rule.location ?? undefined,
+    tags: getAttribute(rule, "tags")?.stringListValue ?? [],
+    srcs: getAttribute(rule, "srcs")?.stringListValue?.map(normalizeMainRepoLabel) ?? [],
+    timeout: getAttribute(rule, "timeout")?.stringValue ?? undefined,
+    size: getAttribute(rule, "size")?.stringValue ?? undefined,
+    flaky: getAttribute(rule, "flaky")?.booleanValue ?? false,
+    toolchain: getAttribute(rule, "$cc_toolchain")?.stringValue ?? undefined,
+    deps: getAttribute(rule, "deps")?.stringListValue?.map(normalizeMainRepoLabel) ?? [],
+    tests: getAttribute(rule, "tests")?.stringListValue?.map(normalizeMainRepoLabel) ?? [],
+    visibility: getAttribute(rule, "visibility")?.stringListValue ?? [],
+    shard_count: getAttribute(rule, "shard_count")?.intValue
+  };
+  if (configuration) {
+    target.configuration = configuration;
+  }
+  // Set only for targets created by a macro
+  const generatorName = getAttribute(rule, "generator_name")?.stringValue;
+  if (generatorName) {
+    target.generator_name = generatorName;
+    target.generator_function = getAttribute(rule, "generator_function")?.stringValue || undefined;
+    target.generator_location = getAttribute(rule, "generator_location")?.stringValue || undefined;
+  }
+  return target;
+}
+
+/**
+ * cquery prints labels of the main repository as `@@//pkg:name` with Bzlmod
+ */
+function normalizeMainRepoLabel(label: string): string {
+  return label.replace(/^@@?\/\//, '//');
+}
+
 interface BazelRuleAttribute {
   name: string;
   stringValue?: string;
@@ -340,6 +680,19 @@ interface BazelQueryTarget {
   rule?: BazelRule;
 }
 
+interface CqueryConfiguration {
+  id?: number;
+  checksum?: string;
+  mnemonic?: string;
+  platformName?: string;
+  isTool?: boolean;
+}
+
+interface CqueryOutput {
+  results?: { target?: BazelQueryTarget; configuration?: CqueryConfiguration }[];
+  configurations?: CqueryConfiguration[];
+}
+
 function getAttribute(rule: BazelRule, name: string): BazelRuleAttribute | undefined {
   return rule.attribute?.find((a) => a.name === name);
 }
@@ -361,7 +714,7 @@ export const expandTestSuite = async (
   
   const query = `tests(${suiteLabel})`;
   const { stdout } = await runBazelCommand(
-    ['query', query, '--output=label'],
+    withQueryOutputBase(['query', query, '--output=label'], workspacePath, config),
     workspacePath, undefined, undefined, config.bazelPath
   );
   
@@ -0,0 +1,200 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Query server - runs read-only queries against a separate `--output_base`, so
+ * discovery gets its own Bazel server and never waits for a running test
+ */
+
+import * as cp from 'child_process';
+import * as crypto from 'crypto';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { ConfigurationService } from '../configuration';
+import { logWithTimestamp } from '../logging';
+
+// ───────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────
+
+export interface QueryServerStatus {
+  outputBase: string;
+  /** A query ran against the output base in this session */
+  started: boolean;
+  /** Size of the output base on disk, undefined if it does not exist yet */
+  diskUsageBytes?: number;
+}
+
+interface StartedQueryServer {
+  bazelPath: string;
+  workspacePath: string;
+}
+
+// Output base → how to reach the server started for it
+const startedServers = new Map<string, StartedQueryServer>();
+
+const SHUTDOWN_TIMEOUT_MS = 5_000;
+
+// ───────────────────────────────────────────────────────────────
+// Public API
+// ───────────────────────────────────────────────────────────────
+
+/**
+ * Output base for queries from `bazelTestExplorer.queryOutputBase`: undefined when
+ * queries share the test server, a per-workspace cache directory for `auto`,
+ * otherwise the configured path (relative to the workspace, `~` expanded)
+ */
+export function resolveQueryOutputBase(workspacePath: string, setting: string | undefined): string | undefined {
+  const value = setting?.trim();
+  if (!value) {
+    return undefined;
+  }
+  if (value === 'auto') {
+    const hash = crypto.createHash('md5').update(path.resolve(workspacePath)).digest('hex');
+    return path.join(os.homedir(), '.cache', 'bazel-test-explorer', `query-${hash}`);
+  }
+  const expanded = value.startsWith('~') ? path.join(os.homedir(), value.slice(1)) : value;
+  return path.resolve(workspacePath, expanded);
+}
+
+/**
+ * Prefixes a query command with the query output base, if one is configured.
+ * Bazel starts the server on its first command, so the server is started lazily
+ * by the first query that uses it.
+ */
+export function withQueryOutputBase(args: string[], workspacePath: string, config: ConfigurationService): string[] {
+  const outputBase = resolveQueryOutputBase(workspacePath, config.queryOutputBase);
+  if (!outputBase) {
+    return args;
+  }
+  if (!startedServers.has(outputBase)) {
+    logWithTimestamp(`Starting query server with --output_base=${outputBase}`);
+    startedServers.set(outputBase, { bazelPath: config.bazelPath, workspacePath });
+  }
+  return [`--output_base=${outputBase}`, ...args];
+}
+
+/**
+ * Location, state and disk usage of the configured query output base
+ */
+export async function getQueryServerStatus(
+  workspacePath: string,
+  config: ConfigurationService
+): Promise<QueryServerStatus | undefined> {
+  const outputBase = resolveQueryOutputBase(workspacePath, config.queryOutputBase);
+  if (!outputBase) {
+    return undefined;
+  }
+  return {
+    outputBase,
+    started: startedServers.has(outputBase),
+    diskUsageBytes: await measureDiskUsage(outputBase)
+  };
+}
+
+/**
+ * Shuts down every query server started in this session.
+ * Call this during extension deactivation.
+ */
+export async function shutdownQueryServers(): Promise<void> {
+  const servers = Array.from(startedServers.entries());
+  startedServers.clear();
+  await Promise.all(servers.map(([outputBase, server]) => shutdownServer(outputBase, server)));
+}
+
+/**
+ * Size of all files below a directory; symlinks (e.g. into external repositories)
+ * are not followed. Undefined if the directory does not exist.
+ */
+export async function measureDiskUsage(directory: string): Promise<number | undefined> {
+  try {
+    await fs.promises.access(directory);
+  } catch {
+    return undefined;
+  }
+
+  let total = 0;
+  const pending = [directory];
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+    let entries: fs.Dirent[];
+    try {
+      entries = await fs.promises.readdir(current, { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    for (const entry of entries) {
+      const entryPath = path.join(current, entry.name);
+      if (entry.isDirectory()) {
+        pending.push(entryPath);
+      } else if (entry.isFile()) {
+        try {
+          total += (await fs.promises.lstat(entryPath)).size;
+        } catch {
+          // Removed while measuring
+        }
+      }
+    }
+  }
+  return total;
+}
+
+/**
+ * Human-readable size, e.g. `1.5 GB`
+ */
+export function formatDiskUsage(bytes: number): string {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${unit === 0 ? value : value.toFixed(1)} ${units[unit]}`;
+}
+
+// ───────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────
+
+/**
+ * Runs `bazel --output_base=<dir> shutdown`; the client is detached so the shutdown
+ * completes even if the extension host exits first
+ */
+function shutdownServer(outputBase: string, server: StartedQueryServer): Promise<void> {
+  logWithTimestamp(`Shutting down query server at ${outputBase}`);
+  return new Promise(resolve => {
+    let timer: NodeJS.Timeout | undefined;
+    const finish = () => {
+      if (timer) {
+        clearTimeout(timer);
+        timer = undefined;
+      }
+      resolve();
+    };
+    try {
+      const proc = cp.spawn(server.bazelPath, [`--output_base=${outputBase}`, 'shutdown'], {
+        cwd: server.workspacePath,
+        stdio: 'ignore',
+        detached: true
+      });
+      proc.unref();
+      proc.once('close', finish);
+      proc.once('error', error => {
+        logWithTimestamp(`Failed to shut down query server at ${outputBase}: ${error.message}`, 'warn');
+        finish();
+      });
+      timer = setTimeout(finish, SHUTDOWN_TIMEOUT_MS);
+      timer.unref();
+    } catch (error) {
+      logWithTimestamp(`Failed to shut down query server at ${outputBase}: ${error}`, 'warn');
+      finish();
+    }
+  });
+}
@@ -11,19 +11,39 @@
  */
 
 import * as vscode from 'vscode';
-import * as path from 'path';
 import * as fs from 'fs';
 import { finishTest, publishOutput } from '../explorer/events';
-import { runBazelCommand } from '../infrastructure/process';
+import { clearFlakyResult, markFlakyResult } from '../explorer/tree/flakyState';
+import { QueuedCommandCancelledError, runBazelCommand } from '../infrastructure/process';
 import { logWithTimestamp, measure, formatError } from '../logging';
 import { ConfigurationService } from '../configuration';
 import { analyzeTestFailures } from './parseFailures';
-import { TestFramework, getTestFilterArgs, supportsTestFilter } from './testFilterStrategies';
+import { TestFramework, getCombinedTestFilterArgs, getTestFilterArgs, supportsTestFilter } from './testFilterStrategies';
 import { detectPrimaryFramework } from './frameworkDetection';
 import { parseUnifiedTestResult, UnifiedTestResult } from './testcase/testResultParser';
 import { stripAnsi } from './testcase/parseOutput';
 import { IndividualTestCase } from './types';
 import { getTestTargetById } from './queries';
+import {
+  BuildEventSummary,
+  buildEventFileFlag,
+  createBuildEventFilePath,
+  findBuildEventFileArg,
+  formatBepStatus,
+  getTestResultsForTarget,
+  readBuildEventFile,
+  removeBuildEventFile
+} from './bep';
+import { buildSingleShardFlags, getShardCount, isShardId, parseShardId } from './shards';
+import { buildShardTestLogPaths, buildTestLogsTargetDirectory, getBazelTestLogsDirectory } from './testlogs';
+import { formatTestAttempts, isFlakyPass, readTestAttempts, recordTestAttempts, TestAttempt } from './testAttempts';
+import { parseStructuredTestXml } from './testcase/parseXml';
+import { applyStackTrace } from './testcase/parseStackTrace';
+import { extractAssertionDiff } from './testcase/parseAssertionDiff';
+import { getPackagePath, stripBazelPathPrefix } from '../explorer/sourceUtils';
+import { clearBuildDiagnostics, parseCompilerOutput, reportBuildDiagnostics } from './buildDiagnostics';
+import { BazelExitCode, describeBazelExitCode, formatExitCodeMessage } from './exitCodes';
+import { buildTestEnvironmentFlags, getFlagMergeKey, resolveTestEnvironment } from './testEnvironment';
 
 // ───────────────────────────────────────────────────────────────
 // Bazel Test Configuration
@@ -38,6 +58,18 @@ const DEFAULT_BAZEL_TEST_FLAGS = [
   '--test_verbose_timeout_warnings'
 ] as const;
 
+/**
+ * Outcome of one `bazel test` invocation as seen by a single TestItem
+ */
+export interface BazelTestExecutionResult {
+  code: number;
+  stdout: string;
+  stderr: string;
+  filterSupported: boolean;
+  filterUsed: boolean;
+  buildEvents?: BuildEventSummary;
+}
+
 const EMPTY_UNIFIED_RESULT: UnifiedTestResult = {
   testCases: [],
   summary: { total: 0, passed: 0, failed: 0, ignored: 0 },
@@ -59,7 +91,7 @@ function mergeFlags(...arrays: string[][]): string[] {
 
   for (const arr of arrays) {
     for (const arg of arr) {
-      const key = arg.startsWith('--') ? arg.split('=')[0] : arg;
+      const key = getFlagMergeKey(arg);
       if (map.has(key)) {
         const idx = order.indexOf(key);
         if (idx !== -1) {order.splice(idx, 1);}
@@ -90,6 +122,12 @@ function mapTestTypeToFramework(testType: string): TestFramework {
   if (lowerType.includes('doctest')) {
     return 'doctest';
   }
+  if (lowerType.includes('catch2')) {
+    return 'catch2';
+  }
+  if (lowerType.includes('boost')) {
+    return 'boost';
+  }
   if (lowerType.includes('rust')) {
     return 'rust';
   }
@@ -140,9 +178,8 @@ export function computePerTargetFlags(targetId: string): string[] {
   
   // Shard count (if defined)
   if (metadata.shard_count && metadata.shard_count > 1) {
-    // Bazel uses the shard_count target attribute internally and exposes sharding via
-    // TEST_SHARD_INDEX/TEST_TOTAL_SHARDS, so no additional CLI flags are required here;
-    // we just log the configured shard_count for visibility.
+    // Bazel shards the target itself based on the shard_count attribute, so no
+    // additional CLI flags are required here; single shards are run via shard items.
     logWithTimestamp(`Target ${targetId} has shard_count=${metadata.shard_count}`);
   }
   
@@ -162,33 +199,15 @@ function parseSuiteResults(
   testItem: vscode.TestItem,
   run: vscode.TestRun,
   code: number,
-  stdout: string
+  stdout: string,
+  buildEvents?: BuildEventSummary
 ): void {
-  const resultLines = stdout.split(/\r?\n/).filter(line => line.match(/^\/\/.* (PASSED|FAILED|TIMEOUT|FLAKY)/));
+  const entries = Array.from(collectSummaryEntries(stdout, buildEvents).values());
 
   let passed = 0;
   let failed = 0;
 
-  const rows = resultLines.map(line => {
-    const parts = line.trim().split(/\s+/);
-
-    let target: string;
-    let status: TestStatus | string;
-    let isCached: string;
-    let testTime: string;
-
-    if (parts.length === 5) {
-      target = parts[0];
-      isCached = parts[1];
-      status = parts[2];
-      testTime = parts[4];
-    } else {
-      target = parts[0];
-      status = parts[1];
-      isCached = "";
-      testTime = parts[3];
-    }
-
+  const rows = entries.map(({ label, status, cached, duration }) => {
     const symbolMap: Record<TestStatus, string> = {
       PASSED: "✅ Passed",
       FAILED: "❌ Failed",
@@ -200,25 +219,166 @@ function parseSuiteResults(
     if (status === "PASSED") {passed++;}
     else if (status === "FAILED") {failed++;}
 
-    return `${target}  : ${symbol} (${isCached ? "cached, " : ""}${testTime})`;
+    return `${label}  : ${symbol} (${cached ? "cached, " : ""}${duration ?? ""})`;
   });
 
   const summaryHeader = `🧰 Test-Suite: ${testItem.id} : ${passed} Passed / ${failed} Failed`;
   const resultBlock = [summaryHeader, "────────────────────────────────────────────", ...rows].join("\n");
 
   const statusMessage = new vscode.TestMessage(`🧪 Suite Result:\n\n${resultBlock}`);
+  const exit = describeBazelExitCode(code);
   if (code === 0) {
     run.passed(testItem);
     try { finishTest(testItem.id, 'passed'); } catch {}
-  } else {
+  } else if (exit.hasTestResults) {
     run.failed(testItem, statusMessage);
     try { finishTest(testItem.id, 'failed', statusMessage.message); } catch {}
+  } else {
+    reportExitCodeState(run, testItem, exit, `${formatExitCodeMessage(exit)}\n\n${resultBlock}`);
   }
   const suiteOutput = resultBlock.replace(/\r?\n/g, '\r\n') + '\r\n';
   run.appendOutput(suiteOutput, undefined, testItem);
   try { publishOutput(testItem.id, suiteOutput); } catch {}
 }
 
+// ───────────────────────────────────────────────────────────────
+// Batch Results Parsing
+// ───────────────────────────────────────────────────────────────
+
+export interface TestSummaryEntry {
+  label: string;
+  status: string;
+  cached: boolean;
+  duration?: string;
+}
+
+const SUMMARY_LINE_PATTERN = /^((?:@[^\s/]*)?\/\/\S+)\s+(\(cached\)\s+)?(PASSED|FAILED TO BUILD|FAILED|TIMEOUT|FLAKY|NO STATUS|SKIPPED|INCOMPLETE)\b(?:.*?\bin\s+([\d.]+s))?/;
+const TEST_OUTPUT_HEADER_PATTERN = /^={5,}\s+Test output for (\S+?)(?:\s+\(.*\))?:\s*$/;
+const TEST_OUTPUT_FOOTER_PATTERN = /^={20,}\s*$/;
+// Lines Bazel itself prints; anything else continues the preceding message (e.g. compiler output)
+const BAZEL_MESSAGE_PATTERN = /^(?:(?:ERROR|WARNING|INFO|DEBUG|FAIL):|Target |Executed |Loading|Analyzing|\[[\d,]+ \/ [\d,]+\]|(?:@[^\s/]*)?\/\/\S+\s)/;
+
+/**
+ * Parses Bazel's per-target summary lines (e.g. `//pkg:t  (cached) PASSED in 0.3s`)
+ */
+export function parseTestSummary(output: string): Map<string, TestSummaryEntry> {
+  const entries = new Map<string, TestSummaryEntry>();
+  for (const rawLine of output.split(/\r?\n/)) {
+    const match = stripAnsi(rawLine).trim().match(SUMMARY_LINE_PATTERN);
+    if (!match) {
+      continue;
+    }
+    const [, label, cached, status, duration] = match;
+    entries.set(label, { label, status, cached: !!cached, duration });
+  }
+  return entries;
+}
+
+/**
+ * Splits `--test_output=all` output into per-target sections using Bazel's
+ * "Test output for //pkg:target:" banners. Lines outside a section are dropped.
+ */
+export function splitTestOutputByTarget(lines: string[]): Map<string, string[]> {
+  const sections = new Map<string, string[]>();
+  let current: string[] | undefined;
+
+  for (const line of lines) {
+    const header = line.match(TEST_OUTPUT_HEADER_PATTERN);
+    if (header) {
+      const label = header[1];
+      current = sections.get(label) ?? [];
+      sections.set(label, current);
+      continue;
+    }
+    if (current && TEST_OUTPUT_FOOTER_PATTERN.test(line)) {
+      current = undefined;
+      continue;
+    }
+    current?.push(line);
+  }
+
+  return sections;
+}
+
+/**
+ * Splits the stderr of a batched invocation by target. An `ERROR:` line starts a
+ * block, which also takes the compiler output that follows it up to the next
+ * Bazel message; a block naming a batch target (`from target //pkg:a_test`,
+ * `rule //pkg:a_test`) goes to that target only. Every other line, including
+ * errors of shared dependencies that cannot be attributed, goes to all targets.
+ */
+export function splitBuildOutputByTarget(lines: string[], labels: string[]): Map<string, string[]> {
+  const sections = new Map<string, string[]>(labels.map(label => [label, []]));
+  let owner: string | undefined;
+
+  for (const line of lines) {
+    if (BAZEL_MESSAGE_PATTERN.test(line)) {
+      owner = line.startsWith('ERROR:')
+        ? labels.find(label => new RegExp(`(?:from target|rule) ${escapeRegex(label)}(?![\\w/.+-])`).test(line))
+        : undefined;
+    }
+    if (owner) {
+      sections.get(owner)?.push(line);
+    } else {
+      sections.forEach(section => section.push(line));
+    }
+  }
+
+  return sections;
+}
+
+/**
+ * Returns per-target summary entries, preferring the Build Event Protocol over stdout scraping
+ */
+function collectSummaryEntries(output: string, buildEvents?: BuildEventSummary): Map<string, TestSummaryEntry> {
+  if (!buildEvents || buildEvents.testSummaries.size === 0) {
+    return parseTestSummary(output);
+  }
+
+  const entries = new Map<string, TestSummaryEntry>();
+  for (const [label, summary] of buildEvents.testSummaries) {
+    entries.set(label, {
+      label,
+      status: formatBepStatus(summary.overallStatus),
+      cached: summary.totalRunCount > 0 && summary.totalNumCached >= summary.totalRunCount,
+      duration: summary.durationMs !== undefined ? formatDuration(summary.durationMs) : undefined
+    });
+  }
+  // Targets that failed to build have no testSummary event
+  for (const [label, target] of buildEvents.targets) {
+    if (!target.success && !entries.has(label)) {
+      entries.set(label, { label, status: 'FAILED TO BUILD', cached: false });
+    }
+  }
+  return entries;
+}
+
+function formatDuration(durationMs: number): string {
+  return `${(durationMs / 1000).toFixed(1)}s`;
+}
+
+/**
+ * Derives the exit code a single-target invocation would have returned
+ * from the target's summary status within a batched run.
+ */
+function resolveTargetExitCode(status: string | undefined, batchCode: number): number {
+  switch (status) {
+    case 'PASSED':
+    case 'FLAKY':
+      // Bazel exits 0 for targets that passed on retry
+      return 0;
+    case 'FAILED':
+    case 'TIMEOUT':
+      return 3;
+    case undefined:
+      // No summary line for this target: fall back to the invocation's exit code
+      return batchCode;
+    default:
+      // FAILED TO BUILD, NO STATUS, ... are build or infrastructure errors
+      return batchCode === 0 || batchCode === 3 ? 1 : batchCode;
+  }
+}
+
 // ───────────────────────────────────────────────────────────────
 // Public API
 // ───────────────────────────────────────────────────────────────
@@ -254,6 +414,38 @@ function processSuccessfulTest(
   try { finishTest(testItem.id, 'passed'); } catch {}
 }
 
+/**
+ * Processes a target that passed only after retries: every attempt goes to the
+ * output and the item gets the FLAKY marker next to its passed state.
+ */
+function processFlakyTest(
+  run: vscode.TestRun,
+  testItem: vscode.TestItem,
+  targetLabel: string,
+  attempts: TestAttempt[],
+  appendDetailedOutput: boolean
+): void {
+  const failedAttempts = attempts.filter(a => a.status !== 'PASSED').length;
+  const passedAttempt = attempts.find(a => a.status === 'PASSED')?.attempt ?? attempts.length;
+  const detail = `passed on attempt ${passedAttempt} of ${attempts.length}`;
+
+  if (appendDetailedOutput) {
+    run.appendOutput(DETAILED_OUTPUT_SEPARATOR, undefined, testItem);
+    const outputBlock = [
+      `⚠️ Flaky: ${testItem.id} ${detail} (${failedAttempts} failed)`,
+      '━━━━━━━━━━━━━━━━━━━━━━━━━━━━',
+      ...formatTestAttempts(targetLabel, attempts)
+    ].join("\n");
+    const out = outputBlock.replace(/\r?\n/g, '\r\n') + '\r\n';
+    run.appendOutput(out, undefined, testItem);
+    try { publishOutput(testItem.id, out); } catch {}
+  }
+
+  run.passed(testItem);
+  markFlakyResult(testItem, detail);
+  try { finishTest(testItem.id, 'flaky', `Passed after ${failedAttempts} failed attempt(s)`); } catch {}
+}
+
 /**
  * Processes failure of an individual test case (when running a specific test case from children)
  */
@@ -270,11 +462,12 @@ function processIndividualTestCaseFailure(
   if (testCase.errorMessage) {
     segments.push(testCase.errorMessage);
   }
-  const message = new vscode.TestMessage(segments.join('\n\n'));
+  const message = createTestCaseMessage(segments.join('\n\n'), testCase);
   const location = resolveLocationFromTestCase(testCase, workspacePath);
   if (location) {
     message.location = location;
   }
+  applyTestCaseStackTrace(message, testCase, workspacePath);
   
   run.failed(testItem, message);
   
@@ -296,61 +489,129 @@ function processIndividualTestCaseFailure(
 }
 
 /**
- * Processes failed or flaky test execution (exit codes 3, 4, other)
+ * Reports a build failure: compiler messages go to the Problems view and the
+ * item is marked errored, since no test ran
  */
-function processFailedTest(
+async function processBuildFailure(
   run: vscode.TestRun,
   testItem: vscode.TestItem,
-  code: number,
+  targetLabel: string,
+  exit: BazelExitCode,
   bazelLog: string[],
-  testLog: string[],
   workspacePath: string,
-  unifiedResult: UnifiedTestResult,
-  scopedCases: IndividualTestCase[],
+  buildEvents: BuildEventSummary | undefined,
   appendDetailedOutput: boolean
-): void {
-  if (code === 4) {
-    // Bazel Test Encyclopedia: exit code 4 indicates tests passed only after retries (flaky)
-    const cleaned = bazelLog.filter(line => line.trim() !== "").join("\n");
-    const cleaned_with_Header = getStatusHeader(code, testItem.id) + cleaned;
-    vscode.window.showWarningMessage(`⚠️ Flaky tests detected; run marked unsuccessful: ${testItem.id}`);
-    run.failed(
-      testItem,
-      new vscode.TestMessage(
-        `⚠️ Flaky tests: passed after retries. Treating as failure (Code ${code}).\n\n${cleaned_with_Header}`
-      )
-    );
-    try { finishTest(testItem.id, 'failed', cleaned_with_Header); } catch {}
-  } else if (code === 3) {
-    handleTestResult(
-      run,
-      testItem,
-      code,
-      bazelLog,
-      testLog,
-      workspacePath,
-      unifiedResult,
-      scopedCases,
-      appendDetailedOutput
-    );
-  } else {
-    const cleaned = bazelLog.filter(line => line.trim() !== "").join("\n");
-    const cleaned_with_Header = getStatusHeader(code, testItem.id) + cleaned;
-    run.failed(testItem, new vscode.TestMessage(`🧨 Errors during tests (Code ${code}):\n\n${cleaned_with_Header}`));
-    try { finishTest(testItem.id, 'failed', cleaned_with_Header); } catch {}
-    if (appendDetailedOutput) {
-      run.appendOutput(DETAILED_OUTPUT_SEPARATOR, undefined, testItem);
-      const outputBlock = [
-        getStatusHeader(code, testItem.id),
-        '----- BEGIN OUTPUT -----',
-        ...bazelLog,
-        '------ END OUTPUT ------'
-      ].join("\n");
-      const out = outputBlock.replace(/\r?\n/g, '\r\n') + '\r\n';
-      run.appendOutput(out, undefined, testItem);
-      try { publishOutput(testItem.id, out); } catch {}
+): Promise<void> {
+  const actionStderr = await readFailedActionStderr(targetLabel, buildEvents);
+  const published = reportBuildDiagnostics(targetLabel, parseCompilerOutput([...actionStderr, ...bazelLog]), workspacePath);
+  const errors = published.filter(entry => entry.diagnostic.severity === vscode.DiagnosticSeverity.Error);
+
+  const cleaned = bazelLog.filter(line => line.trim() !== "").join("\n");
+  const cleaned_with_Header = getStatusHeader(exit.code, testItem.id) + cleaned;
+  const summary = published.length > 0
+    ? `${errors.length} compiler error(s), ${published.length - errors.length} warning(s) in the Problems view`
+    : 'no compiler messages found';
+  const message = new vscode.TestMessage(
+    `${exit.icon} ${exit.title} (Code ${exit.code}): ${summary}\n💡 ${exit.action}\n\n${cleaned_with_Header}`
+  );
+  const first = errors[0] ?? published[0];
+  if (first) {
+    message.location = new vscode.Location(vscode.Uri.file(first.path), first.diagnostic.range);
+  }
+  run.errored(testItem, message);
+  try { finishTest(testItem.id, 'failed', cleaned_with_Header); } catch {}
+
+  if (appendDetailedOutput) {
+    run.appendOutput(DETAILED_OUTPUT_SEPARATOR, undefined, testItem);
+    const outputBlock = [
+      getStatusHeader(exit.code, testItem.id),
+      '----- BEGIN OUTPUT -----',
+      ...actionStderr,
+      ...bazelLog,
+      '------ END OUTPUT ------'
+    ].join("\n");
+    const out = outputBlock.replace(/\r?\n/g, '\r\n') + '\r\n';
+    run.appendOutput(out, undefined, testItem);
+    try { publishOutput(testItem.id, out); } catch {}
+  }
+}
+
+/**
+ * Reads the stderr files BEP reports for failed actions of the target
+ */
+async function readFailedActionStderr(targetLabel: string, buildEvents?: BuildEventSummary): Promise<string[]> {
+  const paths = (buildEvents?.failures ?? [])
+    .filter(failure => failure.stderrPath && (!failure.label || failure.label === targetLabel))
+    .map(failure => failure.stderrPath as string);
+  const lines: string[] = [];
+  for (const stderrPath of Array.from(new Set(paths))) {
+    try {
+      lines.push(...stripAnsi(await fs.promises.readFile(stderrPath, 'utf8')).split(/\r?\n/));
+    } catch (error) {
+      logWithTimestamp(`Could not read action stderr ${stderrPath}: ${formatError(error)}`, 'warn');
     }
   }
+  return lines;
+}
+
+/**
+ * Processes an invocation that ended without test results (exit codes other than
+ * 0 and 3): the item gets the state, message and suggested action of the exit code
+ */
+function processExitCodeWithoutResults(
+  run: vscode.TestRun,
+  testItem: vscode.TestItem,
+  exit: BazelExitCode,
+  bazelLog: string[],
+  appendDetailedOutput: boolean
+): void {
+  const cleaned = bazelLog.filter(line => line.trim() !== "").join("\n");
+  const cleaned_with_Header = getStatusHeader(exit.code, testItem.id) + cleaned;
+  const messageText = `${formatExitCodeMessage(exit)}\n\n${cleaned_with_Header}`;
+  reportExitCodeState(run, testItem, exit, messageText);
+
+  if (appendDetailedOutput) {
+    run.appendOutput(DETAILED_OUTPUT_SEPARATOR, undefined, testItem);
+    const outputBlock = [
+      getStatusHeader(exit.code, testItem.id),
+      formatExitCodeMessage(exit),
+      '----- BEGIN OUTPUT -----',
+      ...bazelLog,
+      '------ END OUTPUT ------'
+    ].join("\n");
+    const out = outputBlock.replace(/\r?\n/g, '\r\n') + '\r\n';
+    run.appendOutput(out, undefined, testItem);
+    try { publishOutput(testItem.id, out); } catch {}
+  }
+}
+
+/**
+ * Sets the test state the exit code maps to
+ */
+function reportExitCodeState(
+  run: vscode.TestRun,
+  testItem: vscode.TestItem,
+  exit: BazelExitCode,
+  messageText: string
+): void {
+  switch (exit.testState) {
+    case 'passed':
+      run.passed(testItem);
+      try { finishTest(testItem.id, 'passed'); } catch {}
+      break;
+    case 'skipped':
+      run.skipped(testItem);
+      try { finishTest(testItem.id, 'skipped', messageText); } catch {}
+      break;
+    case 'failed':
+      run.failed(testItem, new vscode.TestMessage(messageText));
+      try { finishTest(testItem.id, 'failed', messageText); } catch {}
+      break;
+    case 'errored':
+      run.errored(testItem, new vscode.TestMessage(messageText));
+      try { finishTest(testItem.id, 'failed', messageText); } catch {}
+      break;
+  }
 }
 
 // ───────────────────────────────────────────────────────────────
@@ -366,179 +627,579 @@ export const executeBazelTest = async (
 ) => {
   try {
     const streamLiveOutput = true;
-    const appendDetailedOutput = true;
-
-    const typeMatch = testItem.label.match(/\[(.*?)\]/);
-    const testType = typeMatch?.[1] ?? "";
-    const isSuite = testType === "test_suite";
-    const isIndividualTestCase = testItem.id.includes('::');
 
-    const { code, stdout, stderr, filterSupported, filterUsed } = await measure(`Execute test: ${testItem.id}`, () =>
+    const result = await measure(`Execute test: ${testItem.id}`, () =>
       initiateBazelTest(testItem.id, workspacePath, run, testItem, config, cancellationToken, streamLiveOutput)
     );
 
-    if (isSuite) {
-      parseSuiteResults(testItem, run, code, stdout);
-      return;
+    await reportBazelTestResult(testItem, workspacePath, run, config, result);
+  } catch (error) {
+    reportExecutionError(testItem, run, error, cancellationToken);
+  }
+};
+
+/**
+ * Runs several test targets in a single `bazel test` invocation and reports
+ * the result of every target on its own TestItem. Targets are grouped by their
+ * per-target flags (exclusive/external/flaky) so tag semantics are preserved;
+ * each group becomes one Bazel invocation.
+ */
+export const executeBazelTestBatch = async (
+  testItems: vscode.TestItem[],
+  workspacePath: string,
+  run: vscode.TestRun,
+  config: ConfigurationService,
+  cancellationToken?: vscode.CancellationToken
+): Promise<void> => {
+  for (const group of groupByPerTargetFlags(testItems, config)) {
+    if (cancellationToken?.isCancellationRequested) {
+      group.items.forEach(item => reportExecutionError(item, run, undefined, cancellationToken));
+      continue;
     }
 
-    const shouldParseStructured = code === 0 || code === 3 || code === 4;
-    const baseTargetId = isIndividualTestCase ? testItem.id.split('::')[0] : testItem.id;
-    const unifiedResult = shouldParseStructured
-      ? await parseUnifiedTestResult({
-          targetLabel: baseTargetId,
-          workspacePath,
-          bazelPath: config.bazelPath,
+    const labels = group.items.map(item => item.id);
+    const eventFile = prepareBuildEventFile(config);
+    // A target that fails to build must not keep its siblings from running
+    const keepGoing = setsKeepGoing(config.testArgs) ? [] : ['--keep_going'];
+    try {
+      const args = buildBazelTestArgs(labels, config, [...group.flags, ...keepGoing, ...eventFile.flags]);
+      const appendLiveOutput = (line: string): void => {
+        run.appendOutput(stripAnsi(line).replace(/\r?\n/g, '\r\n') + '\r\n');
+      };
+
+      const { code, stdout, stderr } = await measure(`Execute batch of ${labels.length} test target(s)`, () =>
+        runBazelCommand(args, workspacePath, appendLiveOutput, appendLiveOutput, config.bazelPath, undefined, cancellationToken, {
+          onQueued: appendLiveOutput
         })
-      : null;
-
-    const { input: testLog } = parseBazelOutput(stdout);
-    const { input: bazelLog } = parseBazelOutput(stderr);
-    const relevantCases = unifiedResult ? filterTestCasesForItem(testItem, unifiedResult.testCases) : [];
-    const baseDisplayLog = filterLogLinesForItem(testItem, relevantCases.length > 0 ? relevantCases : undefined, testLog);
-
-    const noFilterNote = isIndividualTestCase && !filterSupported
-      ? '⚠️ Framework does not support test_filter; entire target was executed. Output may include other tests.'
-      : undefined;
-    // For unsupported filter on individual case, show full test log to avoid hiding relevant lines
-    const caseDisplayLog = isIndividualTestCase && !filterSupported ? testLog : baseDisplayLog;
-    const logWithNote = noFilterNote ? [noFilterNote, ...caseDisplayLog] : caseDisplayLog;
-
-    // For individual test cases, determine status from parsed result, not exit code
-    // because Bazel returns code 3 if ANY test in the target fails, not just this specific case
-    if (isIndividualTestCase) {
-      if (!unifiedResult || relevantCases.length === 0) {
-        const warningText = noFilterNote
-          ? `${noFilterNote}\nNo structured test results found for this test case.`
-          : 'No structured test results found for this test case.';
-        const warningMsg = new vscode.TestMessage(warningText);
-        if (code === 0) {
-          run.passed(testItem);
-          try { finishTest(testItem.id, 'passed'); } catch {}
-        } else {
-          run.failed(testItem, warningMsg);
-          try { finishTest(testItem.id, 'failed', warningText); } catch {}
-        }
-        if (appendDetailedOutput && logWithNote.length > 0) {
-          run.appendOutput(DETAILED_OUTPUT_SEPARATOR, undefined, testItem);
-          const outputBlock = [
-            getStatusHeader(code, testItem.id),
-            '----- BEGIN OUTPUT -----',
-            ...logWithNote,
-            '------ END OUTPUT ------'
-          ].join("\n");
-          const out = outputBlock.replace(/\r?\n/g, '\r\n') + '\r\n';
-          run.appendOutput(out, undefined, testItem);
-          try { publishOutput(testItem.id, out); } catch {}
+      );
+
+      const buildEvents = await readBuildEventFile(eventFile.path);
+      const combinedOutput = `${stdout}\n${stderr}`;
+      const summary = collectSummaryEntries(combinedOutput, buildEvents);
+      const outputs = splitTestOutputByTarget(parseBazelOutput(combinedOutput).input);
+      const errorOutputs = splitBuildOutputByTarget(parseBazelOutput(stderr).input, labels);
+
+      for (const item of group.items) {
+        const entry = summary.get(item.id);
+        const targetCode = resolveTargetExitCode(entry?.status, code);
+        const targetStdout = (outputs.get(item.id) ?? []).join('\n');
+        try {
+          await reportBazelTestResult(item, workspacePath, run, config, {
+            code: targetCode,
+            stdout: targetStdout,
+            stderr: (errorOutputs.get(item.id) ?? []).join('\n'),
+            filterSupported: false,
+            filterUsed: false,
+            buildEvents
+          });
+        } catch (error) {
+          reportExecutionError(item, run, error, cancellationToken);
         }
-        return;
       }
+    } catch (error) {
+      group.items.forEach(item => reportExecutionError(item, run, error, cancellationToken));
+    } finally {
+      await releaseBuildEventFile(eventFile);
+    }
+  }
+};
 
-      if (relevantCases.length > 1) {
-        logWithTimestamp(`Multiple parsed cases matched ${testItem.id}; using first match.`, 'warn');
-      }
+/**
+ * Runs several `::` test cases of the same target in one Bazel invocation.
+ * The cases are combined into a single filter where the framework allows it,
+ * otherwise the whole target runs; each case is reported from the shared result.
+ */
+export const executeBazelTestCases = async (
+  caseItems: vscode.TestItem[],
+  workspacePath: string,
+  run: vscode.TestRun,
+  config: ConfigurationService,
+  cancellationToken?: vscode.CancellationToken
+): Promise<void> => {
+  if (caseItems.length === 0) {
+    return;
+  }
+  const targetLabel = caseItems[0].id.split('::')[0];
+  const testType = caseItems[0].label.match(/\[(.*?)\]/)?.[1] ?? getTestTargetById(targetLabel)?.type ?? '';
+  const testNames = caseItems.map(item => item.id.split('::').slice(1).join('::'));
 
-      const testCase = relevantCases[0];
-      const testPassed = testCase.status === 'PASS';
-      
-      if (testPassed) {
-        processSuccessfulTest(run, testItem, 0, logWithNote, appendDetailedOutput);
-      } else {
-        // Test case failed - use parsed result to report the failure
-        processIndividualTestCaseFailure(run, testItem, testCase, logWithNote, workspacePath, appendDetailedOutput);
-      }
-    } else if (code === 0) {
-      processSuccessfulTest(run, testItem, code, baseDisplayLog, appendDetailedOutput);
-    } else {
-      const scopedDisplayLog = relevantCases.length > 0
-        ? filterLogLinesForItem(testItem, relevantCases, testLog)
-        : baseDisplayLog;
-      processFailedTest(
-        run,
-        testItem,
-        code,
-        bazelLog,
-        scopedDisplayLog,
-        workspacePath,
-        unifiedResult ?? EMPTY_UNIFIED_RESULT,
-        relevantCases,
-        appendDetailedOutput
-      );
+  try {
+    const framework = resolveTestFramework(targetLabel, testType);
+    const filterArgs = getCombinedTestFilterArgs(testNames, framework);
+    logWithTimestamp(
+      `Running ${caseItems.length} test case(s) of ${targetLabel} in one invocation` +
+      (filterArgs ? ` with filter: ${filterArgs.join(' ')}` : ' (no combined filter, running entire target)')
+    );
+
+    const result = await measure(`Execute test cases: ${targetLabel}`, () =>
+      invokeBazelTest(targetLabel, filterArgs ?? [], workspacePath, run, caseItems[0], config, cancellationToken, true)
+    );
+    for (const item of caseItems) {
+      await reportBazelTestResult(item, workspacePath, run, config, {
+        ...result,
+        filterSupported: filterArgs !== undefined,
+        filterUsed: filterArgs !== undefined
+      });
     }
   } catch (error) {
-    // Distinguish cancellation from real errors
-    if (cancellationToken?.isCancellationRequested) {
-      run.skipped(testItem);
-      try { finishTest(testItem.id, 'skipped'); } catch {}
-      logWithTimestamp(`Test cancelled: ${testItem.id}`, 'info');
-    } else {
-      const message = formatError(error);
-      logWithTimestamp(`Error executing test ${testItem.id}: ${message}`, "error");
-      run.failed(testItem, new vscode.TestMessage(message));
-      try { finishTest(testItem.id, 'failed', message); } catch {}
-    }
+    caseItems.forEach(item => reportExecutionError(item, run, error, cancellationToken));
   }
 };
 
-export const initiateBazelTest = async (
-  testId: string,
-  cwd: string,
-  run: vscode.TestRun,
+/**
+ * Reports a finished Bazel invocation on the given TestItem
+ */
+async function reportBazelTestResult(
   testItem: vscode.TestItem,
+  workspacePath: string,
+  run: vscode.TestRun,
   config: ConfigurationService,
-  cancellationToken?: vscode.CancellationToken,
-  streamLiveOutput: boolean = false
-): Promise<{ code: number; stdout: string; stderr: string; filterSupported: boolean; filterUsed: boolean }> => {
-  let effectiveTestId = testId;
-  let filterArgs: string[] = [];
-  let filterSupported = false;
-  let filterUsed = false;
+  result: BazelTestExecutionResult
+): Promise<void> {
+  const appendDetailedOutput = true;
+  const { stdout, stderr, filterSupported, buildEvents } = result;
+
+  const typeMatch = testItem.label.match(/\[(.*?)\]/);
+  const testType = typeMatch?.[1] ?? "";
+  const isSuite = testType === "test_suite";
+  const isIndividualTestCase = testItem.id.includes('::');
+
+  if (isSuite) {
+    parseSuiteResults(testItem, run, result.code, stdout, buildEvents);
+    return;
+  }
 
-  // Check if this is an individual test case (contains ::)
-  if (testId.includes('::')) {
-    const parts = testId.split('::');
-    effectiveTestId = parts[0]; // The actual Bazel target
-    const testName = parts.slice(1).join('::'); // The test case name
-    
-    // Try to apply test filter based on test type if supported
-    const typeMatch = testItem.label.match(/\[(.*?)\]/);
-    const testType = typeMatch?.[1] ?? "";
-    
-    // Use test filter strategies for individual test case execution
-    // Prefer metadata-based detection (uses dependencies/type) when available
-    const targetMeta = getTestTargetById(effectiveTestId);
-    const detected = detectPrimaryFramework(targetMeta);
-    let framework: TestFramework;
-    if (detected) {
-      switch (detected) {
-        case 'gtest': framework = 'gtest'; break;
-        case 'pytest': framework = 'pytest'; break;
-        case 'criterion': framework = 'criterion'; break;
-        case 'doctest': framework = 'doctest'; break;
-        case 'unity': framework = 'unity'; break;
-        case 'rust': framework = 'rust'; break;
-        case 'go': framework = 'go'; break;
-        case 'junit': framework = 'java'; break;
-        default: framework = mapTestTypeToFramework(testType);
-      }
+  const shard = parseShardId(testItem.id);
+  const baseTargetId = shard?.targetId ?? (isIndividualTestCase ? testItem.id.split('::')[0] : testItem.id);
+  const bepSummary = buildEvents?.testSummaries.get(baseTargetId);
+  const bepTarget = buildEvents?.targets.get(baseTargetId);
+  const code = bepSummary
+    ? resolveTargetExitCode(formatBepStatus(bepSummary.overallStatus), result.code)
+    : bepTarget && !bepTarget.success
+      ? resolveTargetExitCode('FAILED TO BUILD', result.code)
+      : result.code;
+  if (buildEvents) {
+    appendBuildEventDetails(run, testItem, baseTargetId, buildEvents);
+  }
+
+  // Only exit codes 0 and 3 leave test results; every other code decides the state itself
+  const exit = describeBazelExitCode(code);
+  if (!exit.hasTestResults) {
+    const { input: stderrLog } = parseBazelOutput(stderr);
+    const bazelLog = [...collectBuildFailureLines(baseTargetId, buildEvents), ...stderrLog];
+    if (code === 1) {
+      await processBuildFailure(run, testItem, baseTargetId, exit, bazelLog, workspacePath, buildEvents, appendDetailedOutput);
     } else {
-      framework = mapTestTypeToFramework(testType);
+      processExitCodeWithoutResults(run, testItem, exit, bazelLog, appendDetailedOutput);
     }
-    filterSupported = supportsTestFilter(framework);
+    return;
+  }
+  clearBuildDiagnostics(baseTargetId);
+
+  const shardCount = resolveShardCount(testItem, baseTargetId);
+  clearFlakyResult(testItem);
+  const attempts = !isIndividualTestCase && shardCount === 0 && (code === 0 || code === 3)
+    ? await collectTestAttempts(baseTargetId, code === 0, stdout, workspacePath, config, buildEvents)
+    : [];
+  if (!isIndividualTestCase) {
+    recordTestAttempts(baseTargetId, attempts);
+  }
+
+  let unifiedResult: UnifiedTestResult | null = await parseUnifiedTestResult({
+    targetLabel: baseTargetId,
+    workspacePath,
+    bazelPath: config.bazelPath,
+  });
+  // Sharded runs write one test.xml per shard instead of a target-level file
+  if (unifiedResult && unifiedResult.source === 'none' && !shard && shardCount > 0) {
+    unifiedResult = await readShardedTestResult(baseTargetId, shardCount, workspacePath, config) ?? unifiedResult;
+  }
+
+  const { input: testLog } = parseBazelOutput(stdout);
+  const { input: stderrLog } = parseBazelOutput(stderr);
+  const bazelLog = [...collectBuildFailureLines(baseTargetId, buildEvents), ...stderrLog];
+  const relevantCases = unifiedResult ? filterTestCasesForItem(testItem, unifiedResult.testCases) : [];
+  const baseDisplayLog = filterLogLinesForItem(testItem, relevantCases.length > 0 ? relevantCases : undefined, testLog);
+
+  const noFilterNote = isIndividualTestCase && !filterSupported
+    ? '⚠️ Framework does not support test_filter; entire target was executed. Output may include other tests.'
+    : undefined;
+  // For unsupported filter on individual case, show full test log to avoid hiding relevant lines
+  const caseDisplayLog = isIndividualTestCase && !filterSupported ? testLog : baseDisplayLog;
+  const logWithNote = noFilterNote ? [noFilterNote, ...caseDisplayLog] : caseDisplayLog;
+
+  // For individual test cases, determine status from parsed result, not exit code
+  // because Bazel returns code 3 if ANY test in the target fails, not just this specific case
+  if (isIndividualTestCase) {
+    if (!unifiedResult || relevantCases.length === 0) {
+      const warningText = noFilterNote
+        ? `${noFilterNote}\nNo structured test results found for this test case.`
+        : 'No structured test results found for this test case.';
+      const warningMsg = new vscode.TestMessage(warningText);
+      if (code === 0) {
+        run.passed(testItem);
+        try { finishTest(testItem.id, 'passed'); } catch {}
+      } else {
+        run.failed(testItem, warningMsg);
+        try { finishTest(testItem.id, 'failed', warningText); } catch {}
+      }
+      if (appendDetailedOutput && logWithNote.length > 0) {
+        run.appendOutput(DETAILED_OUTPUT_SEPARATOR, undefined, testItem);
+        const outputBlock = [
+          getStatusHeader(code, testItem.id),
+          '----- BEGIN OUTPUT -----',
+          ...logWithNote,
+          '------ END OUTPUT ------'
+        ].join("\n");
+        const out = outputBlock.replace(/\r?\n/g, '\r\n') + '\r\n';
+        run.appendOutput(out, undefined, testItem);
+        try { publishOutput(testItem.id, out); } catch {}
+      }
+      return;
+    }
+
+    if (relevantCases.length > 1) {
+      logWithTimestamp(`Multiple parsed cases matched ${testItem.id}; using first match.`, 'warn');
+    }
+
+    const testCase = relevantCases[0];
+    const testPassed = testCase.status === 'PASS';
     
-    if (filterSupported) {
-      filterArgs = getTestFilterArgs(testName, framework);
-      filterUsed = filterArgs.length > 0;
-      logWithTimestamp(`Running individual test case: ${effectiveTestId}::${testName} [${testType}] with filter: ${filterArgs.join(' ')}`);
+    if (testPassed) {
+      processSuccessfulTest(run, testItem, 0, logWithNote, appendDetailedOutput);
     } else {
-      logWithTimestamp(`Running individual test case: ${effectiveTestId}::${testName} [${testType}] - no filter support, running entire target`);
+      // Test case failed - use parsed result to report the failure
+      processIndividualTestCaseFailure(run, testItem, testCase, logWithNote, workspacePath, appendDetailedOutput);
+    }
+  } else if (code === 0 && isFlakyPass(attempts)) {
+    processFlakyTest(run, testItem, baseTargetId, attempts, appendDetailedOutput);
+  } else if (code === 0) {
+    processSuccessfulTest(run, testItem, code, baseDisplayLog, appendDetailedOutput);
+  } else {
+    if (attempts.length > 0) {
+      appendAttemptOutput(run, testItem, baseTargetId, attempts);
     }
+    const scopedDisplayLog = relevantCases.length > 0
+      ? filterLogLinesForItem(testItem, relevantCases, testLog)
+      : baseDisplayLog;
+    handleTestResult(
+      run,
+      testItem,
+      code,
+      bazelLog,
+      scopedDisplayLog,
+      workspacePath,
+      unifiedResult ?? EMPTY_UNIFIED_RESULT,
+      relevantCases,
+      appendDetailedOutput
+    );
   }
 
-  if (/^\/\/[^:]*$/.test(effectiveTestId)) {
-    effectiveTestId = `${effectiveTestId}/...`;
+  if (!shard && shardCount > 0) {
+    await reportShardResults(testItem, run, workspacePath, config, buildEvents);
+  }
+}
+
+/**
+ * Shard count from the target metadata, falling back to the shard children in the tree
+ */
+function resolveShardCount(testItem: vscode.TestItem, targetId: string): number {
+  const fromMetadata = getShardCount(getTestTargetById(targetId));
+  if (fromMetadata > 0) {
+    return fromMetadata;
+  }
+  let fromChildren = 0;
+  testItem.children.forEach(child => {
+    fromChildren = Math.max(fromChildren, parseShardId(child.id)?.total ?? 0);
+  });
+  return fromChildren > 1 ? fromChildren : 0;
+}
+
+/**
+ * Reads and merges the per-shard test.xml files of a sharded target
+ */
+async function readShardedTestResult(
+  targetLabel: string,
+  shardCount: number,
+  workspacePath: string,
+  config: ConfigurationService
+): Promise<UnifiedTestResult | undefined> {
+  const logsDir = await getBazelTestLogsDirectory(workspacePath, config.bazelPath);
+  if (!logsDir) {
+    return undefined;
+  }
+
+  const testCases: IndividualTestCase[] = [];
+  for (let index = 1; index <= shardCount; index++) {
+    const parsed = await readShardOutputs(targetLabel, logsDir, index, shardCount);
+    testCases.push(...(parsed.result?.testCases ?? []));
+  }
+  if (testCases.length === 0) {
+    return undefined;
+  }
+
+  return {
+    testCases,
+    summary: {
+      total: testCases.length,
+      passed: testCases.filter(tc => tc.status === 'PASS').length,
+      failed: testCases.filter(tc => tc.status === 'FAIL' || tc.status === 'TIMEOUT').length,
+      ignored: testCases.filter(tc => tc.status === 'SKIP').length
+    },
+    source: 'xml'
+  };
+}
+
+async function readShardOutputs(
+  targetLabel: string,
+  logsDir: string,
+  index: number,
+  total: number
+): Promise<{ result?: ReturnType<typeof parseStructuredTestXml>; log?: string[] }> {
+  const paths = buildShardTestLogPaths(targetLabel, logsDir, index, total);
+  const readOptional = async (filePath: string): Promise<string | undefined> => {
+    try {
+      return await fs.promises.readFile(filePath, 'utf8');
+    } catch {
+      return undefined;
+    }
+  };
+
+  const [xml, log] = await Promise.all([readOptional(paths.xml), readOptional(paths.log)]);
+  return {
+    result: xml && xml.trim() ? parseStructuredTestXml(xml, targetLabel) : undefined,
+    log: log !== undefined ? parseBazelOutput(log).input : undefined
+  };
+}
+
+/**
+ * Reports every shard child of a sharded target from its `shard_N_of_M` outputs,
+ * so a failure shows up on the shard where it happened.
+ */
+async function reportShardResults(
+  testItem: vscode.TestItem,
+  run: vscode.TestRun,
+  workspacePath: string,
+  config: ConfigurationService,
+  buildEvents?: BuildEventSummary
+): Promise<void> {
+  const shardItems: vscode.TestItem[] = [];
+  testItem.children.forEach(child => {
+    if (isShardId(child.id)) {
+      shardItems.push(child);
+    }
+  });
+  if (shardItems.length === 0) {
+    return;
+  }
+
+  const logsDir = await getBazelTestLogsDirectory(workspacePath, config.bazelPath);
+  if (!logsDir) {
+    return;
+  }
+
+  for (const shardItem of shardItems) {
+    const shard = parseShardId(shardItem.id)!;
+    const { result, log } = await readShardOutputs(shard.targetId, logsDir, shard.index, shard.total);
+    const attempts = buildEvents
+      ? getTestResultsForTarget(buildEvents, shard.targetId).filter(attempt => attempt.shard === shard.index)
+      : [];
+    const failedCases = (result?.testCases ?? []).filter(tc => tc.status === 'FAIL' || tc.status === 'TIMEOUT');
+    const bepStatus = attempts.length > 0 ? attempts[attempts.length - 1].status : undefined;
+    if (!bepStatus && !result && !log) {
+      continue;
+    }
+    const passed = bepStatus ? bepStatus === 'PASSED' || bepStatus === 'FLAKY' : failedCases.length === 0;
+
+    if (log && log.length > 0) {
+      const out = [`🧩 Shard ${shard.index}/${shard.total}: ${shard.targetId}`, ...log].join('\r\n') + '\r\n';
+      run.appendOutput(out, undefined, shardItem);
+      try { publishOutput(shardItem.id, out); } catch {}
+    }
+
+    if (passed) {
+      run.passed(shardItem);
+      try { finishTest(shardItem.id, 'passed'); } catch {}
+      continue;
+    }
+
+    let messages = buildMessagesFromTestCases(failedCases, workspacePath);
+    if (messages.length === 0 && log) {
+      messages = analyzeTestFailures(log, workspacePath, shardItem);
+    }
+    if (messages.length === 0) {
+      messages = [new vscode.TestMessage(`Shard ${shard.index}/${shard.total} ${bepStatus ? formatBepStatus(bepStatus).toLowerCase() : 'failed'}`)];
+    }
+    run.failed(shardItem, messages);
+    try { finishTest(shardItem.id, 'failed', messages.map(m => m.message.toString()).join('\n\n')); } catch {}
+  }
+}
+
+/**
+ * Reports an execution error, distinguishing cancellation from real errors
+ */
+function reportExecutionError(
+  testItem: vscode.TestItem,
+  run: vscode.TestRun,
+  error: unknown,
+  cancellationToken?: vscode.CancellationToken
+): void {
+  if (cancellationToken?.isCancellationRequested || error instanceof QueuedCommandCancelledError) {
+    run.skipped(testItem);
+    try { finishTest(testItem.id, 'skipped'); } catch {}
+    logWithTimestamp(`Test cancelled: ${testItem.id}`, 'info');
+  } else {
+    const message = formatError(error);
+    logWithTimestamp(`Error executing test ${testItem.id}: ${message}`, "error");
+    run.failed(testItem, new vscode.TestMessage(message));
+    try { finishTest(testItem.id, 'failed', message); } catch {}
+  }
+}
+
+/**
+ * Reads the retry attempts of a target when the run may have retried it
+ * (flaky attribute, --flaky_test_attempts, or Bazel reporting FLAKY / several attempts)
+ */
+async function collectTestAttempts(
+  targetLabel: string,
+  finalPassed: boolean,
+  stdout: string,
+  workspacePath: string,
+  config: ConfigurationService,
+  buildEvents?: BuildEventSummary
+): Promise<TestAttempt[]> {
+  const bepAttempts = buildEvents ? getTestResultsForTarget(buildEvents, targetLabel) : [];
+  const summaryStatus = collectSummaryEntries(stdout, buildEvents).get(targetLabel)?.status;
+  const mayHaveRetried = summaryStatus === 'FLAKY'
+    || bepAttempts.some(attempt => attempt.attempt > 1)
+    || getTestTargetById(targetLabel)?.flaky === true
+    || (config.testArgs ?? []).some(arg => arg.startsWith('--flaky_test_attempts'));
+  if (!mayHaveRetried) {
+    return [];
+  }
+
+  const logsDir = await getBazelTestLogsDirectory(workspacePath, config.bazelPath);
+  if (!logsDir) {
+    return [];
+  }
+  return readTestAttempts(targetLabel, buildTestLogsTargetDirectory(targetLabel, logsDir), finalPassed, bepAttempts);
+}
+
+function appendAttemptOutput(
+  run: vscode.TestRun,
+  testItem: vscode.TestItem,
+  targetLabel: string,
+  attempts: TestAttempt[]
+): void {
+  const out = formatTestAttempts(targetLabel, attempts).join('\r\n') + '\r\n';
+  run.appendOutput(out, undefined, testItem);
+  try { publishOutput(testItem.id, out); } catch {}
+}
+
+/**
+ * Writes the Bazel-reported result details (cache, attempts, shards, duration, logs) to the run output
+ */
+function appendBuildEventDetails(
+  run: vscode.TestRun,
+  testItem: vscode.TestItem,
+  targetLabel: string,
+  buildEvents: BuildEventSummary
+): void {
+  const attempts = getTestResultsForTarget(buildEvents, targetLabel);
+  if (attempts.length === 0) {
+    return;
+  }
+
+  const summary = buildEvents.testSummaries.get(targetLabel);
+  const shardCount = summary?.shardCount ?? 1;
+  const lines = [`🧾 Bazel result: ${targetLabel}${summary ? ` — ${formatBepStatus(summary.overallStatus)}` : ''}`];
+  for (const attempt of attempts) {
+    const details = [
+      attempt.cachedRemotely ? 'remote cache' : attempt.cachedLocally ? 'cached' : attempt.strategy,
+      shardCount > 1 ? `shard ${attempt.shard}/${shardCount}` : undefined,
+      `attempt ${attempt.attempt}`,
+      attempt.durationMs !== undefined ? formatDuration(attempt.durationMs) : undefined
+    ].filter(Boolean).join(', ');
+    lines.push(`  ${formatBepStatus(attempt.status)} (${details})`);
+    if (attempt.outputs['test.log']) {
+      lines.push(`    log: ${attempt.outputs['test.log']}`);
+    }
+  }
+
+  const out = lines.join('\r\n') + '\r\n';
+  run.appendOutput(out, undefined, testItem);
+  try { publishOutput(testItem.id, out); } catch {}
+}
+
+/**
+ * Collects build failure messages reported via BEP for the target (and unattributed failures)
+ */
+function collectBuildFailureLines(targetLabel: string, buildEvents?: BuildEventSummary): string[] {
+  if (!buildEvents) {
+    return [];
+  }
+  const relevant = buildEvents.failures.filter(failure => !failure.label || failure.label === targetLabel);
+  const unique = Array.from(new Set(relevant.map(failure => failure.message.trim()).filter(Boolean)));
+  return unique.length > 0 ? ['Build failures reported by Bazel:', ...unique.map(m => `  ${m}`), ''] : [];
+}
+
+/**
+ * Prepares the `--build_event_json_file` flag for one invocation. An explicit path from
+ * the user's testArgs is respected and left in place after the run.
+ */
+function prepareBuildEventFile(config: ConfigurationService): { path: string; owned: boolean; flags: string[] } {
+  const userPath = findBuildEventFileArg(config.testArgs ?? []);
+  if (userPath) {
+    return { path: userPath, owned: false, flags: [] };
+  }
+  const filePath = createBuildEventFilePath();
+  return { path: filePath, owned: true, flags: [buildEventFileFlag(filePath)] };
+}
+
+async function releaseBuildEventFile(eventFile: { path: string; owned: boolean }): Promise<void> {
+  if (eventFile.owned) {
+    await removeBuildEventFile(eventFile.path);
+  }
+}
+
+/**
+ * `--test_env` / `--test_arg` flags from the global, package and target scopes of the settings
+ */
+function computeTestEnvironmentFlags(targetLabel: string, config: ConfigurationService): string[] {
+  const resolved = resolveTestEnvironment(targetLabel, config.testEnvByScope ?? {}, config.testArgByScope ?? {});
+  return buildTestEnvironmentFlags(resolved);
+}
+
+/**
+ * Groups test items by their per-target flags so that every group can share one invocation
+ */
+function groupByPerTargetFlags(
+  testItems: vscode.TestItem[],
+  config: ConfigurationService
+): { flags: string[]; items: vscode.TestItem[] }[] {
+  const groups = new Map<string, { flags: string[]; items: vscode.TestItem[] }>();
+  for (const item of testItems) {
+    const flags = [...computePerTargetFlags(item.id), ...computeTestEnvironmentFlags(item.id, config)];
+    const key = flags.join(' ');
+    const group = groups.get(key) ?? { flags, items: [] };
+    group.items.push(item);
+    groups.set(key, group);
   }
+  return Array.from(groups.values());
+}
 
+/**
+ * Whether the user's args already decide `--keep_going` (`-k`, `--nokeep_going`, `--keep_going=false`)
+ */
+function setsKeepGoing(args: string[]): boolean {
+  return args.some(arg => arg === '-k' || /^--(?:no)?keep_going(?:=|$)/.test(arg));
+}
+
+/**
+ * Builds the full argument list for `bazel test` including user, run-specific and
+ * target-specific flags and the optional startup options for ignoring .bazelrc files.
+ */
+function buildBazelTestArgs(targets: string[], config: ConfigurationService, targetFlags: string[]): string[] {
   const userArgs: string[] = [...config.testArgs];
   if (config.buildTestsOnly) {
     userArgs.push('--build_tests_only');
@@ -551,29 +1212,32 @@ export const initiateBazelTest = async (
   if (config.runsPerTestDetectsFlakes) {runSpecificFlags.push('--runs_per_test_detects_flakes');}
   if (config.nocacheTestResults) {runSpecificFlags.push('--nocache_test_results');}
   if (config.testStrategyExclusive) {runSpecificFlags.push('--test_strategy=exclusive');}
+  // Wrapped runs (valgrind, rr, perf, ...) must execute even when a cached result exists
+  const runUnder = config.runProfile?.runUnder;
+  if (runUnder) {
+    runSpecificFlags.push(`--run_under=${runUnder}`, '--nocache_test_results');
+  }
 
-  // Per-target flags (from tags/metadata)
-  const perTargetFlags = computePerTargetFlags(effectiveTestId);
-
-  // Merge flags so that later entries (user / runSpecific) override defaults when appropriate
+  // Merge flags so that later entries (user / runSpecific / per-target) override defaults when appropriate
   const mergedFlags = mergeFlags(
     Array.from(DEFAULT_BAZEL_TEST_FLAGS),
     userArgs,
     runSpecificFlags,
-    perTargetFlags,
-    filterArgs
+    targetFlags
   );
 
   // Respect ignoreRcFiles setting: when enabled, instruct Bazel to ignore
   // system/user/workspace .bazelrc files and only apply explicit ones.
+  // bazelrc files of a run profile are loaded in both cases.
+  const profileBazelrc = (config.runProfile?.bazelrcFiles ?? []).map(p => `--bazelrc=${p}`);
   let args: string[];
   if (config.ignoreRcFiles) {
     const filteredFlags = mergedFlags.filter(a => !a.startsWith('--bazelrc') && !a.startsWith('--ignore_all_rc_files'));
     const explicitBazelrc = config.bazelrcFiles.map(p => `--bazelrc=${p}`);
     // Startup options must precede the command (test)
-    args = ['--ignore_all_rc_files', ...explicitBazelrc, 'test', effectiveTestId, ...filteredFlags];
+    args = ['--ignore_all_rc_files', ...explicitBazelrc, ...profileBazelrc, 'test', ...targets, ...filteredFlags];
   } else {
-    args = ['test', effectiveTestId, ...mergedFlags];
+    args = [...profileBazelrc, 'test', ...targets, ...mergedFlags];
   }
 
   // Log whether .bazelrc files are being ignored for this invocation
@@ -587,22 +1251,81 @@ export const initiateBazelTest = async (
     // best-effort logging
   }
 
-  // Configure shard-related environment variables to avoid framework warnings
-  // If the target defines sharding via `shard_count` we reflect that total, but
-  // we run a single shard (index 0) by default when invoked from the extension.
-  // This prevents frameworks from emitting warnings when they expect
-  // TEST_SHARD_INDEX/TEST_TOTAL_SHARDS/TEST_SHARD_STATUS_FILE to exist.
-  const targetMeta = getTestTargetById(effectiveTestId);
-  const env: NodeJS.ProcessEnv = { ...process.env };
-  const totalShards = targetMeta && targetMeta.shard_count && targetMeta.shard_count > 0
-    ? String(targetMeta.shard_count)
-    : '1';
+  return args;
+}
+
+export const initiateBazelTest = async (
+  testId: string,
+  cwd: string,
+  run: vscode.TestRun,
+  testItem: vscode.TestItem,
+  config: ConfigurationService,
+  cancellationToken?: vscode.CancellationToken,
+  streamLiveOutput: boolean = false
+): Promise<BazelTestExecutionResult> => {
+  let effectiveTestId = testId;
+  let filterArgs: string[] = [];
+  let filterSupported = false;
+  let filterUsed = false;
+  const shard = parseShardId(testId);
+
+  if (shard) {
+    effectiveTestId = shard.targetId;
+    logWithTimestamp(`Running shard ${shard.index} of ${shard.total}: ${shard.targetId}`);
+  } else if (testId.includes('::')) {
+    // Individual test case (contains ::)
+    const parts = testId.split('::');
+    effectiveTestId = parts[0]; // The actual Bazel target
+    const testName = parts.slice(1).join('::'); // The test case name
+    
+    // Try to apply test filter based on test type if supported
+    const typeMatch = testItem.label.match(/\[(.*?)\]/);
+    const testType = typeMatch?.[1] ?? "";
+    
+    // Use test filter strategies for individual test case execution
+    const framework = resolveTestFramework(effectiveTestId, testType);
+    filterSupported = supportsTestFilter(framework);
+    
+    if (filterSupported) {
+      filterArgs = getTestFilterArgs(testName, framework);
+      filterUsed = filterArgs.length > 0;
+      logWithTimestamp(`Running individual test case: ${effectiveTestId}::${testName} [${testType}] with filter: ${filterArgs.join(' ')}`);
+    } else {
+      logWithTimestamp(`Running individual test case: ${effectiveTestId}::${testName} [${testType}] - no filter support, running entire target`);
+    }
+  }
+
+  if (/^\/\/[^:]*$/.test(effectiveTestId)) {
+    effectiveTestId = `${effectiveTestId}/...`;
+  }
 
-  // Only set vars if they are not already provided in the environment
-  if (!env.TEST_TOTAL_SHARDS) {env.TEST_TOTAL_SHARDS = totalShards;}
-  if (!env.TEST_SHARD_INDEX) {env.TEST_SHARD_INDEX = '0';}
-  if (!env.TEST_SHARD_STATUS_FILE) {env.TEST_SHARD_STATUS_FILE = path.join(cwd, '.vscode_bazel_shard_status');}
-  logWithTimestamp(`Shard env: TEST_SHARD_INDEX=${env.TEST_SHARD_INDEX}, TEST_TOTAL_SHARDS=${env.TEST_TOTAL_SHARDS}`);
+  const result = await invokeBazelTest(effectiveTestId, filterArgs, cwd, run, testItem, config, cancellationToken, streamLiveOutput);
+  return { ...result, filterSupported, filterUsed };
+};
+
+/**
+ * Runs `bazel test` for one label with per-target, filter and event-file flags
+ * and returns the raw result plus the parsed build events
+ */
+async function invokeBazelTest(
+  targetLabel: string,
+  filterArgs: string[],
+  cwd: string,
+  run: vscode.TestRun,
+  testItem: vscode.TestItem,
+  config: ConfigurationService,
+  cancellationToken?: vscode.CancellationToken,
+  streamLiveOutput: boolean = false
+): Promise<Omit<BazelTestExecutionResult, 'filterSupported' | 'filterUsed'>> {
+  // Per-target flags (from tags/metadata and the scoped test environment)
+  const perTargetFlags = [...computePerTargetFlags(targetLabel), ...computeTestEnvironmentFlags(targetLabel, config)];
+  const eventFile = prepareBuildEventFile(config);
+  // A single shard needs both shard variables, so its flags are not merged with the others
+  const shard = parseShardId(testItem.id);
+  const args = [
+    ...buildBazelTestArgs([targetLabel], config, [...perTargetFlags, ...filterArgs, ...eventFile.flags]),
+    ...(shard ? buildSingleShardFlags(shard) : [])
+  ];
 
   const appendLiveOutput = (line: string, source: 'stdout' | 'stderr'): void => {
     if (!streamLiveOutput) {
@@ -613,18 +1336,45 @@ export const initiateBazelTest = async (
     run.appendOutput(out, undefined, testItem);
   };
 
-  const result = await runBazelCommand(
-    args,
-    cwd,
-    (line) => appendLiveOutput(line, 'stdout'),
-    (line) => appendLiveOutput(line, 'stderr'),
-    config.bazelPath,
-    env,
-    cancellationToken
-  );
+  try {
+    const result = await runBazelCommand(
+      args,
+      cwd,
+      (line) => appendLiveOutput(line, 'stdout'),
+      (line) => appendLiveOutput(line, 'stderr'),
+      config.bazelPath,
+      undefined,
+      cancellationToken,
+      { onQueued: notice => run.appendOutput(`${notice}\r\n`, undefined, testItem) }
+    );
+    const buildEvents = await readBuildEventFile(eventFile.path);
 
-  return { ...result, filterSupported, filterUsed };
-};
+    return { ...result, buildEvents };
+  } finally {
+    await releaseBuildEventFile(eventFile);
+  }
+}
+
+/**
+ * Picks the filter strategy for a target, preferring metadata-based detection
+ * (dependencies/type) over the rule type from the label
+ */
+function resolveTestFramework(targetLabel: string, testType: string): TestFramework {
+  const detected = detectPrimaryFramework(getTestTargetById(targetLabel));
+  switch (detected) {
+    case 'gtest': return 'gtest';
+    case 'pytest': return 'pytest';
+    case 'criterion': return 'criterion';
+    case 'doctest': return 'doctest';
+    case 'unity': return 'unity';
+    case 'rust': return 'rust';
+    case 'go': return 'go';
+    case 'junit': return 'java';
+    case 'catch2': return 'catch2';
+    case 'boost': return 'boost';
+    default: return mapTestTypeToFramework(testType);
+  }
+}
 
 export const parseBazelOutput = (stdout: string): { input: string[] } => {
   const input: string[] = [];
@@ -672,13 +1422,19 @@ function handleTestResult(
   scopedCases: IndividualTestCase[],
   appendDetailedOutput: boolean
 ) {
-  // Check if this testItem has children (individual test cases)
-  const hasChildren = testItem.children.size > 0;
+  // Check if this testItem has children (individual test cases); shards are reported separately
+  const caseChildren: vscode.TestItem[] = [];
+  testItem.children.forEach(child => {
+    if (!isShardId(child.id)) {
+      caseChildren.push(child);
+    }
+  });
+  const hasChildren = caseChildren.length > 0;
 
   if (code === 0) {
     if (hasChildren) {
       // Mark all children as passed
-      testItem.children.forEach(child => {
+      caseChildren.forEach(child => {
         run.passed(child);
         try { finishTest(child.id, 'passed'); } catch {}
       });
@@ -693,7 +1449,7 @@ function handleTestResult(
       let failedCount = 0;
 
       // Process each child test case
-      testItem.children.forEach(child => {
+      caseChildren.forEach(child => {
         const testCaseName = extractTestCaseName(child.id).toLowerCase();
         const matchingCase = casesForMessages.find(tc => matchTestCaseName(tc, testCaseName));
 
@@ -708,11 +1464,12 @@ function handleTestResult(
             if (matchingCase.errorMessage) {
               segments.push(matchingCase.errorMessage);
             }
-            const message = new vscode.TestMessage(segments.join('\n\n'));
+            const message = createTestCaseMessage(segments.join('\n\n'), matchingCase);
             const location = resolveLocationFromTestCase(matchingCase, workspacePath);
             if (location) {
               message.location = location;
             }
+            applyTestCaseStackTrace(message, matchingCase, workspacePath);
             run.failed(child, message);
             try { finishTest(child.id, 'failed', segments.join('\n\n')); } catch {}
             failedCount++;
@@ -803,15 +1560,39 @@ function buildMessagesFromTestCases(testCases: IndividualTestCase[], workspacePa
     if (testCase.errorMessage) {
       segments.push(testCase.errorMessage);
     }
-    const message = new vscode.TestMessage(segments.join('\n\n'));
+    const message = createTestCaseMessage(segments.join('\n\n'), testCase);
     const location = resolveLocationFromTestCase(testCase, workspacePath);
     if (location) {
       message.location = location;
     }
+    applyTestCaseStackTrace(message, testCase, workspacePath);
     return message;
   });
 }
 
+/**
+ * Creates the failure message of a test case; equality assertions open the diff editor
+ */
+function createTestCaseMessage(text: string, testCase: IndividualTestCase): vscode.TestMessage {
+  const diff = testCase.expectedOutput !== undefined && testCase.actualOutput !== undefined
+    ? { expected: testCase.expectedOutput, actual: testCase.actualOutput }
+    : extractAssertionDiff(testCase.errorMessage ?? '');
+  return diff ? vscode.TestMessage.diff(text, diff.expected, diff.actual) : new vscode.TestMessage(text);
+}
+
+/**
+ * Sets the stack trace of a test case failure; XML results carry parsed frames,
+ * console output still has the raw trace in the error message
+ */
+function applyTestCaseStackTrace(message: vscode.TestMessage, testCase: IndividualTestCase, workspacePath: string): void {
+  applyStackTrace(
+    message,
+    testCase.stackFrames ?? testCase.errorMessage ?? '',
+    workspacePath,
+    getPackagePath(testCase.parentTarget)
+  );
+}
+
 function filterTestCasesForItem(testItem: vscode.TestItem, cases: IndividualTestCase[]): IndividualTestCase[] {
   if (!testItem.id.includes('::')) {
     return cases;
@@ -873,19 +1654,7 @@ function resolveLocationFromTestCase(
     return undefined;
   }
 
-  const normalizedPath = path.normalize(testCase.file);
-
-  // Make extraction after the `_main` separator robust by working with path segments
-  const pathSegments = normalizedPath.split(path.sep).filter(segment => segment.length > 0);
-  const mainIndex = pathSegments.lastIndexOf('_main');
-
-  const trimmedPath =
-    mainIndex !== -1 && mainIndex < pathSegments.length - 1
-      ? path.join(...pathSegments.slice(mainIndex + 1))
-      : normalizedPath;
-  const absolutePath = path.isAbsolute(trimmedPath)
-    ? trimmedPath
-    : path.join(workspacePath, trimmedPath);
+  const absolutePath = stripBazelPathPrefix(testCase.file, workspacePath);
 
   if (!fs.existsSync(absolutePath)) {
     return undefined;
@@ -906,11 +1675,8 @@ function resolveLocationFromTestCase(
 // ───────────────────────────────────────────────────────────────
 
 const getStatusHeader = (code: number, testId: string): string => {
-  const status = ({
-    0: "✅ **Test Passed (Code 0)**",
-    3: "❌ **Some Tests Failed (Code 3)**",
-    4: "⚠️ **Flaky Test Passed (Code 4)**",
-  })[code] ?? `🧨 **Build or Config Error (code ${code})**`;
+  const exit = describeBazelExitCode(code);
+  const status = `${exit.icon} **${exit.title} (Code ${code})**`;
 
   return `${status}: ${testId}\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━\n`;
 };
@@ -0,0 +1,68 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Test sharding - identifiers and flags for running and reporting individual shards
+ */
+
+import { BazelTestTarget } from './types';
+
+/**
+ * Shard ids are `<target>#shard_<N>_of_<M>`; N is 1-based like Bazel's testlogs directories
+ */
+const SHARD_ID_PATTERN = /^(.+)#shard_(\d+)_of_(\d+)$/;
+
+export interface ShardRef {
+  targetId: string;
+  /** 1-based shard number */
+  index: number;
+  total: number;
+}
+
+export function buildShardId(targetId: string, index: number, total: number): string {
+  return `${targetId}#${getShardDirectoryName(index, total)}`;
+}
+
+export function parseShardId(id: string): ShardRef | undefined {
+  const match = id.match(SHARD_ID_PATTERN);
+  if (!match) {
+    return undefined;
+  }
+  return { targetId: match[1], index: Number(match[2]), total: Number(match[3]) };
+}
+
+export function isShardId(id: string): boolean {
+  return SHARD_ID_PATTERN.test(id);
+}
+
+/**
+ * Returns the configured shard count, or 0 when the target is not sharded
+ */
+export function getShardCount(metadata?: BazelTestTarget): number {
+  const count = metadata?.shard_count ?? 0;
+  return count > 1 ? count : 0;
+}
+
+/**
+ * Bazel's testlogs subdirectory for a shard, e.g. `shard_2_of_4`
+ */
+export function getShardDirectoryName(index: number, total: number): string {
+  return `shard_${index}_of_${total}`;
+}
+
+/**
+ * Runs exactly one shard: Bazel's own sharding is disabled and the shard
+ * environment is handed to the test so the framework selects its slice.
+ */
+export function buildSingleShardFlags(shard: ShardRef): string[] {
+  return [
+    '--test_sharding_strategy=disabled',
+    `--test_env=TEST_TOTAL_SHARDS=${shard.total}`,
+    `--test_env=TEST_SHARD_INDEX=${shard.index - 1}`
+  ];
+}
@@ -0,0 +1,182 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Flaky test attempts - reads Bazel's `test_attempts/attempt_N.{log,xml}` outputs
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+import { BepTestResult } from './bep';
+import { IndividualTestCase } from './types';
+import { parseStructuredTestXml } from './testcase/parseXml';
+import { stripAnsi } from './testcase/parseOutput';
+
+const ATTEMPT_FILE_PATTERN = /^attempt_(\d+)\.(log|xml)$/;
+
+/**
+ * One execution of a test target. Earlier attempts live in `test_attempts/`,
+ * the final attempt is the target's regular test.log/test.xml.
+ */
+export interface TestAttempt {
+  /** 1-based attempt number */
+  attempt: number;
+  status: 'PASSED' | 'FAILED' | 'TIMEOUT';
+  durationMs?: number;
+  logPath?: string;
+  log: string[];
+  failedCases: IndividualTestCase[];
+}
+
+const attemptsByTarget = new Map<string, TestAttempt[]>();
+
+/**
+ * Reads all attempts of a target from its testlogs directory.
+ * Returns an empty list when the target ran only once.
+ */
+export async function readTestAttempts(
+  targetLabel: string,
+  targetDirectory: string,
+  finalPassed: boolean,
+  bepAttempts: BepTestResult[] = []
+): Promise<TestAttempt[]> {
+  const attemptsDir = path.join(targetDirectory, 'test_attempts');
+  let entries: string[];
+  try {
+    entries = await fs.promises.readdir(attemptsDir);
+  } catch {
+    return [];
+  }
+
+  const files = new Map<number, { log?: string; xml?: string }>();
+  for (const entry of entries) {
+    const match = entry.match(ATTEMPT_FILE_PATTERN);
+    if (!match) {
+      continue;
+    }
+    const attempt = Number(match[1]);
+    const current = files.get(attempt) ?? {};
+    current[match[2] as 'log' | 'xml'] = path.join(attemptsDir, entry);
+    files.set(attempt, current);
+  }
+  if (files.size === 0) {
+    return [];
+  }
+
+  const attempts: TestAttempt[] = [];
+  for (const number of Array.from(files.keys()).sort((a, b) => a - b)) {
+    const { log, xml } = files.get(number)!;
+    // Bazel only retries failed attempts, so anything kept in test_attempts/ failed
+    attempts.push(await readAttempt(targetLabel, number, log, xml, 'FAILED', bepAttempts));
+  }
+
+  const finalNumber = attempts[attempts.length - 1].attempt + 1;
+  attempts.push(await readAttempt(
+    targetLabel,
+    finalNumber,
+    path.join(targetDirectory, 'test.log'),
+    path.join(targetDirectory, 'test.xml'),
+    finalPassed ? 'PASSED' : 'FAILED',
+    bepAttempts
+  ));
+  return attempts;
+}
+
+/**
+ * True when the target failed at least once before its final attempt passed
+ */
+export function isFlakyPass(attempts: TestAttempt[]): boolean {
+  if (attempts.length < 2) {
+    return false;
+  }
+  return attempts[attempts.length - 1].status === 'PASSED' && attempts.some(a => a.status !== 'PASSED');
+}
+
+/**
+ * Output block listing every attempt with its status and log
+ */
+export function formatTestAttempts(targetLabel: string, attempts: TestAttempt[]): string[] {
+  const lines = [`🔁 ${targetLabel}: ${attempts.length} attempts`];
+  for (const attempt of attempts) {
+    const duration = attempt.durationMs !== undefined ? ` in ${(attempt.durationMs / 1000).toFixed(1)}s` : '';
+    lines.push(`----- Attempt ${attempt.attempt}/${attempts.length}: ${attempt.status}${duration} -----`);
+    for (const testCase of attempt.failedCases) {
+      lines.push(`  ✗ ${testCase.name}${testCase.errorMessage ? `: ${testCase.errorMessage.split('\n')[0]}` : ''}`);
+    }
+    lines.push(...attempt.log);
+  }
+  lines.push('------ END ATTEMPTS ------');
+  return lines;
+}
+
+export function recordTestAttempts(targetId: string, attempts: TestAttempt[]): void {
+  if (attempts.length > 0) {
+    attemptsByTarget.set(targetId, attempts);
+  } else {
+    attemptsByTarget.delete(targetId);
+  }
+}
+
+export function getRecordedTestAttempts(targetId: string): TestAttempt[] | undefined {
+  return attemptsByTarget.get(targetId);
+}
+
+export function clearRecordedTestAttempts(): void {
+  attemptsByTarget.clear();
+}
+
+// ───────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────
+
+async function readAttempt(
+  targetLabel: string,
+  attempt: number,
+  logPath: string | undefined,
+  xmlPath: string | undefined,
+  fallbackStatus: TestAttempt['status'],
+  bepAttempts: BepTestResult[]
+): Promise<TestAttempt> {
+  const [log, xml] = await Promise.all([readOptional(logPath), readOptional(xmlPath)]);
+  const parsed = xml && xml.trim() ? parseStructuredTestXml(xml, targetLabel) : undefined;
+  const failedCases = (parsed?.testCases ?? []).filter(tc => tc.status === 'FAIL' || tc.status === 'TIMEOUT');
+  const bep = bepAttempts.find(result => result.attempt === attempt);
+
+  return {
+    attempt,
+    status: toAttemptStatus(bep?.status) ?? fallbackStatus,
+    durationMs: bep?.durationMs,
+    logPath: log !== undefined ? logPath : undefined,
+    log: log !== undefined ? log.split(/\r?\n/).map(line => stripAnsi(line)) : [],
+    failedCases
+  };
+}
+
+function toAttemptStatus(status: string | undefined): TestAttempt['status'] | undefined {
+  switch (status) {
+    case 'PASSED':
+      return 'PASSED';
+    case 'TIMEOUT':
+      return 'TIMEOUT';
+    case undefined:
+      return undefined;
+    default:
+      return 'FAILED';
+  }
+}
+
+async function readOptional(filePath: string | undefined): Promise<string | undefined> {
+  if (!filePath) {
+    return undefined;
+  }
+  try {
+    return await fs.promises.readFile(filePath, 'utf8');
+  } catch {
+    return undefined;
+  }
+}
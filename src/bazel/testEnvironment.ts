@@ -0,0 +1,130 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Test environment - resolves `--test_env` / `--test_arg` maps configured globally,
+ * per package pattern or per target label
+ */
+
+/**
+ * Scopes are `*` (all targets), `//pkg/...` (package and subpackages),
+ * `//pkg:*` or `//pkg:all` (one package) and `//pkg:target` (one target)
+ */
+export type TestEnvironmentScope = string;
+
+/**
+ * Flags that may be given multiple times. `NAME=VALUE` flags are keyed by NAME,
+ * the others are additive (every distinct value is kept).
+ */
+const KEYED_REPEATABLE_FLAGS = new Set(['--test_env', '--action_env', '--define']);
+const ADDITIVE_REPEATABLE_FLAGS = new Set(['--test_arg', '--copt', '--cxxopt', '--linkopt', '--config']);
+
+export interface ScopedValue {
+  value: string;
+  scope: TestEnvironmentScope;
+}
+
+export interface ResolvedTestEnvironment {
+  /** Variable name → value; a more specific scope overrides a general one */
+  env: Map<string, ScopedValue>;
+  /** Arguments of all matching scopes, general scopes first */
+  args: ScopedValue[];
+}
+
+/**
+ * Returns how specific a scope is for the target, or undefined if it does not apply.
+ * Deeper recursive patterns are more specific than shallower ones.
+ */
+export function getScopeSpecificity(scope: TestEnvironmentScope, targetLabel: string): number | undefined {
+  const trimmed = scope.trim();
+  if (trimmed === '*' || trimmed === '//...') {
+    return 0;
+  }
+  const [targetPackage] = splitLabel(targetLabel);
+
+  if (trimmed.endsWith('/...')) {
+    const pkg = trimmed.slice(0, -'/...'.length);
+    const matches = targetPackage === pkg || targetPackage.startsWith(`${pkg}/`);
+    return matches ? 1 + pkg.split('/').length / 1000 : undefined;
+  }
+
+  const [scopePackage, scopeName] = splitLabel(trimmed);
+  if (scopeName === '*' || scopeName === 'all') {
+    return scopePackage === targetPackage ? 2 : undefined;
+  }
+  return trimmed === targetLabel ? 3 : undefined;
+}
+
+/**
+ * Merges the environment and argument maps of all scopes matching the target,
+ * from the most general to the most specific scope
+ */
+export function resolveTestEnvironment(
+  targetLabel: string,
+  envByScope: Record<TestEnvironmentScope, Record<string, string>>,
+  argsByScope: Record<TestEnvironmentScope, string[]>
+): ResolvedTestEnvironment {
+  const resolved: ResolvedTestEnvironment = { env: new Map(), args: [] };
+
+  for (const scope of matchingScopes(Object.keys(envByScope), targetLabel)) {
+    for (const [name, value] of Object.entries(envByScope[scope])) {
+      resolved.env.set(name, { value, scope });
+    }
+  }
+  for (const scope of matchingScopes(Object.keys(argsByScope), targetLabel)) {
+    resolved.args.push(...argsByScope[scope].map(value => ({ value, scope })));
+  }
+  return resolved;
+}
+
+/**
+ * Bazel flags for a resolved environment: `--test_env=NAME=value` and `--test_arg=value`
+ */
+export function buildTestEnvironmentFlags(resolved: ResolvedTestEnvironment): string[] {
+  return [
+    ...Array.from(resolved.env.entries()).map(([name, { value }]) => `--test_env=${name}=${value}`),
+    ...resolved.args.map(({ value }) => `--test_arg=${value}`)
+  ];
+}
+
+/**
+ * Key under which merged flag lists deduplicate a flag, so a scoped `--test_env`
+ * overrides the global value of the same variable without dropping the others
+ */
+export function getFlagMergeKey(arg: string): string {
+  if (!arg.startsWith('--')) {
+    return arg;
+  }
+  const [name, ...rest] = arg.split('=');
+  if (KEYED_REPEATABLE_FLAGS.has(name) && rest.length > 0) {
+    return `${name}=${rest[0]}`;
+  }
+  if (ADDITIVE_REPEATABLE_FLAGS.has(name)) {
+    return arg;
+  }
+  return name;
+}
+
+function matchingScopes(scopes: TestEnvironmentScope[], targetLabel: string): TestEnvironmentScope[] {
+  return scopes
+    .map(scope => ({ scope, specificity: getScopeSpecificity(scope, targetLabel) }))
+    .filter((entry): entry is { scope: string; specificity: number } => entry.specificity !== undefined)
+    .sort((a, b) => a.specificity - b.specificity)
+    .map(entry => entry.scope);
+}
+
+/**
+ * Splits `//pkg:name` into package and name; `//pkg` is short for `//pkg:pkg`
+ */
+function splitLabel(label: string): [string, string] {
+  const separator = label.lastIndexOf(':');
+  if (separator === -1) {
+    return [label, label.split('/').pop() ?? ''];
+  }
+  return [label.slice(0, separator), label.slice(separator + 1)];
+}
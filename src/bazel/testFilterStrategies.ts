@@ -12,13 +12,15 @@
 
 export type TestFramework = 
   | 'gtest' | 'pytest' | 'criterion' | 'doctest' | 'unity'
-  | 'rust' | 'go' | 'java' | 'other';
+  | 'rust' | 'go' | 'java' | 'catch2' | 'boost' | 'other';
 
 interface FilterStrategy {
   /** Whether this framework supports filter parameters */
   supportsFilter: boolean;
   /** Parameters to run a specific test */
   getFilterArgs: (testName: string) => string[];
+  /** Parameters to run several tests of one target in a single invocation, undefined if they cannot be combined */
+  getCombinedFilterArgs?: (testNames: string[]) => string[] | undefined;
   /** Description for logging */
   description: string;
 }
@@ -27,16 +29,19 @@ const strategies: Record<TestFramework, FilterStrategy> = {
   gtest: {
     supportsFilter: true,
     getFilterArgs: (testName: string) => [`--test_filter=${testName}*`],
+    getCombinedFilterArgs: (testNames: string[]) => [`--test_filter=${testNames.map(name => `${name}*`).join(':')}`],
     description: 'Google Test (C++) - unterstützt --test_filter'
   },
   pytest: {
     supportsFilter: true,
     getFilterArgs: (testName: string) => [`--test_filter=${testName}`],
+    getCombinedFilterArgs: (testNames: string[]) => [`--test_filter=${testNames.join(' or ')}`],
     description: 'pytest (Python) - unterstützt --test_filter'
   },
   criterion: {
     supportsFilter: true,
     getFilterArgs: (testName: string) => [`--test_filter=^${testName}$`],
+    getCombinedFilterArgs: (testNames: string[]) => [`--test_filter=^(${testNames.join('|')})$`],
     description: 'Criterion (Rust) - unterstützt --test_filter mit Regex'
   },
   doctest: {
@@ -50,22 +55,40 @@ const strategies: Record<TestFramework, FilterStrategy> = {
     description: 'Unity (C) - experimental filter via --test_filter'
   },
   
-  // Frameworks without native filter - fallback to whole target
   rust: {
-    supportsFilter: false,
-    getFilterArgs: () => [],
-    description: 'Rust (native) - no filter, runs whole target'
+    supportsFilter: true,
+    getFilterArgs: (testName: string) => [`--test_arg=${testName}`, '--test_arg=--exact'],
+    getCombinedFilterArgs: (testNames: string[]) => [...testNames.map(name => `--test_arg=${name}`), '--test_arg=--exact'],
+    description: 'Rust (libtest) - exact name filter via --test_arg'
   },
   go: {
-    supportsFilter: false,
-    getFilterArgs: () => [],
-    description: 'Go - no filter, runs whole target'
+    supportsFilter: true,
+    getFilterArgs: (testName: string) => [`--test_filter=${buildGoRunPattern(testName)}`],
+    // Alternation only works on one level; subtests of different parents cannot be combined
+    getCombinedFilterArgs: (testNames: string[]) => testNames.some(name => name.includes('/'))
+      ? undefined
+      : [`--test_filter=^(${testNames.map(escapeRegex).join('|')})$`],
+    description: 'Go - anchored --test_filter, mapped to -test.run by rules_go'
   },
   java: {
-    supportsFilter: false,
-    getFilterArgs: () => [],
-    description: 'Java/JUnit - no filter, runs whole target'
+    supportsFilter: true,
+    getFilterArgs: (testName: string) => [`--test_filter=${buildJUnitFilter(testName)}`],
+    description: 'Java/JUnit - --test_filter on Class#method'
+  },
+  catch2: {
+    supportsFilter: true,
+    getFilterArgs: (testName: string) => [`--test_arg=${escapeCatch2TestSpec(testName)}`],
+    getCombinedFilterArgs: (testNames: string[]) => [`--test_arg=${testNames.map(escapeCatch2TestSpec).join(',')}`],
+    description: 'Catch2 (C++) - test spec via --test_arg'
   },
+  boost: {
+    supportsFilter: true,
+    getFilterArgs: (testName: string) => [`--test_arg=--run_test=${buildBoostRunTestPath(testName)}`],
+    getCombinedFilterArgs: (testNames: string[]) => testNames.map(name => `--test_arg=--run_test=${buildBoostRunTestPath(name)}`),
+    description: 'Boost.Test (C++) - --run_test via --test_arg'
+  },
+
+  // Frameworks without native filter - fallback to whole target
   other: {
     supportsFilter: false,
     getFilterArgs: () => [],
@@ -73,6 +96,62 @@ const strategies: Record<TestFramework, FilterStrategy> = {
   }
 };
 
+// ───────────────────────────────────────────────────────────────
+// Name escaping
+// ───────────────────────────────────────────────────────────────
+
+const REGEX_SPECIAL_CHARS = /[.*+?^${}()|[\]\\]/g;
+
+function escapeRegex(value: string): string {
+  return value.replace(REGEX_SPECIAL_CHARS, '\\$&');
+}
+
+/**
+ * `-test.run` matches every `/`-separated level of a subtest name separately,
+ * so each level is escaped and anchored on its own
+ */
+function buildGoRunPattern(testName: string): string {
+  return testName.split('/').map(level => `^${escapeRegex(level)}$`).join('/');
+}
+
+/** `pkg.Class.method`, optionally with a parameter index like `method[0]` */
+const JAVA_QUALIFIED_METHOD = /^([A-Za-z_$][\w$]*(?:\.[A-Za-z_$][\w$]*)*)\.([A-Za-z_$][\w$]*(?:\[.*\])?)$/;
+
+/**
+ * Bazel's JUnit runner matches the filter as a regex against `Class#method`.
+ * `Class#method` and `pkg.Class.method` are qualified; other names (including
+ * JUnit 5 display names) match the method in any class of the target.
+ */
+function buildJUnitFilter(testName: string): string {
+  const hashIndex = testName.lastIndexOf('#');
+  if (hashIndex !== -1) {
+    return `${escapeRegex(testName.slice(0, hashIndex))}#${escapeRegex(testName.slice(hashIndex + 1))}$`;
+  }
+  const qualified = testName.match(JAVA_QUALIFIED_METHOD);
+  if (qualified) {
+    return `${escapeRegex(qualified[1])}#${escapeRegex(qualified[2])}$`;
+  }
+  return `#${escapeRegex(testName)}$`;
+}
+
+/**
+ * Catch2 test specs treat `,` `[` `]` `*` `~` `"` and `\` specially; a backslash escapes them
+ */
+function escapeCatch2TestSpec(testName: string): string {
+  return testName.replace(/[\\,[\]*~"]/g, '\\$&');
+}
+
+/**
+ * Boost.Test has no escape syntax; it registers names with the characters that
+ * have a meaning in `--run_test` replaced by `_`, so the same is done here
+ */
+function buildBoostRunTestPath(testName: string): string {
+  return testName
+    .split('/')
+    .map(level => level.trim().replace(/[\s,:*@+!~]/g, '_'))
+    .join('/');
+}
+
 /**
  * Determine Bazel arguments for test filtering
  * 
@@ -88,6 +167,26 @@ export function getTestFilterArgs(
   return strategy.getFilterArgs(testName);
 }
 
+/**
+ * Determine Bazel arguments that select several tests of one target at once
+ *
+ * @returns Filter arguments, or undefined if the framework cannot combine filters
+ *          (the whole target has to run instead)
+ */
+export function getCombinedTestFilterArgs(
+  testNames: string[],
+  framework: TestFramework = 'other'
+): string[] | undefined {
+  const strategy = strategies[framework] ?? strategies.other;
+  if (testNames.length === 1) {
+    return strategy.supportsFilter ? strategy.getFilterArgs(testNames[0]) : undefined;
+  }
+  if (!strategy.supportsFilter || !strategy.getCombinedFilterArgs || testNames.length === 0) {
+    return undefined;
+  }
+  return strategy.getCombinedFilterArgs(testNames);
+}
+
 /**
  * Check if a framework supports test filtering
  */
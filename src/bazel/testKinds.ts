@@ -0,0 +1,112 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Test kinds - groups discovered test targets by rule kind, so automatic kind
+ * detection can list each kind with its target count and guessed framework
+ */
+
+import * as vscode from 'vscode';
+import { BazelTestTarget } from './types';
+import { detectPrimaryFramework } from './frameworkDetection';
+
+// ───────────────────────────────────────────────────────────────
+// Types
+// ───────────────────────────────────────────────────────────────
+
+export interface TestKindSummary {
+  /** Rule class, e.g. `cc_test` */
+  kind: string;
+  /** Discovered targets of this kind; 0 for excluded kinds */
+  count: number;
+  /** Most common framework among the targets, if any was recognized */
+  framework?: string;
+  excluded: boolean;
+}
+
+interface DiscoveredKind {
+  count: number;
+  framework?: string;
+}
+
+const discoveredKinds = new Map<string, DiscoveredKind>();
+const kindsEmitter = new vscode.EventEmitter<void>();
+
+export const onDidChangeTestKinds = kindsEmitter.event;
+
+// ───────────────────────────────────────────────────────────────
+// Public API
+// ───────────────────────────────────────────────────────────────
+
+/**
+ * Replaces the known kinds with those of a completed discovery. Test suites are
+ * not a rule kind users opt in or out of and are skipped.
+ */
+export function recordDiscoveredTestKinds(targets: BazelTestTarget[]): void {
+  const frameworksByKind = new Map<string, Map<string, number>>();
+  const counts = new Map<string, number>();
+  for (const target of targets) {
+    if (!target.type || target.type === 'test_suite') {
+      continue;
+    }
+    counts.set(target.type, (counts.get(target.type) ?? 0) + 1);
+    const framework = detectPrimaryFramework(target);
+    if (framework) {
+      const frameworks = frameworksByKind.get(target.type) ?? new Map<string, number>();
+      frameworks.set(framework, (frameworks.get(framework) ?? 0) + 1);
+      frameworksByKind.set(target.type, frameworks);
+    }
+  }
+
+  discoveredKinds.clear();
+  for (const [kind, count] of counts) {
+    discoveredKinds.set(kind, { count, framework: mostCommon(frameworksByKind.get(kind)) });
+  }
+  kindsEmitter.fire();
+}
+
+/**
+ * Discovered kinds plus the excluded ones (which discovery no longer returns),
+ * sorted by kind
+ */
+export function getTestKindSummaries(excludedKinds: string[]): TestKindSummary[] {
+  const excluded = new Set(excludedKinds);
+  const summaries: TestKindSummary[] = Array.from(discoveredKinds, ([kind, { count, framework }]) => ({
+    kind,
+    count,
+    framework,
+    excluded: excluded.has(kind)
+  }));
+  for (const kind of excluded) {
+    if (!discoveredKinds.has(kind)) {
+      summaries.push({ kind, count: 0, excluded: true });
+    }
+  }
+  return summaries.sort((a, b) => a.kind.localeCompare(b.kind));
+}
+
+export function disposeTestKinds(): void {
+  discoveredKinds.clear();
+  kindsEmitter.dispose();
+}
+
+// ───────────────────────────────────────────────────────────────
+// Helpers
+// ───────────────────────────────────────────────────────────────
+
+function mostCommon(counts: Map<string, number> | undefined): string | undefined {
+  let best: string | undefined;
+  let bestCount = 0;
+  for (const [value, count] of counts ?? []) {
+    if (count > bestCount) {
+      best = value;
+      bestCount = count;
+    }
+  }
+  return best;
+}
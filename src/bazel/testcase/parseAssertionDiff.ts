@@ -0,0 +1,137 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Assertion diff parser - extracts expected and actual values from gtest, pytest,
+ * JUnit and testify failure messages for the VS Code diff editor
+ */
+
+export interface AssertionDiff {
+  expected: string;
+  actual: string;
+}
+
+/**
+ * Returns the expected and actual value of the first equality assertion in the output
+ */
+export function extractAssertionDiff(output: string | string[]): AssertionDiff | undefined {
+  const lines = Array.isArray(output) ? output : output.split(/\r?\n/);
+  return extractGTestDiff(lines)
+    ?? extractPytestDiff(lines)
+    ?? extractJUnitDiff(lines.join('\n'))
+    ?? extractTestifyDiff(lines);
+}
+
+/**
+ * `EXPECT_EQ(a, b)`:
+ *   Expected equality of these values:
+ *     add(2, 3)
+ *       Which is: -1
+ *     5
+ * A literal operand (no `Which is:`) is the expected value; otherwise the first one is.
+ * Also handles the pre-1.8 form `Value of: expr / Actual: 4 / Expected: 3`.
+ */
+function extractGTestDiff(lines: string[]): AssertionDiff | undefined {
+  const start = lines.findIndex(line => line.trim() === 'Expected equality of these values:');
+  if (start !== -1) {
+    const values: { value: string; evaluated: boolean }[] = [];
+    for (const line of lines.slice(start + 1)) {
+      const trimmed = line.trim();
+      const whichIs = trimmed.match(/^Which is: (.*)$/);
+      if (whichIs && values.length > 0) {
+        values[values.length - 1] = { value: whichIs[1], evaluated: true };
+      } else if (trimmed && !whichIs && values.length < 2) {
+        values.push({ value: trimmed, evaluated: false });
+      } else {
+        break;
+      }
+    }
+    if (values.length !== 2) {
+      return undefined;
+    }
+    const [first, second] = values;
+    return first.evaluated && !second.evaluated
+      ? { expected: second.value, actual: first.value }
+      : { expected: first.value, actual: second.value };
+  }
+
+  const valueOf = lines.findIndex(line => /^\s*Value of: /.test(line));
+  if (valueOf === -1) {
+    return undefined;
+  }
+  const following = lines.slice(valueOf + 1, valueOf + 4).map(line => line.trim());
+  const actual = following.map(line => line.match(/^Actual: (.*)$/)).find(Boolean);
+  const expected = following.map(line => line.match(/^Expected: (.*)$/)).find(Boolean);
+  return actual && expected ? { expected: expected[1], actual: actual[1] } : undefined;
+}
+
+/**
+ * pytest assertion rewriting: `E       assert 4 == 3` (`assert actual == expected`)
+ */
+function extractPytestDiff(lines: string[]): AssertionDiff | undefined {
+  for (const line of lines) {
+    const match = line.match(/^E\s+(?:AssertionError: )?assert (.+)$/);
+    const operands = match ? splitTopLevel(match[1], ' == ') : undefined;
+    if (operands) {
+      return { expected: operands[1], actual: operands[0] };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * JUnit 4 `expected:<3> but was:<4>` and JUnit 5 `expected: <3> but was: <4>`
+ */
+function extractJUnitDiff(text: string): AssertionDiff | undefined {
+  const match = text.match(/expected: ?<([\s\S]*?)> but was: ?<([\s\S]*?)>(?=\s*(?:\n|$))/);
+  return match ? { expected: match[1], actual: match[2] } : undefined;
+}
+
+/**
+ * testify `assert.Equal`:
+ *   Error:      	Not equal:
+ *               	expected: 3
+ *               	actual  : 4
+ */
+function extractTestifyDiff(lines: string[]): AssertionDiff | undefined {
+  const start = lines.findIndex(line => /\bNot equal:\s*$/.test(line));
+  if (start === -1) {
+    return undefined;
+  }
+  const following = lines.slice(start + 1, start + 3).map(line => line.trim());
+  const expected = following[0]?.match(/^expected: (.*)$/);
+  const actual = following[1]?.match(/^actual\s*: (.*)$/);
+  return expected && actual ? { expected: expected[1], actual: actual[1] } : undefined;
+}
+
+/**
+ * Splits `left<separator>right` at the first separator outside quotes and brackets
+ */
+function splitTopLevel(text: string, separator: string): [string, string] | undefined {
+  let depth = 0;
+  let quote: string | undefined;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === '\\') {
+        i++;
+      } else if (char === quote) {
+        quote = undefined;
+      }
+    } else if (char === '"' || char === '\'') {
+      quote = char;
+    } else if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (depth === 0 && text.startsWith(separator, i)) {
+      return [text.slice(0, i).trim(), text.slice(i + separator.length).trim()];
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,120 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Memcheck parser - turns Valgrind memcheck errors and leaks from a test log into TestMessages
+ */
+
+import * as vscode from 'vscode';
+import { resolveWorkspaceSourcePath } from '../../explorer/sourceUtils';
+import { buildTestStackTrace } from './parseStackTrace';
+
+export interface MemcheckFrame {
+  function: string;
+  file?: string;
+  line?: number;
+  /** Shared object or binary when no source location is known */
+  object?: string;
+}
+
+export interface MemcheckError {
+  /** Header line, e.g. "Invalid read of size 4" or "40 bytes in 1 blocks are definitely lost ..." */
+  kind: string;
+  /** Frames of the error itself; allocation/free stacks are only kept in `lines` */
+  frames: MemcheckFrame[];
+  /** All lines of the error block without the `==pid==` prefix */
+  lines: string[];
+}
+
+const VALGRIND_PREFIX = /^==\d+==\s?(.*)$/;
+const FRAME_LINE = /^\s*(?:at|by) 0x[0-9A-Fa-f]+: (.+?)(?: \((.+)\))?$/;
+const ERROR_HEADER = new RegExp([
+  '^Invalid (?:read|write|free\\(\\)|delete|delete\\[\\])',
+  '^Mismatched free\\(\\)',
+  '^Conditional jump or move depends on uninitialised value',
+  '^Use of uninitialised value',
+  '^Syscall param .* (?:points to unaddressable|contains uninitialised)',
+  '^Source and destination overlap',
+  '^Argument .* of function .* has a fishy',
+  '^.* bytes in .* blocks are (?:definitely|indirectly|possibly) lost'
+].join('|'));
+
+/**
+ * Collects the error blocks Valgrind prints between blank `==pid==` lines.
+ * Summaries (HEAP/LEAK/ERROR SUMMARY) and the banner are skipped.
+ */
+export function parseMemcheckReport(log: string[]): MemcheckError[] {
+  const errors: MemcheckError[] = [];
+  let current: MemcheckError | undefined;
+  let inErrorStack = false;
+
+  for (const rawLine of log) {
+    const match = rawLine.match(VALGRIND_PREFIX);
+    if (!match) {
+      continue;
+    }
+    const line = match[1].trimEnd();
+    if (line.trim() === '') {
+      current = undefined;
+      continue;
+    }
+    if (ERROR_HEADER.test(line.trim())) {
+      current = { kind: line.trim(), frames: [], lines: [line.trim()] };
+      inErrorStack = true;
+      errors.push(current);
+      continue;
+    }
+    if (!current) {
+      continue;
+    }
+    current.lines.push(line);
+    const frame = line.match(FRAME_LINE);
+    if (frame && inErrorStack) {
+      current.frames.push(parseFrameLocation(frame[1], frame[2]));
+    } else if (!frame) {
+      // "Address 0x... is 0 bytes after a block ..." starts the allocation stack
+      inErrorStack = false;
+    }
+  }
+  return errors;
+}
+
+/**
+ * Builds one TestMessage per memcheck error, located at the first frame in the workspace
+ */
+export function buildMemcheckMessages(
+  errors: MemcheckError[],
+  workspacePath: string,
+  packagePath?: string
+): vscode.TestMessage[] {
+  return errors.map(error => {
+    const message = new vscode.TestMessage(`Valgrind: ${error.kind}\n\n${error.lines.join('\n')}`);
+    message.stackTrace = buildTestStackTrace(
+      error.frames.map(frame => ({ label: frame.function, file: frame.file, line: frame.line })),
+      workspacePath,
+      packagePath
+    );
+    for (const frame of error.frames) {
+      const resolved = frame.file ? resolveWorkspaceSourcePath(frame.file, workspacePath, packagePath) : undefined;
+      if (resolved) {
+        const line = Math.max(0, (frame.line ?? 1) - 1);
+        message.location = new vscode.Location(vscode.Uri.file(resolved), new vscode.Position(line, 0));
+        break;
+      }
+    }
+    return message;
+  });
+}
+
+function parseFrameLocation(fn: string, location?: string): MemcheckFrame {
+  const source = location?.match(/^(?:in )?(.+):(\d+)$/);
+  if (source && !location?.startsWith('in ')) {
+    return { function: fn, file: source[1], line: Number(source[2]) };
+  }
+  return { function: fn, object: location?.replace(/^in /, '') };
+}
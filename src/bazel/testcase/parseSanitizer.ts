@@ -0,0 +1,225 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Sanitizer parser - turns AddressSanitizer, LeakSanitizer, UndefinedBehaviorSanitizer
+ * and ThreadSanitizer reports from a test log into TestMessages
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { resolveWorkspaceSourcePath } from '../../explorer/sourceUtils';
+import { buildTestStackTrace, parseSymbolizedFrame, SymbolizedFrame } from './parseStackTrace';
+
+export type SanitizerName =
+  | 'AddressSanitizer'
+  | 'LeakSanitizer'
+  | 'UndefinedBehaviorSanitizer'
+  | 'ThreadSanitizer';
+
+export type SanitizerFrame = SymbolizedFrame;
+
+export interface SanitizerReport {
+  sanitizer: SanitizerName;
+  /** e.g. "heap-buffer-overflow", "data race", "Direct leak", "signed integer overflow" */
+  errorType: string;
+  /** Header line of the report */
+  description: string;
+  /** First stack of the report (the faulting access, the leak allocation, ...) */
+  frames: SanitizerFrame[];
+  /** Source location printed in the header (UBSan `file:line:col: runtime error`) */
+  location?: { file: string; line: number; column?: number };
+  /** Text of the `SUMMARY:` line without the prefix */
+  summary?: string;
+  /** All lines of the report, including secondary stacks */
+  lines: string[];
+}
+
+const ASAN_HEADER = /^==\d+==ERROR: (AddressSanitizer|LeakSanitizer|UndefinedBehaviorSanitizer|ThreadSanitizer): ([\w-]+)(.*)$/;
+const TSAN_HEADER = /^WARNING: ThreadSanitizer: (.+?)(?: \(pid=\d+\))?$/;
+const UBSAN_HEADER = /^(.+?):(\d+):(\d+): runtime error: (.+)$/;
+const LEAK_HEADER = /^(Direct|Indirect) leak of .+$/;
+const FRAME_LINE = /^\s*#(\d+) (?:0x[0-9a-fA-F]+ )?(?:in )?(.*)$/;
+const SUMMARY_LINE = /^SUMMARY: (\w+): (.+)$/;
+const SEPARATOR_LINE = /^={10,}$/;
+
+/**
+ * Collects the sanitizer reports of a test log. LeakSanitizer reports are split
+ * into one report per leak, so each leak gets its own location.
+ */
+export function parseSanitizerReports(log: string[]): SanitizerReport[] {
+  const reports: SanitizerReport[] = [];
+  let current: SanitizerReport | undefined;
+  let inFirstStack = false;
+  let leakReport = false;
+
+  const begin = (report: SanitizerReport) => {
+    current = report;
+    inFirstStack = true;
+    reports.push(report);
+  };
+
+  for (const rawLine of log) {
+    const line = rawLine.trimEnd();
+    const trimmed = line.trim();
+
+    const asan = trimmed.match(ASAN_HEADER);
+    if (asan) {
+      const sanitizer = asan[1] as SanitizerName;
+      leakReport = sanitizer === 'LeakSanitizer' || asan[2] === 'detected';
+      if (leakReport) {
+        // "detected memory leaks" only announces the per-leak blocks that follow
+        current = undefined;
+        continue;
+      }
+      begin({ sanitizer, errorType: asan[2], description: trimmed, frames: [], lines: [trimmed] });
+      continue;
+    }
+
+    const tsan = trimmed.match(TSAN_HEADER);
+    if (tsan) {
+      begin({ sanitizer: 'ThreadSanitizer', errorType: tsan[1], description: trimmed, frames: [], lines: [trimmed] });
+      continue;
+    }
+
+    const ubsan = trimmed.match(UBSAN_HEADER);
+    if (ubsan) {
+      begin({
+        sanitizer: 'UndefinedBehaviorSanitizer',
+        errorType: ubsan[4].split(':')[0],
+        description: trimmed,
+        frames: [],
+        location: { file: ubsan[1], line: Number(ubsan[2]), column: Number(ubsan[3]) },
+        lines: [trimmed]
+      });
+      continue;
+    }
+
+    const leak = leakReport ? trimmed.match(LEAK_HEADER) : null;
+    if (leak) {
+      begin({ sanitizer: 'LeakSanitizer', errorType: `${leak[1]} leak`, description: trimmed, frames: [], lines: [trimmed] });
+      continue;
+    }
+
+    const summary = trimmed.match(SUMMARY_LINE);
+    if (summary) {
+      // The LeakSanitizer summary totals all leaks and belongs to none of them
+      if (current && !current.summary) {
+        current.summary = summary[2];
+        current.lines.push(trimmed);
+      }
+      current = undefined;
+      leakReport = false;
+      continue;
+    }
+
+    if (!current) {
+      continue;
+    }
+    if (SEPARATOR_LINE.test(trimmed)) {
+      current = undefined;
+      continue;
+    }
+
+    const frame = trimmed.match(FRAME_LINE);
+    if (frame) {
+      current.lines.push(line);
+      if (inFirstStack) {
+        current.frames.push(parseSymbolizedFrame(Number(frame[1]), frame[2]));
+      }
+      continue;
+    }
+    if (current.sanitizer === 'UndefinedBehaviorSanitizer') {
+      // UBSan reports consist of the header, an optional stack and the summary
+      current = undefined;
+      continue;
+    }
+    if (trimmed === '') {
+      // A blank line after the first stack ends it; leak blocks end entirely
+      if (current.frames.length > 0) {
+        inFirstStack = false;
+        if (leakReport) {
+          current = undefined;
+        }
+      }
+      continue;
+    }
+    current.lines.push(line);
+    if (current.frames.length > 0) {
+      inFirstStack = false;
+    }
+  }
+  return reports;
+}
+
+/**
+ * Returns the first frame of the report that maps to a workspace source file
+ */
+export function findFirstUserFrame(
+  report: SanitizerReport,
+  workspacePath: string,
+  packagePath?: string
+): { path: string; frame: SanitizerFrame } | undefined {
+  for (const frame of report.frames) {
+    const resolved = frame.file ? resolveWorkspaceSourcePath(frame.file, workspacePath, packagePath) : undefined;
+    if (resolved) {
+      return { path: resolved, frame };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Builds one TestMessage per report with a one-line summary followed by the full report,
+ * located at the faulting line in user code
+ */
+export function buildSanitizerMessages(
+  reports: SanitizerReport[],
+  workspacePath: string,
+  packagePath?: string
+): vscode.TestMessage[] {
+  return reports.map(report => {
+    let file: string | undefined;
+    let line: number | undefined;
+    let column: number | undefined;
+    let fn: string | undefined;
+
+    const headerPath = report.location
+      ? resolveWorkspaceSourcePath(report.location.file, workspacePath, packagePath)
+      : undefined;
+    if (headerPath && report.location) {
+      ({ line, column } = report.location);
+      file = headerPath;
+    } else {
+      const userFrame = findFirstUserFrame(report, workspacePath, packagePath);
+      if (userFrame) {
+        file = userFrame.path;
+        ({ line, column } = userFrame.frame);
+        fn = userFrame.frame.function;
+      }
+    }
+
+    const where = file
+      ? ` at ${path.relative(workspacePath, file)}:${line ?? 1}${fn ? ` in ${fn}` : ''}`
+      : '';
+    const title = `${report.sanitizer}: ${report.errorType}${where}`;
+    const message = new vscode.TestMessage(`${title}\n\n${report.lines.join('\n')}`);
+    message.stackTrace = buildTestStackTrace(
+      report.frames.map(frame => ({ ...frame, label: frame.function ?? frame.module ?? `#${frame.index}` })),
+      workspacePath,
+      packagePath
+    );
+    if (file) {
+      message.location = new vscode.Location(
+        vscode.Uri.file(file),
+        new vscode.Position(Math.max(0, (line ?? 1) - 1), Math.max(0, (column ?? 1) - 1))
+      );
+    }
+    return message;
+  });
+}
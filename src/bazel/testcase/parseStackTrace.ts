@@ -0,0 +1,246 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Stack trace parser - extracts Python, Java, Go, Rust and C++ stack frames from
+ * failure output and maps them to TestMessage stack frames
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { TestStackFrame } from '../types';
+import { resolveWorkspaceSourcePath } from '../../explorer/sourceUtils';
+
+/**
+ * A C++ frame as printed by sanitizers, absl/glog symbolizers or gdb
+ */
+export interface SymbolizedFrame {
+  index: number;
+  function?: string;
+  file?: string;
+  line?: number;
+  column?: number;
+  /** Binary or shared object when the frame is not symbolized to a source file */
+  module?: string;
+}
+
+interface ParsedFrame extends TestStackFrame {
+  /** Index of the log line the frame was read from */
+  lineIndex: number;
+  /** Python and pytest list the innermost call last */
+  outermostFirst?: boolean;
+  /** pytest prints the source of every entry, so its frames are far apart */
+  pytest?: boolean;
+}
+
+const PYTHON_FRAME = /^\s*File "(.+)", line (\d+), in (.+)$/;
+const PYTEST_FRAME = /^(\S+\.py):(\d+): in (\S+)$/;
+const JAVA_FRAME = /^\s*at ([\w$.<>/]+)\((?:([^():]+):(\d+)|[^()]*)\)$/;
+const GO_GOROUTINE = /^goroutine \d+ \[/;
+const GO_FILE = /^\t(\S+\.go):(\d+)(?: \+0x[0-9a-fA-F]+)?$/;
+const RUST_BACKTRACE = /^stack backtrace:$/;
+const RUST_FRAME = /^\s*\d+: (.+)$/;
+const RUST_LOCATION = /^\s+at (.+?):(\d+)(?::(\d+))?$/;
+const CPP_FRAME = /^\s*#(\d+)\s+(?:0x[0-9a-fA-F]+ )?(?:in )?(.+)$/;
+
+/** Frames further apart than this belong to different stacks */
+const MAX_FRAME_GAP = 2;
+
+/**
+ * Returns the frames of the first stack trace in the output, innermost frame first.
+ * Supports Python tracebacks (incl. pytest), Java exception traces, Go goroutine dumps,
+ * Rust backtraces and symbolized C++ frames (`#N 0x.. in fn file:line`).
+ */
+export function parseStackFrames(output: string | string[]): TestStackFrame[] {
+  const lines = Array.isArray(output) ? output : output.split(/\r?\n/);
+  const frames: ParsedFrame[] = [];
+  let inGoroutine = false;
+  let inRustBacktrace = false;
+
+  lines.forEach((rawLine, lineIndex) => {
+    const line = rawLine.trimEnd();
+
+    const python = line.match(PYTHON_FRAME);
+    const pytest = python ? null : line.match(PYTEST_FRAME);
+    const pythonFrame = python ?? pytest;
+    if (pythonFrame) {
+      frames.push({
+        label: pythonFrame[3],
+        file: pythonFrame[1],
+        line: Number(pythonFrame[2]),
+        lineIndex,
+        outermostFirst: true,
+        pytest: !!pytest
+      });
+      return;
+    }
+
+    const java = line.match(JAVA_FRAME);
+    if (java) {
+      frames.push({
+        label: java[1],
+        file: java[2] ? javaSourcePath(java[1], java[2]) : undefined,
+        line: java[3] ? Number(java[3]) : undefined,
+        lineIndex
+      });
+      return;
+    }
+
+    if (GO_GOROUTINE.test(line)) {
+      inGoroutine = true;
+      return;
+    }
+    const goFile = inGoroutine ? line.match(GO_FILE) : null;
+    if (goFile) {
+      const fn = (lines[lineIndex - 1] ?? '').trim().replace(/\([^()]*\)$/, '');
+      frames.push({ label: fn || path.basename(goFile[1]), file: goFile[1], line: Number(goFile[2]), lineIndex });
+      return;
+    }
+
+    if (RUST_BACKTRACE.test(line)) {
+      inRustBacktrace = true;
+      return;
+    }
+    if (inRustBacktrace) {
+      const location = line.match(RUST_LOCATION);
+      const previous = frames[frames.length - 1];
+      if (location && previous && previous.lineIndex === lineIndex - 1 && !previous.file) {
+        previous.file = location[1];
+        previous.line = Number(location[2]);
+        previous.column = location[3] ? Number(location[3]) : undefined;
+        previous.lineIndex = lineIndex;
+        return;
+      }
+      const rust = line.match(RUST_FRAME);
+      if (rust) {
+        frames.push({ label: rust[1], lineIndex });
+        return;
+      }
+    }
+
+    const cpp = line.match(CPP_FRAME);
+    if (cpp) {
+      const frame = parseSymbolizedFrame(Number(cpp[1]), cpp[2]);
+      frames.push({
+        label: frame.function ?? frame.module ?? `#${frame.index}`,
+        file: frame.file,
+        line: frame.line,
+        column: frame.column,
+        lineIndex
+      });
+    }
+  });
+
+  const stack = firstStack(frames);
+  const ordered = stack[0]?.outermostFirst ? stack.reverse() : stack;
+  return ordered.map(({ label, file, line, column }) => ({ label, file, line, column }));
+}
+
+/**
+ * Maps frames to TestMessage stack frames. Frames in workspace files are linked;
+ * frames outside the workspace (runtime, libraries, external repositories) keep
+ * their printed location in the label.
+ */
+export function buildTestStackTrace(
+  frames: TestStackFrame[],
+  workspacePath: string,
+  packagePath?: string
+): vscode.TestMessageStackFrame[] {
+  return frames.map(frame => {
+    const resolved = frame.file ? resolveFrameFile(frame.file, workspacePath, packagePath) : undefined;
+    if (!resolved) {
+      const printed = frame.file ? ` (${frame.file}${frame.line ? `:${frame.line}` : ''})` : '';
+      return new vscode.TestMessageStackFrame(`${frame.label}${printed}`);
+    }
+    const position = new vscode.Position(Math.max(0, (frame.line ?? 1) - 1), Math.max(0, (frame.column ?? 1) - 1));
+    return new vscode.TestMessageStackFrame(frame.label, vscode.Uri.file(resolved), position);
+  });
+}
+
+/**
+ * Sets `message.stackTrace` from the given frames, or from the frames found in `output`
+ */
+export function applyStackTrace(
+  message: vscode.TestMessage,
+  output: string | string[] | TestStackFrame[],
+  workspacePath: string,
+  packagePath?: string
+): void {
+  const frames = isFrameList(output) ? output : parseStackFrames(output);
+  if (frames.length > 0) {
+    message.stackTrace = buildTestStackTrace(frames, workspacePath, packagePath);
+  }
+}
+
+function isFrameList(output: string | string[] | TestStackFrame[]): output is TestStackFrame[] {
+  return Array.isArray(output) && output.length > 0 && typeof output[0] !== 'string';
+}
+
+function firstStack(frames: ParsedFrame[]): ParsedFrame[] {
+  const stack: ParsedFrame[] = [];
+  for (const frame of frames) {
+    const previous = stack[stack.length - 1];
+    if (previous && frame.lineIndex - previous.lineIndex > MAX_FRAME_GAP && !(frame.pytest && previous.pytest)) {
+      break;
+    }
+    stack.push(frame);
+  }
+  return stack;
+}
+
+/**
+ * Java prints bare file names; `com.example.MathTest.add` in `MathTest.java`
+ * lives in `com/example/MathTest.java` below some source root
+ */
+function javaSourcePath(method: string, fileName: string): string {
+  const packageDirs = method.split('.').slice(0, -2).filter(part => /^[a-z_]/.test(part));
+  return path.join(...packageDirs, fileName);
+}
+
+/**
+ * Resolves a printed path; relative paths are also tried below the ancestors of
+ * the target's package (Java source roots, package-relative Python paths)
+ */
+function resolveFrameFile(file: string, workspacePath: string, packagePath?: string): string | undefined {
+  const direct = resolveWorkspaceSourcePath(file, workspacePath, packagePath);
+  if (direct || path.isAbsolute(file) || !packagePath) {
+    return direct;
+  }
+  const packageDirs = packagePath.split('/').filter(segment => segment.length > 0);
+  for (let depth = packageDirs.length; depth > 0; depth--) {
+    const resolved = resolveWorkspaceSourcePath(path.join(...packageDirs.slice(0, depth), file), workspacePath);
+    if (resolved) {
+      return resolved;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Parses the part of a symbolized frame after `#N 0xADDR in`:
+ * `fn file:line:col`, `fn file:line:col (module+0x..)`, `fn (module+0x..)`, `(module+0x..)`
+ * or the gdb form `fn (args) at file:line`
+ */
+export function parseSymbolizedFrame(index: number, rest: string): SymbolizedFrame {
+  const moduleMatch = rest.match(/^(.*?) ?\(([^()]+\+0x[0-9a-fA-F]+)\)$/);
+  const body = moduleMatch ? moduleMatch[1] : rest;
+  const module = moduleMatch?.[2];
+
+  const source = body.match(/^(.*) (\S+?):(\d+)(?::(\d+))?$/);
+  if (source) {
+    return {
+      index,
+      function: source[1].replace(/ at$/, '') || undefined,
+      file: source[2],
+      line: Number(source[3]),
+      column: source[4] ? Number(source[4]) : undefined,
+      module
+    };
+  }
+  return { index, function: body || undefined, module };
+}
@@ -17,6 +17,8 @@ import { logWithTimestamp, formatError } from '../../logging';
 import { IndividualTestCase, TestCaseParseResult } from '../types';
 import { buildTestXmlPath, getBazelTestLogsDirectory, hasTestXmlFile } from '../testlogs';
 import { extractTestCasesFromOutput } from './parseOutput';
+import { parseStackFrames } from './parseStackTrace';
+import { extractAssertionDiff } from './parseAssertionDiff';
 
 const FRAMEWORK_ID = 'bazel_test_xml';
 
@@ -153,6 +155,15 @@ export function parseStructuredTestXml(
             testCase.line = loc.line;
           }
         }
+        const stackFrames = parseStackFrames(testCase.errorMessage);
+        if (stackFrames.length > 0) {
+          testCase.stackFrames = stackFrames;
+        }
+        const diff = extractAssertionDiff(testCase.errorMessage);
+        if (diff) {
+          testCase.expectedOutput = diff.expected;
+          testCase.actualOutput = diff.actual;
+        }
         testCase.errorMessage = cleanFailureMessage(testCase.errorMessage);
       }
 
@@ -309,6 +320,15 @@ function extractTestCasesFromSuiteBody(
           testCase.line = loc.line;
         }
       }
+      const stackFrames = parseStackFrames(testCase.errorMessage);
+      if (stackFrames.length > 0) {
+        testCase.stackFrames = stackFrames;
+      }
+      const diff = extractAssertionDiff(testCase.errorMessage);
+      if (diff) {
+        testCase.expectedOutput = diff.expected;
+        testCase.actualOutput = diff.actual;
+      }
       testCase.errorMessage = cleanFailureMessage(testCase.errorMessage);
     }
 
@@ -14,6 +14,7 @@ import * as fs from 'fs';
 import * as path from 'path';
 import { logWithTimestamp, formatError } from '../logging';
 import { runBazelCommand } from '../infrastructure/process';
+import { getShardDirectoryName } from './shards';
 
 const testLogsCache = new Map<string, string>();
 
@@ -62,12 +63,32 @@ export async function getBazelTestLogsDirectory(
   }
 }
 
-export function buildTestXmlPath(targetLabel: string, logsDirectory: string): string {
+/**
+ * Directory below bazel-testlogs that holds the outputs of a target
+ */
+export function buildTestLogsTargetDirectory(targetLabel: string, logsDirectory: string): string {
   const normalized = targetLabel
     .replace(/^\/\//, '')
     .replace(/^:/, '')
     .replace(/:/g, path.sep);
-  return path.join(logsDirectory, normalized, 'test.xml');
+  return path.join(logsDirectory, normalized);
+}
+
+export function buildTestXmlPath(targetLabel: string, logsDirectory: string): string {
+  return path.join(buildTestLogsTargetDirectory(targetLabel, logsDirectory), 'test.xml');
+}
+
+/**
+ * Paths of test.xml/test.log for one shard of a sharded target (`shard_N_of_M/`)
+ */
+export function buildShardTestLogPaths(
+  targetLabel: string,
+  logsDirectory: string,
+  index: number,
+  total: number
+): { xml: string; log: string } {
+  const shardDir = path.join(buildTestLogsTargetDirectory(targetLabel, logsDirectory), getShardDirectoryName(index, total));
+  return { xml: path.join(shardDir, 'test.xml'), log: path.join(shardDir, 'test.log') };
 }
 
 export function clearTestLogsCache(): void {
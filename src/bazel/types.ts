@@ -24,6 +24,14 @@ export interface BazelTestTarget {
     tests?: string[];
     visibility?: string[];
     shard_count?: number;
+    /** Configuration the metadata was resolved in (cquery discovery), e.g. `k8-fastbuild` */
+    configuration?: string;
+    /** Macro that created the target, e.g. `gtest_suite` */
+    generator_function?: string;
+    /** `name` of the macro call that created the target */
+    generator_name?: string;
+    /** BUILD file location of the macro call, e.g. `pkg/BUILD:12:10` */
+    generator_location?: string;
 }
 
 /**
@@ -39,6 +47,23 @@ export interface IndividualTestCase {
     suite?: string;
     className?: string;
     frameworkId?: string;
+    /** Frames of the failure's stack trace, innermost first */
+    stackFrames?: TestStackFrame[];
+    /** Expected and actual value of a failed equality assertion */
+    expectedOutput?: string;
+    actualOutput?: string;
+}
+
+/**
+ * A frame of a stack trace printed by a test framework
+ */
+export interface TestStackFrame {
+    /** Function or method name */
+    label: string;
+    /** File as printed (sandbox, execroot, runfiles or package-relative path) */
+    file?: string;
+    line?: number;
+    column?: number;
 }
 
 /**
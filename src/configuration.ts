@@ -21,6 +21,27 @@ const MIN_CHUNK_SIZE = 50;
 const MAX_CHUNK_SIZE = 2000;
 const DEFAULT_CHUNK_SIZE = 150;
 
+const MIN_CONTINUOUS_RUN_DEBOUNCE_MS = 100;
+const MAX_CONTINUOUS_RUN_DEBOUNCE_MS = 10000;
+const DEFAULT_CONTINUOUS_RUN_DEBOUNCE_MS = 1000;
+
+/**
+ * A named run profile from `bazelTestExplorer.runProfiles`
+ */
+export interface RunProfileSettings {
+  name: string;
+  /** Extra `bazel test` arguments, applied after `testArgs` */
+  args: string[];
+  /** Environment variables of the tests, passed as `--test_env` */
+  env: Record<string, string>;
+  /** Passed as `--test_tag_filters` */
+  tagFilters: string[];
+  /** Loaded via the `--bazelrc` startup option */
+  bazelrcFiles: string[];
+  /** Wrapper command passed as `--run_under`, e.g. `valgrind --leak-check=full` */
+  runUnder?: string;
+}
+
 /**
  * Clamps a value between min and max
  */
@@ -52,6 +73,20 @@ export class ConfigurationService {
     return this.normalizeStringArray(this.config.get<string[]>('testTypes', ['cc_test', 'unity_test', 'java_test', 'rust_test']));
   }
 
+  /**
+   * Discover every `*_test` rule kind instead of the configured `testTypes`
+   */
+  get autoDetectTestKinds(): boolean {
+    return this.config.get<boolean>('autoDetectTestKinds', false);
+  }
+
+  /**
+   * Rule kinds left out of automatic discovery
+   */
+  get excludedTestKinds(): string[] {
+    return this.normalizeStringArray(this.config.get<string[]>('excludedTestKinds', []));
+  }
+
   get sequentialTestTypes(): string[] {
     return this.normalizeStringArray(this.config.get<string[]>('sequentialTestTypes', []));
   }
@@ -60,6 +95,39 @@ export class ConfigurationService {
     return this.normalizeStringArray(this.config.get<string[]>('testArgs', []));
   }
 
+  /**
+   * `--test_env` variables per scope (`*`, `//pkg/...`, `//pkg:*`, `//pkg:target`)
+   */
+  get testEnvByScope(): Record<string, Record<string, string>> {
+    const raw = this.config.get<Record<string, unknown>>('testEnvByScope', {});
+    const result: Record<string, Record<string, string>> = {};
+    for (const [scope, vars] of Object.entries(raw ?? {})) {
+      if (!scope.trim() || typeof vars !== 'object' || vars === null) {
+        continue;
+      }
+      result[scope.trim()] = Object.fromEntries(
+        Object.entries(vars as Record<string, unknown>)
+          .filter((kv): kv is [string, string] => kv[0].trim().length > 0 && typeof kv[1] === 'string')
+          .map(([name, value]) => [name.trim(), value])
+      );
+    }
+    return result;
+  }
+
+  /**
+   * `--test_arg` values per scope (`*`, `//pkg/...`, `//pkg:*`, `//pkg:target`)
+   */
+  get testArgByScope(): Record<string, string[]> {
+    const raw = this.config.get<Record<string, unknown>>('testArgByScope', {});
+    const result: Record<string, string[]> = {};
+    for (const [scope, args] of Object.entries(raw ?? {})) {
+      if (scope.trim()) {
+        result[scope.trim()] = this.normalizeStringArray(this.toStringArray(args));
+      }
+    }
+    return result;
+  }
+
   get coverageArgs(): string[] {
     return this.normalizeStringArray(this.config.get<string[]>('coverageArgs', [
       '--combined_report=lcov',
@@ -78,6 +146,29 @@ export class ConfigurationService {
     return this.normalizeStringArray(this.config.get<string[]>('bazelrcFiles', []));
   }
 
+  /**
+   * Output base for read-only queries: empty to share the server of test runs,
+   * `auto` for a per-workspace cache directory, or a path
+   */
+  get queryOutputBase(): string {
+    return (this.config.get<string>('queryOutputBase', '') ?? '').trim();
+  }
+
+  /**
+   * `query` reads unconfigured BUILD attributes; `cquery` resolves `select()`
+   * with the build flags of `testArgs` and `cqueryArgs`
+   */
+  get discoveryMode(): 'query' | 'cquery' {
+    return this.config.get<string>('discoveryMode', 'query') === 'cquery' ? 'cquery' : 'query';
+  }
+
+  /**
+   * Extra flags for cquery discovery, e.g. `--config=linux` or `--platforms=//platforms:arm64`
+   */
+  get cqueryArgs(): string[] {
+    return this.normalizeStringArray(this.config.get<string[]>('cqueryArgs', []));
+  }
+
   get cppDemanglerPath(): string | undefined {
     const value = this.config.get<string>('demangler.cpp', '').trim();
     return value.length > 0 ? value : undefined;
@@ -92,6 +183,84 @@ export class ConfigurationService {
     return this.config.get<boolean>('buildTestsOnly', false);
   }
 
+  get batchTestExecution(): boolean {
+    return this.config.get<boolean>('batchTestExecution', false) ?? false;
+  }
+
+  get continuousRunDebounceMs(): number {
+    const value = this.config.get<number>('continuousRunDebounceMs', DEFAULT_CONTINUOUS_RUN_DEBOUNCE_MS);
+    const n = typeof value === 'number' ? value : DEFAULT_CONTINUOUS_RUN_DEBOUNCE_MS;
+    return clamp(n, MIN_CONTINUOUS_RUN_DEBOUNCE_MS, MAX_CONTINUOUS_RUN_DEBOUNCE_MS);
+  }
+
+  get affectedTestsBaseRef(): string {
+    return this.config.get<string>('affectedTests.baseRef', 'origin/main')?.trim() || 'origin/main';
+  }
+
+  get runProfiles(): RunProfileSettings[] {
+    const raw = this.config.get<unknown[]>('runProfiles', []);
+    const profiles: RunProfileSettings[] = [];
+    for (const entry of Array.isArray(raw) ? raw : []) {
+      const value = (entry ?? {}) as Record<string, unknown>;
+      const name = typeof value.name === 'string' ? value.name.trim() : '';
+      if (!name || profiles.some(p => p.name === name)) {
+        continue;
+      }
+      const env = typeof value.env === 'object' && value.env !== null ? value.env as Record<string, unknown> : {};
+      profiles.push({
+        name,
+        args: this.normalizeStringArray(this.toStringArray(value.args)),
+        env: Object.fromEntries(
+          Object.entries(env).filter((kv): kv is [string, string] => typeof kv[1] === 'string')
+        ),
+        tagFilters: this.normalizeStringArray(this.toStringArray(value.tagFilters)),
+        bazelrcFiles: this.normalizeStringArray(this.toStringArray(value.bazelrc)),
+        runUnder: typeof value.runUnder === 'string' && value.runUnder.trim() ? value.runUnder.trim() : undefined
+      });
+    }
+    return profiles;
+  }
+
+  /**
+   * `--run_under` wrappers from `bazelTestExplorer.runUnderWrappers`, as run profiles
+   */
+  get runUnderWrappers(): RunProfileSettings[] {
+    const raw = this.config.get<unknown[]>('runUnderWrappers', []);
+    const wrappers: RunProfileSettings[] = [];
+    for (const entry of Array.isArray(raw) ? raw : []) {
+      const value = (entry ?? {}) as Record<string, unknown>;
+      const name = typeof value.name === 'string' ? value.name.trim() : '';
+      const command = typeof value.command === 'string' ? value.command.trim() : '';
+      if (!name || !command || wrappers.some(w => w.name === name)) {
+        continue;
+      }
+      wrappers.push({ name, args: [], env: {}, tagFilters: [], bazelrcFiles: [], runUnder: command });
+    }
+    return wrappers;
+  }
+
+  /**
+   * Run profile applied on top of the settings; undefined for the built-in profiles
+   */
+  get runProfile(): RunProfileSettings | undefined {
+    return undefined;
+  }
+
+  /**
+   * Returns a view of this configuration with the given run profile applied
+   */
+  withRunProfile(profile: RunProfileSettings): ConfigurationService {
+    return new RunProfileConfigurationService(profile);
+  }
+
+  get cppDebugger(): 'cppdbg' | 'lldb' {
+    return this.config.get<string>('debug.cppDebugger', 'cppdbg') === 'lldb' ? 'lldb' : 'cppdbg';
+  }
+
+  get debugBuildArgs(): string[] {
+    return this.normalizeStringArray(this.config.get<string[]>('debug.buildArgs', ['--compilation_mode=dbg']));
+  }
+
   get enableTestCaseDiscovery(): boolean {
     return this.config.get<boolean>('enableTestCaseDiscovery', false) ?? false;
   }
@@ -123,6 +292,13 @@ export class ConfigurationService {
   get showMetadataInLabel(): boolean {
     return this.config.get<boolean>('showMetadataInLabel', false);
   }
+
+  /**
+   * Nest targets generated by the same macro call under one node of their package
+   */
+  get groupByGenerator(): boolean {
+    return this.config.get<boolean>('groupByGenerator', false);
+  }
   get metadataChunkSize(): number {
     const value = this.config.get<number>('discovery.metadataChunkSize', DEFAULT_CHUNK_SIZE);
     const n = typeof value === 'number' ? value : DEFAULT_CHUNK_SIZE;
@@ -137,9 +313,36 @@ export class ConfigurationService {
     });
   }
 
+  private toStringArray(value: unknown): string[] {
+    return Array.isArray(value) ? value.filter((v): v is string => typeof v === 'string') : [];
+  }
+
   private normalizeStringArray(values: string[] | undefined, fallback: string[] = []): string[] {
     return (values ?? fallback)
       .map((v) => v.trim())
       .filter((v) => v.length > 0);
   }
 }
+
+/**
+ * Settings with a named run profile applied: profile args and tag filters follow
+ * the global `testArgs`, so they win when flags are merged.
+ */
+class RunProfileConfigurationService extends ConfigurationService {
+  constructor(private readonly profile: RunProfileSettings) {
+    super();
+  }
+
+  get runProfile(): RunProfileSettings {
+    return this.profile;
+  }
+
+  get testArgs(): string[] {
+    const tagFilters = this.profile.tagFilters.length > 0
+      ? [`--test_tag_filters=${this.profile.tagFilters.join(',')}`]
+      : [];
+    // Bazel does not forward its client environment to tests
+    const testEnv = Object.entries(this.profile.env).map(([name, value]) => `--test_env=${name}=${value}`);
+    return [...super.testArgs, ...this.profile.args, ...testEnv, ...tagFilters];
+  }
+}
@@ -11,6 +11,7 @@
  */
 
 import { logWithTimestamp } from '../logging';
+import { BazelCommandError, formatExitCodeMessage } from '../bazel/exitCodes';
 
 /**
  * Error categories
@@ -46,6 +47,11 @@ export class ErrorHandler {
       return this.handleValidationError(originalError, context);
     }
 
+    // Failed Bazel commands carry their exit code
+    if (error instanceof BazelCommandError) {
+      return this.handleBazelCommandError(error, context);
+    }
+
     // Bazel-specific errors
     if (this.isBazelError(error)) {
       return this.handleBazelError(originalError, context);
@@ -61,16 +67,12 @@ export class ErrorHandler {
   }
 
   /**
-   * Check if Bazel error
+   * Check if Bazel error: errors raised by or about Bazel without an exit code,
+   * recognized by the name or Bazel's `ERROR:` output prefix
    */
   private isBazelError(error: unknown): boolean {
-    const message = String(error).toLowerCase();
-    return (
-      message.includes('bazel') ||
-      message.includes('exit code') ||
-      message.includes('query') ||
-      message.includes('target')
-    );
+    const message = String(error);
+    return /\bbazel\b/i.test(message) || /^ERROR: /m.test(message);
   }
 
   /**
@@ -112,6 +114,20 @@ export class ErrorHandler {
     };
   }
 
+  /**
+   * Handle failed Bazel commands by their exit code
+   */
+  private handleBazelCommandError(error: BazelCommandError, context: string): ErrorResult {
+    const { exitCode } = error;
+    return {
+      category: 'bazel',
+      userMessage: formatExitCodeMessage(exitCode),
+      shouldRetry: exitCode.transient,
+      logMessage: `Bazel ${context} error: ${error.message} [${exitCode.name}]${error.stderr ? `\n${error.stderr.trim()}` : ''}`,
+      originalError: error
+    };
+  }
+
   /**
    * Handle workspace errors
    */
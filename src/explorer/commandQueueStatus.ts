@@ -0,0 +1,91 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Command queue status - shows queued and lock-blocked Bazel commands in the
+ * status bar and lets the user cancel queued commands before they start
+ */
+
+import * as vscode from 'vscode';
+import {
+  cancelQueuedBazelCommands,
+  getScheduledCommands,
+  onDidChangeCommandQueue,
+  ScheduledCommand
+} from '../infrastructure/process';
+
+export const SHOW_COMMAND_QUEUE_COMMAND = 'bazelTestExplorer.showCommandQueue';
+
+/**
+ * Status bar text and tooltip for the scheduled commands; undefined while nothing waits
+ */
+export function formatCommandQueueStatus(commands: ScheduledCommand[]): { text: string; tooltip: string } | undefined {
+  const queued = commands.filter(command => command.state === 'queued');
+  const blocked = commands.find(command => command.state === 'blocked');
+  if (queued.length === 0 && !blocked) {
+    return undefined;
+  }
+
+  const running = commands.filter(command => command.state !== 'queued');
+  const lines = [
+    ...running.map(command => command.state === 'blocked'
+      ? `🔒 ${command.description}: waiting for the server lock${command.blockedBy ? ` held by pid ${command.blockedBy}` : ''}`
+      : `▶ ${command.description}`),
+    ...queued.map((command, index) => `⏳ ${index + 1}. ${command.description}${command.priority === 'background' ? ' (background)' : ''}`)
+  ];
+  const text = blocked
+    ? `$(lock) Bazel: locked${blocked.blockedBy ? ` by pid ${blocked.blockedBy}` : ''}${queued.length > 0 ? `, ${queued.length} queued` : ''}`
+    : `$(clock) Bazel: ${queued.length} queued`;
+  return { text, tooltip: [...lines, '', 'Click to cancel queued commands'].join('\n') };
+}
+
+/**
+ * Registers the status bar item and the command that cancels queued commands
+ */
+export function registerCommandQueueStatus(context: vscode.ExtensionContext): void {
+  const statusBar = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Left, 99);
+  statusBar.command = SHOW_COMMAND_QUEUE_COMMAND;
+
+  const update = (commands: ScheduledCommand[]): void => {
+    const status = formatCommandQueueStatus(commands);
+    if (!status) {
+      statusBar.hide();
+      return;
+    }
+    statusBar.text = status.text;
+    statusBar.tooltip = status.tooltip;
+    statusBar.show();
+  };
+
+  context.subscriptions.push(
+    statusBar,
+    onDidChangeCommandQueue(update),
+    vscode.commands.registerCommand(SHOW_COMMAND_QUEUE_COMMAND, async () => {
+      const queued = getScheduledCommands().filter(command => command.state === 'queued');
+      if (queued.length === 0) {
+        vscode.window.showInformationMessage('No Bazel commands are queued.');
+        return;
+      }
+      const picks = await vscode.window.showQuickPick(
+        queued.map(command => ({
+          label: command.description,
+          description: command.priority === 'background' ? 'background' : undefined,
+          detail: `Queued at ${new Date(command.queuedAt).toLocaleTimeString()}`,
+          picked: true,
+          id: command.id
+        })),
+        { canPickMany: true, placeHolder: 'Queued Bazel commands to cancel' }
+      );
+      if (picks && picks.length > 0) {
+        const cancelled = cancelQueuedBazelCommands(picks.map(pick => pick.id));
+        vscode.window.showInformationMessage(`Cancelled ${cancelled} queued Bazel command(s).`);
+      }
+    })
+  );
+  update(getScheduledCommands());
+}
@@ -0,0 +1,138 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * BUILD file changes - maps changed BUILD files and created or deleted directories
+ * to the Bazel packages whose test targets have to be re-queried
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export interface ChangedPackages {
+  /** Packages to re-query, e.g. `//pkg/a` or `//` for the root package */
+  packages: string[];
+  /** A WORKSPACE or MODULE file changed, which can affect every package */
+  fullReload: boolean;
+}
+
+const BUILD_FILE_NAMES = ['BUILD.bazel', 'BUILD'];
+const REPOSITORY_FILE_NAMES = ['WORKSPACE', 'WORKSPACE.bazel', 'MODULE.bazel'];
+
+/**
+ * Collects the affected packages for workspace-relative paths reported by the
+ * file watchers. A BUILD file affects its own package and the enclosing package,
+ * whose globs gain or lose the files of a created or deleted subpackage. A
+ * directory that still exists is searched for BUILD files (it was created or
+ * renamed); a path that is gone is treated as a removed package.
+ */
+export function collectChangedPackages(paths: string[], workspaceRoot: string): ChangedPackages {
+  const packages = new Set<string>();
+  let fullReload = false;
+
+  for (const relativePath of paths) {
+    const normalized = relativePath.replace(/\\/g, '/').replace(/^\.?\/+/, '').replace(/\/+$/, '');
+    const name = path.posix.basename(normalized);
+    if (REPOSITORY_FILE_NAMES.includes(name) && path.posix.dirname(normalized) === '.') {
+      fullReload = true;
+      continue;
+    }
+    if (BUILD_FILE_NAMES.includes(name)) {
+      const packageDir = parentDir(normalized);
+      packages.add(toPackageName(packageDir));
+      const enclosing = findEnclosingPackage(packageDir, workspaceRoot);
+      if (enclosing !== undefined) {
+        packages.add(toPackageName(enclosing));
+      }
+      continue;
+    }
+
+    const absolute = path.join(workspaceRoot, normalized);
+    let isDirectory = false;
+    try {
+      isDirectory = fs.statSync(absolute).isDirectory();
+    } catch {
+      // Deleted: its package (if it was one) loses its targets
+      packages.add(toPackageName(normalized));
+      continue;
+    }
+    if (isDirectory) {
+      for (const packageDir of findPackageDirs(normalized, workspaceRoot)) {
+        packages.add(toPackageName(packageDir));
+      }
+    }
+  }
+
+  return { packages: Array.from(packages).sort(), fullReload };
+}
+
+/**
+ * Workspace-relative path of a file, or undefined for files outside the workspace
+ * and in directories discovery never looks at (hidden, `bazel-*`, `node_modules`)
+ */
+export function toWatchedRelativePath(filePath: string, workspaceRoot: string): string | undefined {
+  const relative = path.relative(workspaceRoot, filePath);
+  if (relative === '' || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return undefined;
+  }
+  const parts = relative.split(path.sep);
+  if (parts.some(part => part.startsWith('.') || part === 'node_modules') || parts[0].startsWith('bazel-')) {
+    return undefined;
+  }
+  return parts.join('/');
+}
+
+function toPackageName(packageDir: string): string {
+  return `//${packageDir}`;
+}
+
+function parentDir(relativePath: string): string {
+  const dir = path.posix.dirname(relativePath);
+  return dir === '.' ? '' : dir;
+}
+
+function hasBuildFile(workspaceRoot: string, packageDir: string): boolean {
+  return BUILD_FILE_NAMES.some(name => fs.existsSync(path.join(workspaceRoot, packageDir, name)));
+}
+
+/**
+ * Nearest package above a package directory, undefined for the root package
+ */
+function findEnclosingPackage(packageDir: string, workspaceRoot: string): string | undefined {
+  let current = packageDir;
+  while (current !== '') {
+    current = parentDir(current);
+    if (hasBuildFile(workspaceRoot, current)) {
+      return current;
+    }
+  }
+  return undefined;
+}
+
+function findPackageDirs(directory: string, workspaceRoot: string): string[] {
+  const found: string[] = [];
+  const pending = [directory];
+  while (pending.length > 0) {
+    const current = pending.pop() as string;
+    let entries: fs.Dirent[];
+    try {
+      entries = fs.readdirSync(path.join(workspaceRoot, current), { withFileTypes: true });
+    } catch {
+      continue;
+    }
+    if (entries.some(entry => entry.isFile() && BUILD_FILE_NAMES.includes(entry.name))) {
+      found.push(current);
+    }
+    for (const entry of entries) {
+      if (entry.isDirectory() && !entry.name.startsWith('.') && !entry.name.startsWith('bazel-') && entry.name !== 'node_modules') {
+        pending.push(`${current}/${entry.name}`);
+      }
+    }
+  }
+  return found;
+}
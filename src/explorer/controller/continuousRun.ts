@@ -0,0 +1,151 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Continuous run - reruns the test targets affected by changed source files
+ */
+
+import * as vscode from 'vscode';
+import * as path from 'path';
+import { logWithTimestamp, formatError } from '../../logging';
+
+export interface ContinuousRunHost {
+  workspaceRoot: string;
+  debounceMs: number;
+  queryAffectedTests(files: string[], token: vscode.CancellationToken): Promise<string[]>;
+  findTestItemById(id: string): vscode.TestItem | undefined;
+  runTests(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void>;
+}
+
+/**
+ * One continuous run started from the Test Explorer. Changed files are collected,
+ * debounced, mapped to test targets via rdeps and rerun; a new batch cancels the
+ * run that is still in flight.
+ */
+export class ContinuousRunSession implements vscode.Disposable {
+  private readonly pendingFiles = new Set<string>();
+  private debounceTimer?: NodeJS.Timeout;
+  private inFlight?: vscode.CancellationTokenSource;
+  private disposed = false;
+
+  constructor(
+    private readonly request: vscode.TestRunRequest,
+    private readonly host: ContinuousRunHost
+  ) {}
+
+  notifyFileChanged(uri: vscode.Uri): void {
+    if (this.disposed) {
+      return;
+    }
+    const relative = toWorkspaceRelativePath(uri, this.host.workspaceRoot);
+    if (!relative) {
+      return;
+    }
+    this.pendingFiles.add(relative);
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = undefined;
+      void this.flush();
+    }, this.host.debounceMs);
+  }
+
+  /**
+   * Queries and reruns the targets affected by the collected files
+   */
+  async flush(): Promise<void> {
+    const files = Array.from(this.pendingFiles);
+    this.pendingFiles.clear();
+    if (files.length === 0 || this.disposed) {
+      return;
+    }
+
+    this.inFlight?.cancel();
+    const source = new vscode.CancellationTokenSource();
+    this.inFlight = source;
+
+    try {
+      const labels = await this.host.queryAffectedTests(files, source.token);
+      if (source.token.isCancellationRequested) {
+        return;
+      }
+
+      const items = labels
+        .map(label => this.host.findTestItemById(label))
+        .filter((item): item is vscode.TestItem => !!item && isInRequestScope(item, this.request));
+      if (items.length === 0) {
+        logWithTimestamp(`Continuous run: no tests in scope depend on ${files.join(', ')}`);
+        return;
+      }
+
+      logWithTimestamp(`Continuous run: rerunning ${items.length} affected target(s)`);
+      await this.host.runTests(
+        new vscode.TestRunRequest(items, this.request.exclude, this.request.profile, true),
+        source.token
+      );
+    } catch (error) {
+      if (!source.token.isCancellationRequested) {
+        logWithTimestamp(`Continuous run failed: ${formatError(error)}`, 'error');
+      }
+    } finally {
+      if (this.inFlight === source) {
+        this.inFlight = undefined;
+      }
+      source.dispose();
+    }
+  }
+
+  dispose(): void {
+    this.disposed = true;
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+      this.debounceTimer = undefined;
+    }
+    this.pendingFiles.clear();
+    this.inFlight?.cancel();
+  }
+}
+
+/**
+ * Workspace-relative path of a changed file, or undefined for files Bazel
+ * cannot map to a package (outside the workspace, convenience symlinks, dot dirs)
+ */
+export function toWorkspaceRelativePath(uri: vscode.Uri, workspaceRoot: string): string | undefined {
+  if (uri.scheme !== 'file') {
+    return undefined;
+  }
+  const relative = path.relative(workspaceRoot, uri.fsPath);
+  if (!relative || relative.startsWith('..') || path.isAbsolute(relative)) {
+    return undefined;
+  }
+  const normalized = relative.split(path.sep).join('/');
+  const [first] = normalized.split('/');
+  if (first.startsWith('bazel-') || first.startsWith('.')) {
+    return undefined;
+  }
+  return normalized;
+}
+
+/**
+ * True when the item is (below) one of the request's included items and not excluded
+ */
+export function isInRequestScope(item: vscode.TestItem, request: vscode.TestRunRequest): boolean {
+  const matches = (candidates: readonly vscode.TestItem[]) => {
+    for (let node: vscode.TestItem | undefined = item; node; node = node.parent) {
+      if (candidates.some(candidate => candidate.id === node!.id)) {
+        return true;
+      }
+    }
+    return false;
+  };
+  if (request.exclude && matches(request.exclude)) {
+    return false;
+  }
+  return !request.include || request.include.length === 0 || matches(request.include);
+}
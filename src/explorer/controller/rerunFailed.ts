@@ -0,0 +1,56 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Rerun failed tests - groups failed targets and test cases into as few Bazel invocations as possible
+ */
+
+import * as vscode from 'vscode';
+import { isShardId, parseShardId } from '../../bazel/shards';
+
+export interface RerunGroups {
+  /** Plain targets that can share one batched invocation */
+  batchTargets: vscode.TestItem[];
+  /** Items that need their own invocation (shards, test suites, sequential types) */
+  singles: vscode.TestItem[];
+  /** Failed `::` cases per target label, each group becomes one filtered run */
+  casesByTarget: Map<string, vscode.TestItem[]>;
+}
+
+/**
+ * Splits failed items into invocation groups. Cases and shards whose target
+ * failed as a whole are dropped because the target run covers them.
+ */
+export function groupRerunItems(items: vscode.TestItem[], sequentialTypes: string[] = []): RerunGroups {
+  const groups: RerunGroups = { batchTargets: [], singles: [], casesByTarget: new Map() };
+  const targetIds = new Set(items.filter(item => !item.id.includes('::') && !isShardId(item.id)).map(item => item.id));
+
+  for (const item of items) {
+    if (item.id.includes('::')) {
+      const targetId = item.id.split('::')[0];
+      if (targetIds.has(targetId)) {
+        continue;
+      }
+      const cases = groups.casesByTarget.get(targetId) ?? [];
+      cases.push(item);
+      groups.casesByTarget.set(targetId, cases);
+    } else if (targetIds.has(parseShardId(item.id)?.targetId ?? '')) {
+      continue;
+    } else if (isShardId(item.id) || needsOwnInvocation(item.label, sequentialTypes)) {
+      groups.singles.push(item);
+    } else {
+      groups.batchTargets.push(item);
+    }
+  }
+  return groups;
+}
+
+function needsOwnInvocation(label: string, sequentialTypes: string[]): boolean {
+  const testType = label.match(/\[(.+?)\]/)?.[1] ?? '';
+  return testType === 'test_suite' || sequentialTypes.includes(testType);
+}
@@ -19,15 +19,41 @@
  */
 
 import * as vscode from 'vscode';
+import * as fs from 'fs';
 import { BazelClient } from '../../bazel/client';
 import { clearDiscoveryCache } from '../../bazel/discovery';
-import { ConfigurationService } from '../../configuration';
-import { discoverAndDisplayTests, resolveTestCaseChildren } from '../tree';
+import { ConfigurationService, RunProfileSettings } from '../../configuration';
+import {
+  discoverAndDisplayTests,
+  isGeneratorGroupId,
+  rediscoverChangedPackages,
+  resolveTestCaseChildren,
+  restoreTestTreeSnapshot,
+  revalidateTestTree,
+  TestObserver
+} from '../tree';
 import { showCombinedTestPanel } from '../panel';
 import { logWithTimestamp, formatError } from '../../logging';
 import { startTest, finishTest } from '../events';
 import { TestCaseAnnotations } from '../annotations';
 import { TestCaseInsights } from '../panel';
+import { runBazelCommand } from '../../infrastructure/process';
+import {
+  buildDebugConfiguration,
+  buildJavaDebugTestArgs,
+  isJavaDebuggerListening,
+  prepareDebugTarget,
+  releaseDebugTarget,
+  resolveDebugLanguage,
+  tagDebugConfiguration,
+  trackDebugSession
+} from '../../bazel/debug';
+import { isShardId, parseShardId } from '../../bazel/shards';
+import { ContinuousRunSession, isInRequestScope } from './continuousRun';
+import { groupRerunItems } from './rerunFailed';
+import { getChangedFiles, GitChangeScope } from '../../infrastructure/git';
+import { getTestTargets, toSourceLabels } from '../../bazel/queries';
+import { collectChangedPackages, toWatchedRelativePath } from './buildFileChanges';
 
 /**
  * Manages VS Code TestController and orchestrates test discovery,
@@ -35,15 +61,22 @@ import { TestCaseInsights } from '../panel';
  */
 export class TestControllerManager {
   private controller: vscode.TestController;
+  private runProfile?: vscode.TestRunProfile;
+  private rerunFailedProfile?: vscode.TestRunProfile;
   private coverageProfile?: vscode.TestRunProfile;
+  private userRunProfiles: vscode.TestRunProfile[] = [];
   private debounceTimer?: NodeJS.Timeout;
+  private configReloadTimer?: NodeJS.Timeout;
+  private readonly pendingBuildChanges = new Set<string>();
+  private readonly continuousSessions = new Set<ContinuousRunSession>();
 
   constructor(
     private readonly bazelClient: BazelClient,
     private readonly config: ConfigurationService,
     private readonly context: vscode.ExtensionContext,
     private readonly annotations: TestCaseAnnotations,
-    private readonly insights: TestCaseInsights
+    private readonly insights: TestCaseInsights,
+    private readonly observer?: TestObserver
   ) {
     this.controller = vscode.tests.createTestController(
       'bazelUnityTestController',
@@ -59,7 +92,10 @@ export class TestControllerManager {
     this.registerResolveHandler();
     this.registerCommands();
     this.registerRunProfile();
+    this.registerRerunFailedProfile();
+    this.registerUserRunProfiles();
     this.registerCoverageProfile();
+    this.registerDebugProfile();
     this.registerFileWatcher();
     this.registerConfigListener();
   }
@@ -97,6 +133,24 @@ export class TestControllerManager {
     }
   }
 
+  /**
+   * Initial discovery: renders the discovery snapshot of the last session right away
+   * and revalidates it in the background. Resolves once the tree is rendered; the
+   * background revalidation is handed back wrapped, so awaiting the result does not
+   * wait for it. `revalidation` is undefined when a full discovery ran because no
+   * snapshot matched.
+   */
+  async discoverFromSnapshot(
+    progress?: vscode.Progress<{ message?: string; increment?: number }>
+  ): Promise<{ revalidation?: Promise<void> }> {
+    const restored = await restoreTestTreeSnapshot(this.controller, this.bazelClient);
+    if (!restored) {
+      await this.discover(progress);
+      return {};
+    }
+    return { revalidation: revalidateTestTree(this.controller, this.bazelClient, restored) };
+  }
+
   /**
    * Register commands (reload, showMetadata)
    */
@@ -124,129 +178,484 @@ export class TestControllerManager {
         }
       }),
 
+      vscode.commands.registerCommand('bazelTestExplorer.runAffectedTests', async (scope?: GitChangeScope) => {
+        try {
+          await this.runAffectedTests(scope);
+        } catch (error) {
+          const message = formatError(error);
+          vscode.window.showErrorMessage(`❌ Run affected tests failed:\n${message}`);
+          logWithTimestamp(`❌ Error in runAffectedTests:\n${message}`);
+        }
+      }),
+
+      vscode.commands.registerCommand('bazelTestExplorer.rerunFailedTests', async () => {
+        const cts = new vscode.CancellationTokenSource();
+        try {
+          await this.rerunFailedTests(undefined, cts.token);
+        } catch (error) {
+          const message = formatError(error);
+          vscode.window.showErrorMessage(`❌ Rerun failed tests failed:\n${message}`);
+          logWithTimestamp(`❌ Error in rerunFailedTests:\n${message}`);
+        } finally {
+          cts.dispose();
+        }
+      }),
+
       // legacy metadata commands removed; use 'bazelTestExplorer.showTestDetails' instead
     );
   }
 
+  /**
+   * Runs the test targets that depend on files changed in git (working tree,
+   * staged, or since the configured base ref) through the normal run profile
+   */
+  private async runAffectedTests(scope?: GitChangeScope): Promise<void> {
+    const baseRef = this.config.affectedTestsBaseRef;
+    const selected = scope ?? (await vscode.window.showQuickPick(
+      [
+        { label: 'Working tree', description: 'uncommitted and untracked changes', scope: 'workingTree' as const },
+        { label: 'Staged', description: 'changes in the index', scope: 'staged' as const },
+        { label: `Since ${baseRef}`, description: `${baseRef}...HEAD`, scope: 'baseRef' as const }
+      ],
+      { placeHolder: 'Which changes should select the tests to run?' }
+    ))?.scope;
+    if (!selected) {
+      return;
+    }
+
+    const workspaceRoot = this.bazelClient.workspace;
+    const labels = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: 'Finding affected Bazel tests...',
+        cancellable: true
+      },
+      async (progress, token) => {
+        const files = await getChangedFiles(workspaceRoot, selected, baseRef);
+        if (files.length === 0) {
+          return [];
+        }
+        const sources = toSourceLabels(files, workspaceRoot);
+        logWithTimestamp(`Affected tests: ${files.length} changed file(s), ${sources.length} in Bazel packages`);
+        if (sources.length === 0) {
+          return [];
+        }
+        progress.report({ message: `rdeps of ${sources.length} file(s)` });
+        return this.bazelClient.queryAffectedTests(sources, token);
+      }
+    );
+
+    const items = labels
+      .map(label => this.findTestItemById(label))
+      .filter((item): item is vscode.TestItem => !!item);
+    if (items.length === 0) {
+      void vscode.window.showInformationMessage('No discovered tests are affected by the changed files.');
+      return;
+    }
+    if (items.length < labels.length) {
+      logWithTimestamp(`${labels.length - items.length} affected target(s) are not in the test tree and were skipped`, 'warn');
+    }
+
+    logWithTimestamp(`Running ${items.length} affected test target(s)`);
+    const cts = new vscode.CancellationTokenSource();
+    try {
+      await this.runTests(new vscode.TestRunRequest(items, undefined, this.runProfile), cts.token);
+    } finally {
+      cts.dispose();
+    }
+  }
+
   /**
    * Register run profiles for test execution
    */
   private registerRunProfile(): void {
-    const runProfile = this.controller.createRunProfile(
+    this.runProfile = this.controller.createRunProfile(
       'Run Tests',
       vscode.TestRunProfileKind.Run,
       async (request, token) => {
-        const run = this.controller.createTestRun(request);
-        const sequentialTypes = this.config.sequentialTestTypes;
+        if (request.continuous) {
+          await this.runContinuously(request, token);
+          return;
+        }
+        await this.runTests(request, token);
+      },
+      true,
+      undefined,
+      true
+    );
 
-        const collectAllTests = (item: vscode.TestItem): vscode.TestItem[] => {
-          const collected: vscode.TestItem[] = [];
-          const visit = (node: vscode.TestItem) => {
-            // If this is a Bazel target (id has ':' but not '::'), run it as a unit
-            const isTarget = node.id.includes(':') && !node.id.includes('::');
-            if (isTarget) {
-              collected.push(node);
-              return; // do not expand to children; target run should be single Bazel invocation
-            }
+    this.context.subscriptions.push(this.runProfile);
+  }
 
-            if (node.children.size === 0) {
-              collected.push(node);
-              return;
-            }
+  /**
+   * Register one run profile per entry of `bazelTestExplorer.runProfiles` and
+   * `bazelTestExplorer.runUnderWrappers`, replacing the profiles registered before
+   */
+  private registerUserRunProfiles(): void {
+    this.userRunProfiles.forEach(profile => profile.dispose());
+    const profiles = [...this.config.runProfiles, ...this.config.runUnderWrappers];
+    this.userRunProfiles = profiles.map(settings =>
+      this.controller.createRunProfile(
+        settings.name,
+        vscode.TestRunProfileKind.Run,
+        async (request, token) => {
+          await this.runTests(request, token, settings);
+        },
+        false
+      )
+    );
+    if (this.userRunProfiles.length > 0) {
+      logWithTimestamp(`Registered run profiles: ${this.userRunProfiles.map(p => p.label).join(', ')}`);
+    }
+  }
 
-            node.children.forEach(visit);
-          };
-          visit(item);
-          return collected;
-        };
+  /**
+   * Executes a run request: targets run as single Bazel invocations (or one batch)
+   */
+  private async runTests(
+    request: vscode.TestRunRequest,
+    token: vscode.CancellationToken,
+    profile?: RunProfileSettings
+  ): Promise<void> {
+    const run = this.controller.createTestRun(request);
+    const sequentialTypes = this.config.sequentialTestTypes;
+    if (profile) {
+      run.appendOutput(`Run profile: ${profile.name}\r\n`);
+      if (profile.runUnder) {
+        run.appendOutput(`Run under: ${profile.runUnder}\r\n`);
+      }
+      logWithTimestamp(`Running tests with run profile "${profile.name}"`);
+    }
 
-        const promises: Promise<void>[] = [];
+    // Target id -> generator group it was collected from
+    const generatorGroups = new Map<string, string>();
+    const collectAllTests = (item: vscode.TestItem): vscode.TestItem[] => {
+      const collected: vscode.TestItem[] = [];
+      const visit = (node: vscode.TestItem) => {
+        // If this is a Bazel target (id has ':' but not '::'), run it as a unit
+        const isTarget = node.id.includes(':') && !node.id.includes('::');
+        if (isTarget) {
+          collected.push(node);
+          return; // do not expand to children; target run should be single Bazel invocation
+        }
 
-        // If no tests are explicitly included, run all tests from controller
-        const isGlobalRun = !request.include || request.include.length === 0;
-        const testsToRun = isGlobalRun
-          ? Array.from(this.controller.items).map(([_, item]) => item)
-          : request.include;
+        if (node.children.size === 0) {
+          collected.push(node);
+          return;
+        }
 
-        try {
-          for (const testItem of testsToRun) {
-            const allTests = collectAllTests(testItem);
-            for (const t of allTests) {
-              // Check if cancellation was requested
-              if (token.isCancellationRequested) {
-                run.skipped(t);
-                try { finishTest(t.id, 'skipped'); } catch { }
-                logWithTimestamp(`Test skipped due to cancellation request: ${t.id}`, 'info');
-                continue;
-              }
+        if (isGeneratorGroupId(node.id)) {
+          node.children.forEach(child => generatorGroups.set(child.id, node.id));
+        }
+        node.children.forEach(visit);
+      };
+      visit(item);
+      return collected;
+    };
 
-              // Enforce Bazel 'manual' tag semantics: only run when explicitly named
-              const metadata = this.bazelClient.getTargetMetadata(t.id);
-              const isManual = metadata?.tags?.includes('manual');
-              if (isGlobalRun && isManual) {
-                run.skipped(t);
-                try { finishTest(t.id, 'skipped'); } catch { }
-                logWithTimestamp(`Skipping manual target on global run: ${t.id}`, 'info');
-                continue;
-              }
+    const promises: Promise<void>[] = [];
+    const batchItems: vscode.TestItem[] = [];
+    const batchEnabled = this.config.batchTestExecution;
+    // Selected `::` cases per target, each group shares one filtered invocation
+    const caseGroups = new Map<string, vscode.TestItem[]>();
+    // Targets of one macro call, each group shares one invocation
+    const generatorBatches = new Map<string, vscode.TestItem[]>();
 
-              run.started(t);
-              try { startTest(t.id, t.label); } catch { }
-              const testTypeMatch = t.label.match(/^\[(.+?)\]/);
-              const testType = testTypeMatch?.[1];
-              const isSequential = sequentialTypes.includes(testType ?? '');
-              const promise = this.bazelClient.runTest(t, run, token);
-              if (isSequential) {
-                await promise;
-              } else {
-                promises.push(promise);
-              }
-            }
+    // If no tests are explicitly included, run all tests from controller
+    const isGlobalRun = !request.include || request.include.length === 0;
+    const testsToRun = isGlobalRun
+      ? Array.from(this.controller.items).map(([_, item]) => item)
+      : request.include;
+
+    try {
+      for (const testItem of testsToRun) {
+        const allTests = collectAllTests(testItem);
+        for (const t of allTests) {
+          // Check if cancellation was requested
+          if (token.isCancellationRequested) {
+            run.skipped(t);
+            try { finishTest(t.id, 'skipped'); } catch { }
+            logWithTimestamp(`Test skipped due to cancellation request: ${t.id}`, 'info');
+            continue;
           }
-        } finally {
-          // Use allSettled to ensure all promises are awaited even when
-          // multiple tests are cancelled simultaneously (avoids unhandled rejections)
-          const results = await Promise.allSettled(promises);
-          for (const result of results) {
-            if (result.status === 'rejected') {
-              logWithTimestamp(`Test promise rejected: ${String(result.reason)}`, 'error');
-            }
+
+          // Enforce Bazel 'manual' tag semantics: only run when explicitly named
+          const metadata = this.bazelClient.getTargetMetadata(t.id);
+          const isManual = metadata?.tags?.includes('manual');
+          if (isGlobalRun && isManual) {
+            run.skipped(t);
+            try { finishTest(t.id, 'skipped'); } catch { }
+            logWithTimestamp(`Skipping manual target on global run: ${t.id}`, 'info');
+            continue;
           }
-          run.end();
+
+          run.started(t);
+          try { startTest(t.id, t.label, profile?.name); } catch { }
+          const testTypeMatch = t.label.match(/^\[(.+?)\]/);
+          const testType = testTypeMatch?.[1];
+          const isSequential = sequentialTypes.includes(testType ?? '');
+          const isTarget = t.id.includes(':') && !t.id.includes('::') && !isShardId(t.id);
+          if (batchEnabled && isTarget && !isSequential && testType !== 'test_suite') {
+            // Collected targets share one Bazel invocation (see below)
+            batchItems.push(t);
+            continue;
+          }
+          const generatorGroup = generatorGroups.get(t.id);
+          if (generatorGroup && isTarget && !isSequential && testType !== 'test_suite') {
+            generatorBatches.set(generatorGroup, [...(generatorBatches.get(generatorGroup) ?? []), t]);
+            continue;
+          }
+          if (t.id.includes('::') && !isSequential) {
+            const targetId = t.id.split('::')[0];
+            caseGroups.set(targetId, [...(caseGroups.get(targetId) ?? []), t]);
+            continue;
+          }
+          const promise = this.bazelClient.runTest(t, run, token, profile);
+          if (isSequential) {
+            await promise;
+          } else {
+            promises.push(promise);
+          }
+        }
+      }
+
+      for (const cases of caseGroups.values()) {
+        promises.push(cases.length === 1
+          ? this.bazelClient.runTest(cases[0], run, token, profile)
+          : this.bazelClient.runTestCases(cases, run, token, profile));
+      }
+
+      for (const [group, targets] of generatorBatches) {
+        if (targets.length > 1) {
+          logWithTimestamp(`Running ${targets.length} targets of ${group} in a single Bazel invocation`);
+        }
+        promises.push(targets.length === 1
+          ? this.bazelClient.runTest(targets[0], run, token, profile)
+          : this.bazelClient.runTestsBatch(targets, run, token, profile));
+      }
+
+      if (batchItems.length === 1) {
+        promises.push(this.bazelClient.runTest(batchItems[0], run, token, profile));
+      } else if (batchItems.length > 1) {
+        logWithTimestamp(`Running ${batchItems.length} targets in a single Bazel invocation`);
+        promises.push(this.bazelClient.runTestsBatch(batchItems, run, token, profile));
+      }
+    } finally {
+      // Use allSettled to ensure all promises are awaited even when
+      // multiple tests are cancelled simultaneously (avoids unhandled rejections)
+      const results = await Promise.allSettled(promises);
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          logWithTimestamp(`Test promise rejected: ${String(result.reason)}`, 'error');
         }
+      }
+      run.end();
+    }
+  }
+
+  /**
+   * Register a run profile that reruns the tests whose latest result was a failure
+   */
+  private registerRerunFailedProfile(): void {
+    this.rerunFailedProfile = this.controller.createRunProfile(
+      'Rerun Failed Tests',
+      vscode.TestRunProfileKind.Run,
+      async (request, token) => {
+        await this.rerunFailedTests(request, token);
       },
-      true
+      false
     );
 
-    this.context.subscriptions.push(runProfile);
+    this.context.subscriptions.push(this.rerunFailedProfile);
   }
 
   /**
-   * Watch BUILD files (replaces window-focus reload)
+   * Reruns every target and `::` test case whose latest result in the history
+   * was a failure: plain targets share one batched invocation and the cases of
+   * each target share one filtered invocation.
+   */
+  private async rerunFailedTests(request: vscode.TestRunRequest | undefined, token: vscode.CancellationToken): Promise<void> {
+    const failedIds = this.observer?.getLatestFailedIds() ?? [];
+    const items = failedIds
+      .map(id => this.findTestItemById(id))
+      .filter((item): item is vscode.TestItem => !!item && (!request || isInRequestScope(item, request)));
+    if (items.length === 0) {
+      void vscode.window.showInformationMessage('No failed tests to rerun.');
+      return;
+    }
+
+    const groups = groupRerunItems(items, this.config.sequentialTestTypes);
+    const runItems = [
+      ...groups.batchTargets,
+      ...groups.singles,
+      ...Array.from(groups.casesByTarget.values()).flat()
+    ];
+    logWithTimestamp(
+      `Rerunning ${runItems.length} failed test(s): ${groups.batchTargets.length} batched target(s), ` +
+      `${groups.singles.length} single run(s), ${groups.casesByTarget.size} filtered case run(s)`
+    );
+
+    const run = this.controller.createTestRun(new vscode.TestRunRequest(runItems, undefined, this.rerunFailedProfile));
+    const promises: Promise<void>[] = [];
+    try {
+      for (const item of runItems) {
+        run.started(item);
+        try { startTest(item.id, item.label); } catch { }
+      }
+
+      if (groups.batchTargets.length === 1) {
+        promises.push(this.bazelClient.runTest(groups.batchTargets[0], run, token));
+      } else if (groups.batchTargets.length > 1) {
+        promises.push(this.bazelClient.runTestsBatch(groups.batchTargets, run, token));
+      }
+      for (const cases of groups.casesByTarget.values()) {
+        promises.push(this.bazelClient.runTestCases(cases, run, token));
+      }
+      for (const item of groups.singles) {
+        // Sequential types and suites run one after another
+        await this.bazelClient.runTest(item, run, token);
+      }
+    } finally {
+      const results = await Promise.allSettled(promises);
+      for (const result of results) {
+        if (result.status === 'rejected') {
+          logWithTimestamp(`Test promise rejected in rerunFailedTests: ${String(result.reason)}`, 'error');
+        }
+      }
+      run.end();
+    }
+  }
+
+  /**
+   * Continuous run: stays active until the user stops it; every batch of file
+   * changes reruns the affected targets within the request's scope.
+   */
+  private async runContinuously(request: vscode.TestRunRequest, token: vscode.CancellationToken): Promise<void> {
+    const session = new ContinuousRunSession(request, {
+      workspaceRoot: this.bazelClient.workspace,
+      debounceMs: this.config.continuousRunDebounceMs,
+      queryAffectedTests: (files, queryToken) => this.bazelClient.queryAffectedTests(files, queryToken),
+      findTestItemById: (id) => this.findTestItemById(id),
+      runTests: (runRequest, runToken) => this.runTests(runRequest, runToken)
+    });
+    this.continuousSessions.add(session);
+    logWithTimestamp('Continuous run started; waiting for file changes');
+
+    await new Promise<void>(resolve => {
+      if (token.isCancellationRequested) {
+        resolve();
+        return;
+      }
+      token.onCancellationRequested(() => resolve());
+    });
+
+    this.continuousSessions.delete(session);
+    session.dispose();
+    logWithTimestamp('Continuous run stopped');
+  }
+
+  /**
+   * Watch BUILD files (replaces window-focus reload) and, while a continuous
+   * run is active, source files
    */
   private registerFileWatcher(): void {
     const watcher = vscode.workspace.createFileSystemWatcher(
       '**/{BUILD,BUILD.bazel,WORKSPACE,WORKSPACE.bazel,MODULE.bazel}'
     );
 
-    const debouncedReload = () => {
-      if (this.debounceTimer) {
-        clearTimeout(this.debounceTimer);
-      }
-      this.debounceTimer = setTimeout(() => {
-        // Invalidate cache on BUILD changes
-        this.bazelClient.clearCache();
-        clearDiscoveryCache();
-        logWithTimestamp('BUILD files changed, cache invalidated. Reloading tests...');
-        vscode.commands.executeCommand('extension.reloadBazelTests');
-      }, 2000);
+    const onBuildFileChanged = (uri: vscode.Uri) => this.queueBuildChange(uri);
+
+    watcher.onDidChange(onBuildFileChanged);
+    watcher.onDidCreate(onBuildFileChanged);
+    watcher.onDidDelete(onBuildFileChanged);
+
+    const sourceWatcher = vscode.workspace.createFileSystemWatcher('**/*');
+    const notifyContinuousRuns = (uri: vscode.Uri) => {
+      this.continuousSessions.forEach(session => session.notifyFileChanged(uri));
     };
+    sourceWatcher.onDidChange(notifyContinuousRuns);
+    sourceWatcher.onDidCreate(notifyContinuousRuns);
+    // Directories created, deleted or renamed with their BUILD files do not match the BUILD glob
+    sourceWatcher.onDidCreate(uri => {
+      if (toWatchedRelativePath(uri.fsPath, this.bazelClient.workspace) === undefined) {
+        return;
+      }
+      fs.promises.stat(uri.fsPath).then(stats => {
+        if (stats.isDirectory()) {
+          this.queueBuildChange(uri);
+        }
+      }, () => {
+        // Already gone again
+      });
+    });
+    sourceWatcher.onDidDelete(uri => {
+      const relative = toWatchedRelativePath(uri.fsPath, this.bazelClient.workspace);
+      const containsPackage = relative !== undefined && getTestTargets().some(target => {
+        const packageDir = target.target.split(':')[0].replace(/^\/\//, '');
+        return packageDir === relative || packageDir.startsWith(`${relative}/`);
+      });
+      if (containsPackage) {
+        this.queueBuildChange(uri);
+      }
+    });
+
+    this.context.subscriptions.push(watcher, sourceWatcher);
+  }
+
+  /**
+   * Collects a changed BUILD file or directory and re-discovers the affected
+   * packages once the changes settle
+   */
+  private queueBuildChange(uri: vscode.Uri): void {
+    const relative = toWatchedRelativePath(uri.fsPath, this.bazelClient.workspace);
+    if (relative === undefined) {
+      return;
+    }
+    this.pendingBuildChanges.add(relative);
+    if (this.debounceTimer) {
+      clearTimeout(this.debounceTimer);
+    }
+    this.debounceTimer = setTimeout(() => {
+      this.debounceTimer = undefined;
+      void this.flushBuildChanges();
+    }, 2000);
+  }
+
+  /**
+   * Re-queries only the changed packages; WORKSPACE/MODULE changes and failed
+   * package queries reload all tests
+   */
+  private async flushBuildChanges(): Promise<void> {
+    const paths = Array.from(this.pendingBuildChanges);
+    this.pendingBuildChanges.clear();
+    if (paths.length === 0) {
+      return;
+    }
 
-    watcher.onDidChange(debouncedReload);
-    watcher.onDidCreate(debouncedReload);
-    watcher.onDidDelete(debouncedReload);
+    clearDiscoveryCache();
+    const { packages, fullReload } = collectChangedPackages(paths, this.bazelClient.workspace);
+    if (fullReload) {
+      this.bazelClient.clearCache();
+      logWithTimestamp('WORKSPACE or MODULE files changed, cache invalidated. Reloading tests...');
+      await vscode.commands.executeCommand('extension.reloadBazelTests');
+      return;
+    }
 
-    this.context.subscriptions.push(watcher);
+    try {
+      const updated = await rediscoverChangedPackages(this.controller, this.bazelClient, packages);
+      if (!updated) {
+        // Another discovery is running; retry once it is done
+        paths.forEach(relative => this.pendingBuildChanges.add(relative));
+        this.debounceTimer = setTimeout(() => {
+          this.debounceTimer = undefined;
+          void this.flushBuildChanges();
+        }, 2000);
+      }
+    } catch (error) {
+      logWithTimestamp(`Re-querying changed packages failed, reloading all tests: ${formatError(error)}`, 'warn');
+      this.bazelClient.clearCache();
+      await vscode.commands.executeCommand('extension.reloadBazelTests');
+    }
   }
 
   /**
@@ -255,28 +664,46 @@ export class TestControllerManager {
   private registerConfigListener(): void {
     this.context.subscriptions.push(
       vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration('bazelTestExplorer.runProfiles')
+          || e.affectsConfiguration('bazelTestExplorer.runUnderWrappers')) {
+          this.registerUserRunProfiles();
+        }
         if (e.affectsConfiguration('bazelTestExplorer')) {
-          logWithTimestamp('Configuration changed. Reloading tests...');
-          clearDiscoveryCache();
-          void vscode.window.withProgress(
-            {
-              location: vscode.ProgressLocation.Window,
-              title: 'Bazel Test Explorer',
-              cancellable: false
-            },
-            async (progress) => {
-              await this.discover(progress);
-            }
-          ).then(undefined, (error: unknown) => {
-            const message = formatError(error);
-            vscode.window.showErrorMessage(`❌ Reload failed:\n${message}`);
-            logWithTimestamp(`❌ Error in configuration-triggered reload:\n${message}`);
-          });
+          // Settings written together (e.g. both maps of an environment scope) reload once
+          if (this.configReloadTimer) {
+            clearTimeout(this.configReloadTimer);
+          }
+          this.configReloadTimer = setTimeout(() => {
+            this.configReloadTimer = undefined;
+            this.reloadAfterConfigurationChange();
+          }, 300);
         }
       })
     );
   }
 
+  /**
+   * Re-discover all tests with the changed settings
+   */
+  private reloadAfterConfigurationChange(): void {
+    logWithTimestamp('Configuration changed. Reloading tests...');
+    clearDiscoveryCache();
+    void vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Window,
+        title: 'Bazel Test Explorer',
+        cancellable: false
+      },
+      async (progress) => {
+        await this.discover(progress);
+      }
+    ).then(undefined, (error: unknown) => {
+      const message = formatError(error);
+      vscode.window.showErrorMessage(`❌ Reload failed:\n${message}`);
+      logWithTimestamp(`❌ Error in configuration-triggered reload:\n${message}`);
+    });
+  }
+
   private registerCoverageProfile(): void {
     this.coverageProfile = this.controller.createRunProfile(
       'Bazel Coverage',
@@ -286,6 +713,10 @@ export class TestControllerManager {
           const collected: vscode.TestItem[] = [];
           const isTargetId = (id: string): boolean => id.includes(':') && !id.includes('::');
           const resolveTargetFromCaseId = (id: string): vscode.TestItem | undefined => {
+            const shard = parseShardId(id);
+            if (shard) {
+              return this.findTestItemById(shard.targetId);
+            }
             if (!id.includes('::')) {
               return undefined;
             }
@@ -294,12 +725,12 @@ export class TestControllerManager {
           };
 
           const visit = (node: vscode.TestItem) => {
-            if (isTargetId(node.id)) {
+            const mappedTarget = resolveTargetFromCaseId(node.id);
+            if (isTargetId(node.id) && !mappedTarget) {
               collected.push(node);
               return;
             }
 
-            const mappedTarget = resolveTargetFromCaseId(node.id);
             if (mappedTarget) {
               collected.push(mappedTarget);
               return;
@@ -341,6 +772,157 @@ export class TestControllerManager {
     this.coverageProfile.isDefault = false;
   }
 
+  /**
+   * Register debug profile: builds the target and launches it under a debugger
+   */
+  private registerDebugProfile(): void {
+    const debugProfile = this.controller.createRunProfile(
+      'Debug Tests',
+      vscode.TestRunProfileKind.Debug,
+      async (request, token) => {
+        const items = request.include ?? [];
+        if (items.length === 0) {
+          void vscode.window.showInformationMessage('Select a test target or test case to debug.');
+          return;
+        }
+
+        const run = this.controller.createTestRun(request);
+        try {
+          // Debug sessions are started one after another
+          for (const item of items) {
+            if (token.isCancellationRequested) {
+              run.skipped(item);
+              continue;
+            }
+            await this.debugTestItem(item, run, token);
+          }
+        } finally {
+          run.end();
+        }
+      },
+      true
+    );
+
+    this.context.subscriptions.push(debugProfile);
+  }
+
+  private async debugTestItem(
+    item: vscode.TestItem,
+    run: vscode.TestRun,
+    token: vscode.CancellationToken
+  ): Promise<void> {
+    const [itemTargetId, ...caseParts] = item.id.split('::');
+    const testCaseName = caseParts.length > 0 ? caseParts.join('::') : undefined;
+    const shard = parseShardId(itemTargetId);
+    const targetId = shard?.targetId ?? itemTargetId;
+    if (!targetId.includes(':')) {
+      run.skipped(item);
+      logWithTimestamp(`Debugging is only supported for test targets and test cases: ${item.id}`, 'warn');
+      return;
+    }
+
+    const metadata = this.bazelClient.getTargetMetadata(targetId);
+    const testType = item.label.match(/^\[(.+?)\]/)?.[1];
+    const language = resolveDebugLanguage(metadata, testType);
+    if (!language) {
+      run.errored(item, new vscode.TestMessage(`Debugging ${testType ?? 'this test type'} targets is not supported.`));
+      return;
+    }
+
+    run.started(item);
+    const appendOutput = (line: string) => run.appendOutput(line.replace(/\r?\n/g, '\r\n') + '\r\n', undefined, item);
+    const workspaceRoot = this.bazelClient.workspace;
+    const folder = vscode.workspace.getWorkspaceFolder(vscode.Uri.file(workspaceRoot));
+
+    try {
+      if (language === 'java') {
+        await this.debugJavaTest(item, run, targetId, testCaseName, folder, token, appendOutput);
+        return;
+      }
+
+      const prepared = await prepareDebugTarget(targetId, workspaceRoot, this.config, token, appendOutput);
+      let session: ReturnType<typeof trackDebugSession> | undefined;
+      try {
+        if (shard) {
+          prepared.env.TEST_TOTAL_SHARDS = String(shard.total);
+          prepared.env.TEST_SHARD_INDEX = String(shard.index - 1);
+        }
+        const debugConfig = buildDebugConfiguration(language, prepared, workspaceRoot, this.config, metadata, testCaseName);
+        session = trackDebugSession(tagDebugConfiguration(debugConfig), token);
+        const started = await vscode.debug.startDebugging(folder, debugConfig, { testRun: run });
+        if (!started) {
+          run.errored(item, new vscode.TestMessage(`Could not start ${debugConfig.type} debugger for ${item.id}. Is the debugger extension installed?`));
+          return;
+        }
+        const { exitCode, cancelled } = await session.ended;
+        appendOutput(`Debug session ended: ${item.id}${exitCode !== undefined ? ` (exit code ${exitCode})` : ''}`);
+        if (cancelled || exitCode === undefined) {
+          run.skipped(item);
+        } else if (exitCode === 0) {
+          run.passed(item);
+        } else {
+          run.failed(item, new vscode.TestMessage(`Test exited with code ${exitCode} under the debugger`));
+        }
+      } finally {
+        session?.dispose();
+        await releaseDebugTarget(prepared);
+      }
+    } catch (error) {
+      if (token.isCancellationRequested) {
+        run.skipped(item);
+        return;
+      }
+      const message = formatError(error);
+      logWithTimestamp(`Debugging ${item.id} failed: ${message}`, 'error');
+      run.errored(item, new vscode.TestMessage(message));
+    }
+  }
+
+  /**
+   * Java tests run via `bazel test --java_debug`; the debugger attaches once the JVM listens
+   */
+  private async debugJavaTest(
+    item: vscode.TestItem,
+    run: vscode.TestRun,
+    targetId: string,
+    testCaseName: string | undefined,
+    folder: vscode.WorkspaceFolder | undefined,
+    token: vscode.CancellationToken,
+    appendOutput: (line: string) => void
+  ): Promise<void> {
+    const attachConfig = buildDebugConfiguration(
+      'java',
+      { targetLabel: targetId, binary: '', runfilesDir: '', workspaceName: '', env: {} },
+      this.bazelClient.workspace,
+      this.config,
+      undefined,
+      testCaseName
+    );
+    let attached = false;
+    const onLine = (line: string) => {
+      appendOutput(line);
+      if (!attached && isJavaDebuggerListening(line)) {
+        attached = true;
+        void vscode.debug.startDebugging(folder, attachConfig, { testRun: run });
+      }
+    };
+
+    const { code } = await runBazelCommand(
+      buildJavaDebugTestArgs(this.config, targetId, testCaseName),
+      this.bazelClient.workspace,
+      onLine,
+      onLine,
+      this.config.bazelPath,
+      undefined,
+      token
+    );
+    if (code === 0) {
+      run.passed(item);
+    } else {
+      run.failed(item, new vscode.TestMessage(`bazel test --java_debug exited with code ${code}`));
+    }
+  }
+
   publishCoverage(
     targetId: string,
     coverages: vscode.FileCoverage[],
@@ -447,10 +1029,17 @@ export class TestControllerManager {
    * Cleanup
    */
   dispose(): void {
+    this.continuousSessions.forEach(session => session.dispose());
+    this.continuousSessions.clear();
+    this.userRunProfiles.forEach(profile => profile.dispose());
+    this.userRunProfiles = [];
     this.controller.dispose();
     if (this.debounceTimer) {
       clearTimeout(this.debounceTimer);
     }
+    if (this.configReloadTimer) {
+      clearTimeout(this.configReloadTimer);
+    }
   }
 
   /**
@@ -470,7 +1059,9 @@ export class TestControllerManager {
     const collectAllTests = (item: vscode.TestItem): vscode.TestItem[] => {
       const collected: vscode.TestItem[] = [];
       const visit = (node: vscode.TestItem) => {
-        if (node.children.size === 0) {collected.push(node);}
+        // Shard children are reported by their target's run
+        const onlyShards = Array.from(node.children).every(([childId]) => isShardId(childId));
+        if (node.children.size === 0 || onlyShards) {collected.push(node);}
         else {node.children.forEach(visit);}
       };
       visit(item);
@@ -12,7 +12,7 @@
 
 import * as vscode from 'vscode';
 
-export type TestStatus = 'started' | 'passed' | 'failed' | 'skipped' | 'output';
+export type TestStatus = 'started' | 'passed' | 'failed' | 'skipped' | 'flaky' | 'output';
 
 export interface TestEvent {
   type: TestStatus;
@@ -21,25 +21,35 @@ export interface TestEvent {
   durationMs?: number;
   // accept either plain string or MarkdownString from VS Code APIs
   message?: string | vscode.MarkdownString;
+  // name of the user-defined run profile the test ran with
+  profile?: string;
   timestamp: number;
 }
 
 const emitter = new vscode.EventEmitter<TestEvent>();
 const startTimes = new Map<string, number>();
+const runProfiles = new Map<string, string>();
 
 export const onDidTestEvent = emitter.event;
 
-export function startTest(testId: string, label?: string) {
+export function startTest(testId: string, label?: string, profile?: string) {
   startTimes.set(testId, Date.now());
-  emitter.fire({ type: 'started', testId, label, timestamp: Date.now() });
+  if (profile) {
+    runProfiles.set(testId, profile);
+  } else {
+    runProfiles.delete(testId);
+  }
+  emitter.fire({ type: 'started', testId, label, profile, timestamp: Date.now() });
 }
 
 export function finishTest(testId: string, status: Exclude<TestStatus, 'started' | 'output'>, message?: string | vscode.MarkdownString) {
   const now = Date.now();
   const started = startTimes.get(testId) ?? now;
   const duration = Math.max(0, now - started);
+  const profile = runProfiles.get(testId);
   startTimes.delete(testId);
-  emitter.fire({ type: status, testId, durationMs: duration, message, timestamp: now });
+  runProfiles.delete(testId);
+  emitter.fire({ type: status, testId, durationMs: duration, message, profile, timestamp: now });
 }
 
 export function publishOutput(testId: string, output: string) {
@@ -48,6 +58,7 @@ export function publishOutput(testId: string, output: string) {
 
 export function clearStartTime(testId: string) {
   startTimes.delete(testId);
+  runProfiles.delete(testId);
 }
 
 /**
@@ -56,6 +67,7 @@ export function clearStartTime(testId: string) {
  */
 export function disposeEventBus(): void {
   startTimes.clear();
+  runProfiles.clear();
   emitter.dispose();
 }
 
@@ -19,12 +19,14 @@ import { TestCaseInsights } from './insights';
 import { IndividualTestCase } from '../../bazel/types';
 import { getBazelTestLogsDirectory, buildTestXmlPath, hasTestXmlFile } from '../../bazel/testlogs';
 import { getCoverageSummary } from '../../coverage';
+import { getRecordedTestAttempts } from '../../bazel/testAttempts';
+import { ResolvedTestEnvironment } from '../../bazel/testEnvironment';
 
 let panel: vscode.WebviewPanel | undefined;
 let pinned = false;
 let currentId: string | undefined;
 let debounceTimer: NodeJS.Timeout | undefined;
-let pendingArgs: { testId: string; metadata: any; cases: any; workspaceRoot?: string } | undefined;
+let pendingArgs: { testId: string; metadata: any; cases: any; workspaceRoot?: string; environment?: ResolvedTestEnvironment } | undefined;
 const DEBOUNCE_MS = 300;
 
 export async function showCombinedTestPanel(testId: string, bazelClient: BazelClient, insights: TestCaseInsights, extensionContext?: vscode.ExtensionContext): Promise<void> {
@@ -94,7 +96,11 @@ export async function showCombinedTestPanel(testId: string, bazelClient: BazelCl
         const targetDir = path.dirname(xmlPath);
         try {
           const items = fs.existsSync(targetDir) ? fs.readdirSync(targetDir) : [];
-          const files = items.filter(f => f !== 'test.xml').slice(0, 10);
+          const attemptsDir = path.join(targetDir, 'test_attempts');
+          const attemptFiles = fs.existsSync(attemptsDir)
+            ? fs.readdirSync(attemptsDir).filter(f => f.endsWith('.log')).map(f => path.join('test_attempts', f))
+            : [];
+          const files = [...items.filter(f => f !== 'test.xml'), ...attemptFiles].slice(0, 10);
           const contents: { name: string; content: string }[] = [];
           for (const fname of files) {
             try {
@@ -164,7 +170,7 @@ export async function showCombinedTestPanel(testId: string, bazelClient: BazelCl
     return;
   }
 
-  pendingArgs = { testId, metadata, cases, workspaceRoot };
+  pendingArgs = { testId, metadata, cases, workspaceRoot, environment: bazelClient.getTestEnvironment(testId) };
   if (debounceTimer) {clearTimeout(debounceTimer);}
   debounceTimer = setTimeout(() => {
     if (!panel || !pendingArgs) {return;}
@@ -176,7 +182,8 @@ export async function showCombinedTestPanel(testId: string, bazelClient: BazelCl
       pendingArgs.cases?.summary,
       extensionContext,
       panel,
-      pendingArgs.workspaceRoot
+      pendingArgs.workspaceRoot,
+      pendingArgs.environment
     );
     pendingArgs = undefined;
     debounceTimer = undefined;
@@ -188,7 +195,8 @@ function renderHtml(
   metadata: any,
   testCases: IndividualTestCase[],
   summary?: { total: number; passed: number; failed: number; ignored: number }
-  , extensionContext?: vscode.ExtensionContext, panel?: vscode.WebviewPanel, workspaceRoot?: string
+  , extensionContext?: vscode.ExtensionContext, panel?: vscode.WebviewPanel, workspaceRoot?: string,
+  environment?: ResolvedTestEnvironment
 ): string {
   const escapeHtml = (input: string | undefined) => (input ?? '')
     .replace(/&/g, '&amp;')
@@ -238,10 +246,55 @@ function renderHtml(
         <li><b>Dependencies:</b> ${Array.isArray(metadata.deps) ? escapeHtml(metadata.deps.join(', ')) : escapeHtml(metadata.deps)}</li>
         <li><b>Sources:</b> ${Array.isArray(metadata.srcs) ? escapeHtml(metadata.srcs.join(', ')) : escapeHtml(metadata.srcs)}</li>
         <li><b>Location:</b> ${escapeHtml(metadata.location)}</li>
+        ${metadata.configuration ? `<li><b>Configuration:</b> ${escapeHtml(metadata.configuration)} (cquery)</li>` : ''}
+        ${metadata.generator_name ? `<li><b>Generator:</b> ${escapeHtml(metadata.generator_function ?? 'macro')}(name = "${escapeHtml(metadata.generator_name)}")${metadata.generator_location ? ` at ${escapeHtml(metadata.generator_location)}` : ''}</li>` : ''}
       </ul>
     `
     : '<i>No Bazel metadata cached for this target.</i>';
 
+  const attempts = getRecordedTestAttempts(testId) ?? [];
+  const attemptsSection = attempts.length > 0
+    ? `
+      <table>
+        <thead>
+          <tr><th>Attempt</th><th>Status</th><th>Duration</th><th>Failed cases</th><th>Log</th></tr>
+        </thead>
+        <tbody>
+          ${attempts.map(a => `
+            <tr>
+              <td>${a.attempt}/${attempts.length}</td>
+              <td class="status ${a.status === 'PASSED' ? 'pass' : a.status === 'TIMEOUT' ? 'timeout' : 'fail'}">${escapeHtml(a.status)}</td>
+              <td>${a.durationMs !== undefined ? `${(a.durationMs / 1000).toFixed(1)}s` : ''}</td>
+              <td>${escapeHtml(a.failedCases.map(tc => tc.name).join(', '))}</td>
+              <td>${escapeHtml(a.logPath ? path.basename(a.logPath) : '')}</td>
+            </tr>
+          `).join('')}
+        </tbody>
+      </table>
+    `
+    : '';
+
+  const environmentRows = environment
+    ? [
+        ...Array.from(environment.env.entries()).map(([name, { value, scope }]) =>
+          `<tr><td>--test_env</td><td>${escapeHtml(`${name}=${value}`)}</td><td>${escapeHtml(scope)}</td></tr>`),
+        ...environment.args.map(({ value, scope }) =>
+          `<tr><td>--test_arg</td><td>${escapeHtml(value)}</td><td>${escapeHtml(scope)}</td></tr>`)
+      ].join('')
+    : '';
+  const environmentSection = environmentRows
+    ? `
+      <table>
+        <thead>
+          <tr><th>Flag</th><th>Value</th><th>Scope</th></tr>
+        </thead>
+        <tbody>
+          ${environmentRows}
+        </tbody>
+      </table>
+    `
+    : `<i>No test environment or arguments configured for this target.</i>`;
+
   const summarySection = summary
     ? `<p>Total: ${summary.total}, Passed: ${summary.passed}, Failed: ${summary.failed}, Skipped: ${summary.ignored}</p>`
     : `<i>No structured test.xml data captured yet.</i>`;
@@ -372,6 +425,7 @@ function renderHtml(
             ${metadataList}
             <h3>Structured summary</h3>
             ${summarySection}
+            ${attemptsSection ? `<h3>Attempts</h3>${attemptsSection}` : ''}
           </div>
 
           <div id="details" style="display:none">
@@ -384,6 +438,8 @@ function renderHtml(
                 ${casesRows}
               </tbody>
             </table>
+            <h3>Test environment</h3>
+            ${environmentSection}
           </div>
 
           <div id="coverage" style="display:none">
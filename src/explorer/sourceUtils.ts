@@ -240,3 +240,67 @@ export function toAbsolutePath(filePath: string, workspacePath: string): string
   if (path.isAbsolute(filePath)) {return filePath;}
   return path.join(workspacePath, filePath);
 }
+
+/**
+ * Strips the execroot, sandbox, runfiles or `/proc/self/cwd` prefix Bazel puts in
+ * front of workspace files and resolves the rest against the workspace
+ */
+export function stripBazelPathPrefix(file: string, workspacePath: string): string {
+  const normalized = path.normalize(file.trim());
+  const segments = normalized.split(path.sep).filter(segment => segment.length > 0);
+  const mainIndex = segments.lastIndexOf('_main');
+  const execrootIndex = segments.lastIndexOf('execroot');
+  const runfilesIndex = segments.findIndex(segment => segment.endsWith('.runfiles'));
+  // clang toolchains map the execroot to /proc/self/cwd in debug info
+  const procCwd = segments[0] === 'proc' && segments[1] === 'self' && segments[2] === 'cwd';
+
+  if (mainIndex !== -1 && mainIndex < segments.length - 1) {
+    return path.join(workspacePath, ...segments.slice(mainIndex + 1));
+  }
+  if (execrootIndex !== -1 && execrootIndex < segments.length - 2) {
+    return path.join(workspacePath, ...segments.slice(execrootIndex + 2));
+  }
+  if (runfilesIndex !== -1 && runfilesIndex < segments.length - 2) {
+    return path.join(workspacePath, ...segments.slice(runfilesIndex + 2));
+  }
+  if (procCwd && path.isAbsolute(normalized)) {
+    return path.join(workspacePath, ...segments.slice(3));
+  }
+  return toAbsolutePath(normalized, workspacePath);
+}
+
+/**
+ * Maps a file path printed by a test (execroot, sandbox or runfiles path,
+ * workspace-relative path or bare file name) to an existing workspace file.
+ * Paths outside the workspace (system headers, external repositories) yield undefined.
+ */
+export function resolveWorkspaceSourcePath(
+  file: string,
+  workspacePath: string,
+  packagePath?: string
+): string | undefined {
+  const normalized = path.normalize(file.trim());
+  if (!normalized || normalized === '.') {return undefined;}
+
+  const candidates: string[] = [];
+  // a bare file name is most likely a source of the test's own package
+  if (packagePath && !path.isAbsolute(normalized) && !normalized.includes(path.sep)) {
+    candidates.push(path.join(workspacePath, packagePath, normalized));
+  }
+  candidates.push(stripBazelPathPrefix(normalized, workspacePath));
+
+  return candidates.find(candidate => {
+    const relative = path.relative(workspacePath, candidate);
+    const inside = relative.length > 0 && !relative.startsWith('..') && !path.isAbsolute(relative);
+    return inside && !relative.split(path.sep).some(segment => segment.startsWith('bazel-') || segment === 'external')
+      && fs.existsSync(candidate);
+  });
+}
+
+/**
+ * Workspace-relative package directory of a target, shard or case ID
+ * (`//pkg/sub:name::case` -> `pkg/sub`, `@repo//pkg:name` -> `pkg`)
+ */
+export function getPackagePath(targetId: string): string {
+  return targetId.replace(/^@[^/]*/, '').replace(/^\/\//, '').split(':')[0];
+}
@@ -25,9 +25,11 @@ export class TestHistoryProvider implements vscode.TreeDataProvider<TestHistoryE
   getTreeItem(element: TestHistoryEntry): vscode.TreeItem {
     const label = `${element.testId}`;
     const item = new vscode.TreeItem(label, vscode.TreeItemCollapsibleState.None);
-    item.description = element.durationMs ? `${element.durationMs} ms — ${element.type}` : element.type;
+    const status = element.profile ? `${element.type} (${element.profile})` : element.type;
+    item.description = element.durationMs ? `${element.durationMs} ms — ${status}` : status;
     const detail = typeof element.message === 'string' ? element.message : (element.message?.value ?? '');
-    item.tooltip = `Status: ${element.type}\n${element.durationMs ?? '-'} ms\n\n${detail}`;
+    const profileLine = element.profile ? `Profile: ${element.profile}\n` : '';
+    item.tooltip = `Status: ${element.type}\n${profileLine}${element.durationMs ?? '-'} ms\n\n${detail}`;
     item.contextValue = element.type;
     // allow clicking the tree item to open details and offer rerun
     item.command = {
@@ -12,6 +12,7 @@
 
 import * as vscode from 'vscode';
 import { ConfigurationService } from '../configuration';
+import { getTestKindSummaries, onDidChangeTestKinds } from '../bazel/testKinds';
 
 export class TestSettingsView implements vscode.WebviewViewProvider {
   public static readonly viewType = 'bazelTestExplorer.settingsView';
@@ -31,17 +32,7 @@ export class TestSettingsView implements vscode.WebviewViewProvider {
       const workspaceConfig = vscode.workspace.getConfiguration('bazelTestExplorer');
       switch (msg.command) {
         case 'getSettings': {
-          webviewView.webview.postMessage({
-            command: 'settings',
-            payload: {
-                  enableTestCaseDiscovery: this.config.enableTestCaseDiscovery,
-                  runsPerTest: this.config.runsPerTest,
-                  runsPerTestDetectsFlakes: this.config.runsPerTestDetectsFlakes,
-                  nocacheTestResults: this.config.nocacheTestResults,
-                  buildTestsOnly: this.config.buildTestsOnly,
-                  testStrategyExclusive: this.config.testStrategyExclusive
-            }
-          });
+          webviewView.webview.postMessage({ command: 'settings', payload: this.getSettingsPayload() });
           break;
         }
         case 'setSetting': {
@@ -59,32 +50,43 @@ export class TestSettingsView implements vscode.WebviewViewProvider {
     });
 
     // react to external configuration changes
-    const configDisposable = this.config.onDidChangeConfiguration(() => {
+    const postSettings = () => {
       // guard: only post when webview is available
       try {
-        webviewView.webview.postMessage({
-          command: 'settings',
-          payload: {
-            enableTestCaseDiscovery: this.config.enableTestCaseDiscovery,
-            runsPerTest: this.config.runsPerTest,
-            runsPerTestDetectsFlakes: this.config.runsPerTestDetectsFlakes,
-            nocacheTestResults: this.config.nocacheTestResults,
-            buildTestsOnly: this.config.buildTestsOnly,
-            testStrategyExclusive: this.config.testStrategyExclusive
-          }
-        });
+        webviewView.webview.postMessage({ command: 'settings', payload: this.getSettingsPayload() });
       } catch (e) {
         // ignore if webview is gone
       }
-    });
+    };
+    const configDisposable = this.config.onDidChangeConfiguration(postSettings);
+    // discovery found other rule kinds
+    const kindsDisposable = onDidChangeTestKinds(postSettings);
 
     // Tie disposables to the lifecycle of the view to avoid leaking listeners
     webviewView.onDidDispose(() => {
       try { messageDisposable.dispose(); } catch (e) {}
       try { configDisposable.dispose(); } catch (e) {}
+      try { kindsDisposable.dispose(); } catch (e) {}
     });
   }
 
+  private getSettingsPayload() {
+    return {
+      enableTestCaseDiscovery: this.config.enableTestCaseDiscovery,
+      runsPerTest: this.config.runsPerTest,
+      runsPerTestDetectsFlakes: this.config.runsPerTestDetectsFlakes,
+      nocacheTestResults: this.config.nocacheTestResults,
+      buildTestsOnly: this.config.buildTestsOnly,
+      batchTestExecution: this.config.batchTestExecution,
+      testStrategyExclusive: this.config.testStrategyExclusive,
+      testEnvByScope: this.config.testEnvByScope,
+      testArgByScope: this.config.testArgByScope,
+      autoDetectTestKinds: this.config.autoDetectTestKinds,
+      excludedTestKinds: this.config.excludedTestKinds,
+      testKinds: getTestKindSummaries(this.config.excludedTestKinds)
+    };
+  }
+
   private getHtmlForWebview(webview: vscode.Webview): string {
     const nonce = Date.now().toString(36);
     return `<!doctype html>
@@ -98,6 +100,8 @@ export class TestSettingsView implements vscode.WebviewViewProvider {
       label { display:block; margin: 8px 0; }
       fieldset { margin-top:12px; padding:8px; border-radius:6px; background:var(--vscode-inputBackground); }
       fieldset legend { font-weight:600; }
+      .kind-details { opacity: 0.7; }
+      textarea { width:100%; box-sizing:border-box; font-family: var(--vscode-editor-font-family); }
     </style>
     <title>Bazel Test Settings</title>
   </head>
@@ -107,11 +111,18 @@ export class TestSettingsView implements vscode.WebviewViewProvider {
       <label><input id="enableTestCaseDiscovery" type="checkbox"/> Enable test-cases in target</label>
     </fieldset>
 
+    <fieldset>
+      <legend>Test Kinds</legend>
+      <label><input id="autoDetectTestKinds" type="checkbox"/> Detect all <code>*_test</code> rule kinds</label>
+      <div id="testKinds"></div>
+    </fieldset>
+
     <fieldset>
       <legend>Execution</legend>
       <label><input id="nocacheTestResults" type="checkbox"/> Run tests without cache (<code>--nocache_test_results</code>)</label>
       <label><input id="buildTestsOnly" type="checkbox"/> Only build test targets (<code>--build_tests_only</code>)</label>
       <label><input id="testStrategyExclusive" type="checkbox"/> Force serial execution (<code>--test_strategy=exclusive</code>)</label>
+      <label><input id="batchTestExecution" type="checkbox"/> Run selected targets in a single Bazel invocation</label>
     </fieldset>
 
     <fieldset>
@@ -120,7 +131,20 @@ export class TestSettingsView implements vscode.WebviewViewProvider {
       <label><input id="runsPerTestDetectsFlakes" type="checkbox"/> Detect flakes per run (<code>--runs_per_test_detects_flakes</code>)</label>
     </fieldset>
 
-    
+    <fieldset>
+      <legend>Test Environment</legend>
+      <label>Scope (<code>*</code>, <code>//pkg/...</code>, <code>//pkg:*</code> or <code>//pkg:target</code>):
+        <input id="envScope" list="envScopes" value="*" style="width:100%"/>
+      </label>
+      <datalist id="envScopes"></datalist>
+      <label>Environment (<code>--test_env</code>, one <code>NAME=value</code> per line):
+        <textarea id="envVars" rows="3"></textarea>
+      </label>
+      <label>Arguments (<code>--test_arg</code>, one per line):
+        <textarea id="envArgs" rows="3"></textarea>
+      </label>
+      <button id="saveEnv">Save scope</button>
+    </fieldset>
 
     <script nonce="${nonce}">
       const vscode = acquireVsCodeApi();
@@ -134,7 +158,9 @@ export class TestSettingsView implements vscode.WebviewViewProvider {
           { id: 'nocacheTestResults', key: 'nocacheTestResults' },
           { id: 'buildTestsOnly', key: 'buildTestsOnly' },
           { id: 'runsPerTestDetectsFlakes', key: 'runsPerTestDetectsFlakes' },
-          { id: 'testStrategyExclusive', key: 'testStrategyExclusive' }
+          { id: 'testStrategyExclusive', key: 'testStrategyExclusive' },
+          { id: 'batchTestExecution', key: 'batchTestExecution' },
+          { id: 'autoDetectTestKinds', key: 'autoDetectTestKinds' }
         ];
         checkboxFields.forEach(({ id, key }) => {
           const el = document.getElementById(id);
@@ -152,6 +178,76 @@ export class TestSettingsView implements vscode.WebviewViewProvider {
           });
         });
 
+
+        document.getElementById('envScope')?.addEventListener('change', showEnvironmentScope);
+        document.getElementById('saveEnv')?.addEventListener('click', saveEnvironmentScope);
+      };
+
+      // Scoped --test_env / --test_arg maps, edited one scope at a time
+      let testEnvByScope = {};
+      let testArgByScope = {};
+
+      const showEnvironmentScope = () => {
+        const scope = document.getElementById('envScope').value.trim();
+        const vars = testEnvByScope[scope] ?? {};
+        document.getElementById('envVars').value = Object.entries(vars).map(([k, v]) => k + '=' + v).join('\\n');
+        document.getElementById('envArgs').value = (testArgByScope[scope] ?? []).join('\\n');
+      };
+
+      const saveEnvironmentScope = () => {
+        const scope = document.getElementById('envScope').value.trim();
+        if (!scope) {
+          return;
+        }
+        const vars = {};
+        document.getElementById('envVars').value.split('\\n').forEach(line => {
+          const index = line.indexOf('=');
+          const name = (index === -1 ? line : line.slice(0, index)).trim();
+          if (name) {
+            vars[name] = index === -1 ? '' : line.slice(index + 1);
+          }
+        });
+        const args = document.getElementById('envArgs').value.split('\\n').map(a => a.trim()).filter(a => a.length > 0);
+
+        const nextEnv = { ...testEnvByScope };
+        const nextArgs = { ...testArgByScope };
+        if (Object.keys(vars).length > 0) { nextEnv[scope] = vars; } else { delete nextEnv[scope]; }
+        if (args.length > 0) { nextArgs[scope] = args; } else { delete nextArgs[scope]; }
+        sendSetting('testEnvByScope', nextEnv);
+        sendSetting('testArgByScope', nextArgs);
+      };
+
+      // Discovered rule kinds; unchecking one adds it to excludedTestKinds
+      let excludedTestKinds = [];
+
+      const showTestKinds = (autoDetect, kinds) => {
+        const container = document.getElementById('testKinds');
+        container.innerHTML = '';
+        if (!autoDetect) {
+          return;
+        }
+        if (kinds.length === 0) {
+          container.textContent = 'No test kinds discovered yet.';
+          return;
+        }
+        kinds.forEach(({ kind, count, framework, excluded }) => {
+          const label = document.createElement('label');
+          const input = document.createElement('input');
+          input.type = 'checkbox';
+          input.checked = !excluded;
+          input.addEventListener('change', () => {
+            const next = excludedTestKinds.filter(k => k !== kind);
+            if (!input.checked) { next.push(kind); }
+            sendSetting('excludedTestKinds', next);
+          });
+          const name = document.createElement('code');
+          name.textContent = kind;
+          const details = document.createElement('span');
+          details.className = 'kind-details';
+          details.textContent = excluded ? ' (excluded)' : ' (' + count + (framework ? ', ' + framework : '') + ')';
+          label.append(input, ' ', name, details);
+          container.appendChild(label);
+        });
       };
 
       wireControls();
@@ -166,6 +262,20 @@ export class TestSettingsView implements vscode.WebviewViewProvider {
           document.getElementById('nocacheTestResults').checked = !!s.nocacheTestResults;
           document.getElementById('buildTestsOnly').checked = !!s.buildTestsOnly;
           document.getElementById('testStrategyExclusive').checked = !!s.testStrategyExclusive;
+          document.getElementById('batchTestExecution').checked = !!s.batchTestExecution;
+          testEnvByScope = s.testEnvByScope ?? {};
+          testArgByScope = s.testArgByScope ?? {};
+          const scopes = Array.from(new Set(['*', ...Object.keys(testEnvByScope), ...Object.keys(testArgByScope)]));
+          document.getElementById('envScopes').innerHTML = '';
+          scopes.forEach(scope => {
+            const option = document.createElement('option');
+            option.value = scope;
+            document.getElementById('envScopes').appendChild(option);
+          });
+          showEnvironmentScope();
+          document.getElementById('autoDetectTestKinds').checked = !!s.autoDetectTestKinds;
+          excludedTestKinds = s.excludedTestKinds ?? [];
+          showTestKinds(!!s.autoDetectTestKinds, s.testKinds ?? []);
           // sharding removed
         }
       });
@@ -0,0 +1,38 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/*
+ * Flaky result state
+ * - VS Code only knows passed/failed/skipped, so a pass after retries is shown
+ *   as a "FLAKY" marker in the item's description until the next result
+ */
+
+import * as vscode from 'vscode';
+
+const FLAKY_PREFIX = '⚠️ FLAKY';
+const originalDescriptions = new Map<string, string | undefined>();
+
+export function markFlakyResult(testItem: vscode.TestItem, detail: string): void {
+  if (!originalDescriptions.has(testItem.id)) {
+    originalDescriptions.set(testItem.id, testItem.description);
+  }
+  const original = originalDescriptions.get(testItem.id);
+  testItem.description = original ? `${FLAKY_PREFIX} (${detail}) · ${original}` : `${FLAKY_PREFIX} (${detail})`;
+}
+
+export function clearFlakyResult(testItem: vscode.TestItem): void {
+  if (!originalDescriptions.has(testItem.id)) {
+    return;
+  }
+  testItem.description = originalDescriptions.get(testItem.id);
+  originalDescriptions.delete(testItem.id);
+}
+
+export function isMarkedFlaky(testId: string): boolean {
+  return originalDescriptions.has(testId);
+}
@@ -8,3 +8,4 @@
 
 export * from './testTree';
 export * from './testObserver';
+export * from './flakyState';
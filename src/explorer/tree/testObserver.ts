@@ -18,9 +18,10 @@ import { logWithTimestamp } from '../../logging';
 
 export interface TestHistoryEntry {
   testId: string;
-  type: string; // passed/failed/skipped
+  type: string; // passed/failed/skipped/flaky
   durationMs?: number;
   message?: string | vscode.MarkdownString;
+  profile?: string; // user-defined run profile, if any
   timestamp: number;
 }
 
@@ -55,7 +56,8 @@ export class TestObserver implements vscode.Disposable {
       case 'passed':
       case 'failed':
       case 'skipped':
-        this.pushHistory({ testId: e.testId, type: e.type, durationMs: e.durationMs, message: e.message, timestamp: e.timestamp });
+      case 'flaky':
+        this.pushHistory({ testId: e.testId, type: e.type, durationMs: e.durationMs, message: e.message, profile: e.profile, timestamp: e.timestamp });
         if (this.verboseLogging) {logWithTimestamp(`Test ${e.type}: ${e.testId} (${e.durationMs ?? 0}ms)`);}
         break;
       case 'output':
@@ -76,6 +78,20 @@ export class TestObserver implements vscode.Disposable {
     return this.history;
   }
 
+  /**
+   * Ids whose most recent result was a failure (timeouts are reported as failures)
+   */
+  getLatestFailedIds(): string[] {
+    const seen = new Set<string>();
+    const failed: string[] = [];
+    for (const entry of this.history) {
+      if (seen.has(entry.testId)) {continue;}
+      seen.add(entry.testId);
+      if (entry.type === 'failed') {failed.push(entry.testId);}
+    }
+    return failed;
+  }
+
   private toMessageString(msg?: string | vscode.MarkdownString): string {
     if (!msg) {return '';}
     return typeof msg === 'string' ? msg : msg.value ?? String(msg);
@@ -21,17 +21,30 @@ import { getCachedWorkspace } from '../../bazel/workspace';
 import { TestCaseAnnotations, AnnotationUpdate } from '../annotations';
 import { TestCaseInsights } from '../panel';
 import { ConfigurationService } from '../../configuration';
-import { expandTestSuite } from '../../bazel/queries';
+import { expandTestSuite, getDiscoveryKeyArgs, getTestTargets, restoreTestTargets } from '../../bazel/queries';
+import {
+  computeDiscoveryFingerprint,
+  diffTestTargets,
+  loadDiscoverySnapshot,
+  saveDiscoverySnapshot,
+  TestTargetDiff
+} from '../../bazel/discoverySnapshot';
+import { recordDiscoveredTestKinds } from '../../bazel/testKinds';
+import { buildShardId, getShardCount, isShardId } from '../../bazel/shards';
 import { formatCoverageShort, getCoverageSummary } from '../../coverage';
 import {
   resolveSourceUri,
   resolveSourceFromMetadata,
+  parseLocation,
   selectFilePath,
   toAbsolutePath
 } from '../sourceUtils';
 
 let isDiscoveringTests = false;
 
+// Generator groups are `<package>#generator=<macro call name>`; without ':' they are not run as a target
+const GENERATOR_GROUP_SEPARATOR = '#generator=';
+
 /**
  * Main entry point for test discovery
  */
@@ -48,19 +61,156 @@ export const discoverAndDisplayTests = async (
 
   isDiscoveringTests = true;
   try {
+    const config = new ConfigurationService();
+    const fingerprint = await fingerprintWorkspace(bazelClient, config);
     const testEntries = await measure("Query Bazel test targets", () =>
       bazelClient.queryTests()
     );
     
-    const config = new ConfigurationService();
     updateTestTree(controller, testEntries, config);
     logDiscoveryResult(controller, testEntries);
+    recordDiscoveredTestKinds(testEntries);
+    if (fingerprint) {
+      await saveDiscoverySnapshot(fingerprint, testEntries);
+    }
+  } catch (error) {
+    handleDiscoveryError(error);
+  } finally {
+    isDiscoveringTests = false;
+  }
+};
+
+/**
+ * Renders the test tree from the discovery snapshot saved for the current BUILD
+ * and MODULE files. Returns the restored targets, or undefined if there is no
+ * matching snapshot and a full discovery is needed.
+ */
+export const restoreTestTreeSnapshot = async (
+  controller: vscode.TestController,
+  bazelClient: BazelClient
+): Promise<BazelTestTarget[] | undefined> => {
+  const config = new ConfigurationService();
+  const fingerprint = await fingerprintWorkspace(bazelClient, config);
+  const targets = fingerprint ? loadDiscoverySnapshot(fingerprint) : undefined;
+  if (!targets) {
+    return undefined;
+  }
+
+  restoreTestTargets(targets);
+  updateTestTree(controller, [...targets], config);
+  recordDiscoveredTestKinds(targets);
+  logWithTimestamp(`Restored ${targets.length} test targets from the discovery snapshot`);
+  return targets;
+};
+
+/**
+ * Re-runs discovery behind a restored tree and applies only the differences,
+ * so unchanged items keep their resolved test cases and results
+ */
+export const revalidateTestTree = async (
+  controller: vscode.TestController,
+  bazelClient: BazelClient,
+  previous: BazelTestTarget[]
+): Promise<void> => {
+  if (isDiscoveringTests) {
+    return;
+  }
+
+  isDiscoveringTests = true;
+  try {
+    const config = new ConfigurationService();
+    const fingerprint = await fingerprintWorkspace(bazelClient, config);
+    const testEntries = await measure("Revalidate Bazel test targets", () =>
+      bazelClient.queryTests()
+    );
+
+    const diff = diffTestTargets(previous, testEntries);
+    applyTestTreeDiff(controller, diff, config);
+    recordDiscoveredTestKinds(testEntries);
+    logWithTimestamp(
+      `Revalidated discovery snapshot: ${diff.added.length} added, ${diff.changed.length} changed, ${diff.removed.length} removed`
+    );
+    if (fingerprint) {
+      await saveDiscoverySnapshot(fingerprint, testEntries);
+    }
   } catch (error) {
     handleDiscoveryError(error);
   } finally {
     isDiscoveringTests = false;
   }
 };
+
+/**
+ * Re-discovers only the given packages and applies the changes to the tree.
+ * Returns false without querying while another discovery is running; query
+ * failures are thrown so the caller can fall back to a full discovery.
+ */
+export const rediscoverChangedPackages = async (
+  controller: vscode.TestController,
+  bazelClient: BazelClient,
+  packages: string[]
+): Promise<boolean> => {
+  if (isDiscoveringTests) {
+    return false;
+  }
+
+  isDiscoveringTests = true;
+  try {
+    const config = new ConfigurationService();
+    const fingerprint = await fingerprintWorkspace(bazelClient, config);
+    const diff = await measure(`Re-query ${packages.length} changed package(s)`, () =>
+      bazelClient.queryPackages(packages)
+    );
+
+    applyTestTreeDiff(controller, diff, config);
+    recordDiscoveredTestKinds(getTestTargets());
+    if (fingerprint) {
+      await saveDiscoverySnapshot(fingerprint, getTestTargets());
+    }
+    return true;
+  } finally {
+    isDiscoveringTests = false;
+  }
+};
+
+/**
+ * Applies a discovery diff to the controller: removes deleted targets (and
+ * packages left empty), replaces changed targets and adds new ones
+ */
+export function applyTestTreeDiff(
+  controller: vscode.TestController,
+  diff: TestTargetDiff,
+  config: ConfigurationService
+): void {
+  // Changed targets are removed as well: their generator group may differ
+  for (const target of [...diff.removed, ...diff.changed.map(entry => entry.target)]) {
+    removeTargetItem(controller, target);
+  }
+
+  const packageCache = new Map<string, vscode.TestItem>();
+  controller.items.forEach(item => packageCache.set(item.id, item));
+  for (const entry of sortTestEntries([...diff.added, ...diff.changed])) {
+    addTestItemToController(controller, entry, packageCache, config);
+  }
+}
+
+/**
+ * Fingerprint of the workspace BUILD files; undefined if it cannot be computed
+ */
+async function fingerprintWorkspace(
+  bazelClient: BazelClient,
+  config: ConfigurationService
+): Promise<string | undefined> {
+  try {
+    return await computeDiscoveryFingerprint(
+      bazelClient.workspace, config.queryPaths, config.testTypes, getDiscoveryKeyArgs(config)
+    );
+  } catch (error) {
+    logWithTimestamp(`Could not fingerprint BUILD files: ${formatError(error)}`, 'warn');
+    return undefined;
+  }
+}
+
 function updateTestTree(
   controller: vscode.TestController,
   testEntries: BazelTestTarget[],
@@ -86,8 +236,9 @@ export function removeStaleItems(
   const currentTestIds = new Set(testEntries.map(entry => entry.target));
 
   controller.items.forEach((item) => {
-    const hasLiveChildren = Array.from(item.children).some(([childId]) =>
+    const hasLiveChildren = Array.from(item.children).some(([childId, child]) =>
       currentTestIds.has(childId)
+      || (isGeneratorGroupId(childId) && Array.from(child.children).some(([id]) => currentTestIds.has(id)))
     );
     if (!currentTestIds.has(item.id) && !hasLiveChildren) {
       logWithTimestamp(`Removing stale test item: ${item.id}`);
@@ -154,9 +305,20 @@ export const addTestItemToController = (
   const packageItem = getOrCreatePackageItem(controller, packageName, packageCache);
   const testItem = createTestItem(controller, testTarget, testName, packageName, config);
 
-  packageItem.children.add(testItem);
+  const generatorItem = config.groupByGenerator
+    ? getOrCreateGeneratorItem(controller, packageItem, testTarget, testName)
+    : undefined;
+  (generatorItem ?? packageItem).children.add(testItem);
 };
 
+export function buildGeneratorGroupId(packageName: string, generatorName: string): string {
+  return `${packageName}${GENERATOR_GROUP_SEPARATOR}${generatorName}`;
+}
+
+export function isGeneratorGroupId(id: string): boolean {
+  return !id.includes(':') && id.includes(GENERATOR_GROUP_SEPARATOR);
+}
+
 /**
  * Parse Bazel target label into package and test name
  */
@@ -185,6 +347,66 @@ function getOrCreatePackageItem(
   return packageItem;
 }
 
+/**
+ * Get or create the node of the macro call that generated a target. Targets
+ * declared directly, or by a macro whose call has the target's own name, stay
+ * in their package.
+ */
+function getOrCreateGeneratorItem(
+  controller: vscode.TestController,
+  packageItem: vscode.TestItem,
+  testTarget: BazelTestTarget,
+  testName: string
+): vscode.TestItem | undefined {
+  const generatorName = testTarget.generator_name;
+  if (!generatorName || generatorName === testName) {
+    return undefined;
+  }
+  const id = buildGeneratorGroupId(packageItem.id, generatorName);
+  let generatorItem = packageItem.children.get(id);
+  if (!generatorItem) {
+    const location = testTarget.generator_location ? parseLocation(testTarget.generator_location) : undefined;
+    const workspacePath = location ? getCachedWorkspace() : undefined;
+    const uri = location && workspacePath ? vscode.Uri.file(toAbsolutePath(location.file, workspacePath)) : undefined;
+    generatorItem = controller.createTestItem(id, `🏭 ${generatorName}`, uri);
+    if (uri && location?.line) {
+      generatorItem.range = new vscode.Range(location.line - 1, 0, location.line - 1, 0);
+    }
+    generatorItem.description = testTarget.generator_function ? `${testTarget.generator_function}()` : undefined;
+    packageItem.children.add(generatorItem);
+  }
+  return generatorItem;
+}
+
+/**
+ * Removes a target from its package or generator group, dropping groups and
+ * packages left empty
+ */
+function removeTargetItem(controller: vscode.TestController, target: string): void {
+  const [packageName] = parseTargetLabel(target);
+  const packageItem = controller.items.get(packageName);
+  if (!packageItem) {
+    return;
+  }
+  packageItem.children.delete(target);
+  const groups: vscode.TestItem[] = [];
+  packageItem.children.forEach(child => {
+    if (isGeneratorGroupId(child.id)) {
+      groups.push(child);
+    }
+  });
+  for (const group of groups) {
+    group.children.delete(target);
+    if (group.children.size === 0) {
+      packageItem.children.delete(group.id);
+    }
+  }
+  if (packageItem.children.size === 0) {
+    logWithTimestamp(`Removing stale test item: ${packageName}`);
+    controller.items.delete(packageName);
+  }
+}
+
 /**
  * Create test item
  */
@@ -234,7 +456,12 @@ function createTestItem(
       testItem.description = combined;
     }
   }
-  
+
+  // cquery discovery: show the configuration the metadata was resolved in
+  if (testTarget.configuration) {
+    testItem.description = `${testItem.description} ⚙️ ${testTarget.configuration}`;
+  }
+
   // Enable children resolution for individual test case discovery
   const isSuite = testType === "test_suite";
   // test_suite can have children (lazy-loaded), tests can have test cases
@@ -244,9 +471,32 @@ function createTestItem(
 
   }
 
+  addShardItems(controller, testItem, testTarget, uri);
+
   return testItem;
 }
 
+/**
+ * Add one child per shard for targets with shard_count > 1
+ */
+function addShardItems(
+  controller: vscode.TestController,
+  testItem: vscode.TestItem,
+  testTarget: BazelTestTarget,
+  uri?: vscode.Uri
+): void {
+  const shardCount = getShardCount(testTarget);
+  for (let index = 1; index <= shardCount; index++) {
+    const shardItem = controller.createTestItem(
+      buildShardId(testTarget.target, index, shardCount),
+      `🧩 Shard ${index}/${shardCount}`,
+      uri
+    );
+    shardItem.canResolveChildren = false;
+    testItem.children.add(shardItem);
+  }
+}
+
 // ───────────────────────────────────────────────────────────────
 // Helper Functions
 // ───────────────────────────────────────────────────────────────
@@ -326,8 +576,9 @@ export const resolveTestCaseChildren = async (
       logWithTimestamp(`Skipping resolution for ${testItem.id} because discovery is disabled by configuration.`);
       return;
     }
-    // Skip if already resolved
-    if (testItem.children.size > 0) {
+    // Skip if already resolved (shard items do not count as resolved test cases)
+    const hasTestCaseChildren = Array.from(testItem.children).some(([childId]) => !isShardId(childId));
+    if (hasTestCaseChildren) {
       logWithTimestamp(`Children already present for ${testItem.id}; skipping discovery.`);
       return;
     }
@@ -27,12 +27,18 @@ import { TestCaseAnnotations, TestCaseCodeLensProvider, TestCaseHoverProvider }
 import { TestCaseInsights } from './explorer/panel';
 import { showCombinedTestPanel } from './explorer/panel';
 import { initializeCoverageState, disposeCoverageState } from './coverage/state';
+import { disposeBuildDiagnostics } from './bazel/buildDiagnostics';
+import { initializeDiscoverySnapshot, disposeDiscoverySnapshot } from './bazel/discoverySnapshot';
+import { disposeTestKinds } from './bazel/testKinds';
 import { createCoverageCommandHandler } from './coverage/commands';
-import { cancelAllBazelProcesses } from './infrastructure/process';
+import { cancelAllBazelProcesses, disposeCommandScheduler } from './infrastructure/process';
+import { registerCommandQueueStatus } from './explorer/commandQueueStatus';
+import { formatDiskUsage, getQueryServerStatus, shutdownQueryServers } from './bazel/queryServer';
 
 export async function activate(context: vscode.ExtensionContext) {
 	initializeLogger();
 	initializeCoverageState(context.workspaceState);
+	initializeDiscoverySnapshot(context.workspaceState);
 
 	const extensionVersion = vscode.extensions.getExtension("tragisch.bazel-testexplorer")?.packageJSON?.version as string | undefined;
 	logWithTimestamp(`Bazel Test Explorer v${extensionVersion ?? 'unknown'} aktiviert.`);
@@ -135,16 +141,16 @@ export async function activate(context: vscode.ExtensionContext) {
 	const testCaseInsights = new TestCaseInsights();
 	context.subscriptions.push(testCaseAnnotations);
 
-	const testManager = new TestControllerManager(bazelClient, configurationService, context, testCaseAnnotations, testCaseInsights);
+	// Observer for collecting runtimes and small in-memory history
+	const testObserver = new TestObserver(context);
+	context.subscriptions.push(testObserver);
+
+	const testManager = new TestControllerManager(bazelClient, configurationService, context, testCaseAnnotations, testCaseInsights, testObserver);
 	testManager.initialize();
 
 	const coverageOutput = vscode.window.createOutputChannel('Coverage');
 	context.subscriptions.push(coverageOutput);
 
-	// Observer for collecting runtimes and small in-memory history
-	const testObserver = new TestObserver(context);
-	context.subscriptions.push(testObserver);
-
 	// Tree view for history (Testing + Explorer fallback)
 	const historyProvider = new TestHistoryProvider(testObserver);
 	try {
@@ -173,12 +179,17 @@ export async function activate(context: vscode.ExtensionContext) {
 	statusBar.command = 'bazelTestExplorer.history.focus';
 	context.subscriptions.push(statusBar);
 
+	// Status bar: queued and lock-blocked Bazel commands
+	registerCommandQueueStatus(context);
+
 	// Note: logs are opened in a readonly text editor tab when requested
 
 	const updateStatus = () => {
  		const history = testObserver.getHistory();
  		const failed = history.filter(h => h.type === 'failed').length;
- 		statusBar.text = `Bazel Tests: ${failed} failed — ${history.length} recent`;
+ 		const flaky = history.filter(h => h.type === 'flaky').length;
+ 		const flakyText = flaky > 0 ? `, ${flaky} flaky` : '';
+ 		statusBar.text = `Bazel Tests: ${failed} failed${flakyText} — ${history.length} recent`;
  		statusBar.show();
 	};
 
@@ -200,12 +211,13 @@ export async function activate(context: vscode.ExtensionContext) {
 	);
 
 	context.subscriptions.push(
-		vscode.commands.registerCommand('bazelTestExplorer.openHistoryItem', async (entry: { testId?: string; type?: string; durationMs?: number; message?: string | vscode.MarkdownString }) => {
+		vscode.commands.registerCommand('bazelTestExplorer.openHistoryItem', async (entry: { testId?: string; type?: string; durationMs?: number; message?: string | vscode.MarkdownString; profile?: string }) => {
 			if (!entry) {return;}
 			const body = typeof entry.message === 'string' ? entry.message : (entry.message?.value ?? '');
 			const contentLines: string[] = [];
 			contentLines.push(`--- Test: ${entry.testId} ---`);
 			contentLines.push(`Status: ${entry.type}`);
+			if (entry.profile) {contentLines.push(`Profile: ${entry.profile}`);}
 			contentLines.push(`Duration: ${entry.durationMs ?? '-'} ms`);
 			contentLines.push('');
 			if (body) {contentLines.push(body);}
@@ -326,29 +338,58 @@ export async function activate(context: vscode.ExtensionContext) {
 		})
 	);
 
+	context.subscriptions.push(
+		vscode.commands.registerCommand('bazelTestExplorer.showQueryServer', async () => {
+			const status = await getQueryServerStatus(workspaceRoot, configurationService);
+			if (!status) {
+				void vscode.window.showInformationMessage('Queries share the Bazel server of test runs. Set bazelTestExplorer.queryOutputBase to give them their own output base.');
+				return;
+			}
+			const usage = status.diskUsageBytes === undefined ? 'not created yet' : formatDiskUsage(status.diskUsageBytes);
+			const state = status.started ? 'started in this session' : 'not started';
+			void vscode.window.showInformationMessage(`Query server (${state}): ${status.outputBase}, disk usage ${usage}.`);
+		})
+	);
+
 	// initial update
 	updateStatus();
 
-	// Initiales Test-Discovery
-	await measure("Discover and display tests", async () => {
-		await vscode.window.withProgress(
+	// Initiales Test-Discovery (from the snapshot of the last session, if BUILD files are unchanged)
+	const { revalidation } = await measure("Discover and display tests", async () => {
+		return vscode.window.withProgress(
+			{
+				location: vscode.ProgressLocation.Window,
+				title: "Bazel Test Explorer",
+				cancellable: false
+			},
+			async (progress) => testManager.discoverFromSnapshot(progress)
+		);
+	});
+	if (revalidation) {
+		void vscode.window.withProgress(
 			{
 				location: vscode.ProgressLocation.Window,
 				title: "Bazel Test Explorer",
 				cancellable: false
 			},
 			async (progress) => {
-				await testManager.discover(progress);
+				progress.report({ message: 'Revalidating Bazel tests...' });
+				await revalidation;
 			}
 		);
-	});
+	}
 }
 
-export function deactivate() {
+export async function deactivate() {
 	disposeEventBus();
 	disposeCoverageState();
-	disposeLogger();
+	disposeDiscoverySnapshot();
+	disposeTestKinds();
+	disposeBuildDiagnostics();
+	disposeCommandScheduler();
 	vscode.commands.executeCommand('setContext', 'bazelTestExplorer.workspaceAvailable', false);
+	await shutdownQueryServers();
+	disposeLogger();
 }
 
 export { findBazelWorkspace, getCachedWorkspace };
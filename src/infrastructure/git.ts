@@ -0,0 +1,69 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/**
+ * Git integration - lists files changed in the working tree, the index or since a base ref
+ */
+
+import * as cp from 'child_process';
+import { logWithTimestamp } from '../logging';
+
+export type GitChangeScope = 'workingTree' | 'staged' | 'baseRef';
+
+const GIT_REF_PATTERN = /^[A-Za-z0-9._/@^~{}-]+$/;
+
+/**
+ * Arguments for the `git diff` listing the changed files of a scope.
+ * Paths are relative to the working directory; deleted files are left out
+ * because Bazel cannot resolve them to source labels.
+ */
+export function buildGitDiffArgs(scope: GitChangeScope, baseRef?: string): string[] {
+  const base = ['diff', '--name-only', '--relative', '--diff-filter=d'];
+  switch (scope) {
+    case 'staged':
+      return [...base, '--cached'];
+    case 'baseRef': {
+      const ref = baseRef?.trim() ?? '';
+      if (!GIT_REF_PATTERN.test(ref) || ref.startsWith('-')) {
+        throw new Error(`Invalid git base ref: "${ref}"`);
+      }
+      return [...base, `${ref}...HEAD`];
+    }
+    case 'workingTree':
+    default:
+      return [...base, 'HEAD'];
+  }
+}
+
+/**
+ * Returns the files changed in the given scope, relative to `cwd`.
+ * The working tree scope includes untracked files that are not ignored.
+ */
+export async function getChangedFiles(cwd: string, scope: GitChangeScope, baseRef?: string): Promise<string[]> {
+  const changed = await runGit(buildGitDiffArgs(scope, baseRef), cwd);
+  const untracked = scope === 'workingTree'
+    ? await runGit(['ls-files', '--others', '--exclude-standard'], cwd)
+    : '';
+  const files = [...changed.split(/\r?\n/), ...untracked.split(/\r?\n/)]
+    .map(file => file.trim())
+    .filter(file => file !== '');
+  return Array.from(new Set(files));
+}
+
+function runGit(args: string[], cwd: string): Promise<string> {
+  logWithTimestamp(`Running git ${args.join(' ')}`);
+  return new Promise((resolve, reject) => {
+    cp.execFile('git', args, { cwd, maxBuffer: 16 * 1024 * 1024 }, (error, stdout, stderr) => {
+      if (error) {
+        reject(new Error(`git ${args.join(' ')} failed: ${stderr.trim() || error.message}`));
+        return;
+      }
+      resolve(stdout);
+    });
+  });
+}
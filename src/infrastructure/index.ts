@@ -7,3 +7,4 @@
  */
 
 export * from './process';
+export * from './git';
@@ -7,13 +7,16 @@
  */
 
 /**
- * Process execution - spawns and manages Bazel command processes with streaming output
+ * Process execution - spawns and manages Bazel command processes with streaming output.
+ * Commands against the same output base go through a scheduler that runs one at a
+ * time, so waiting on the Bazel server lock is visible and queued work can be cancelled.
  */
 
 import * as cp from 'child_process';
 import * as readline from 'readline';
 import * as fs from 'fs';
 import * as path from 'path';
+import * as vscode from 'vscode';
 import { CancellationToken } from 'vscode';
 import { logWithTimestamp } from '../logging';
 
@@ -32,6 +35,9 @@ export const untrackBazelProcess = (proc: cp.ChildProcess): void => {
  * Returns a promise that resolves when all processes are terminated
  */
 export const cancelAllBazelProcesses = async (): Promise<{ killed: number; failed: number }> => {
+    // Queued commands would otherwise start as soon as the running ones are killed
+    cancelQueuedBazelCommands();
+
     const processes = Array.from(runningBazelProcesses);
     if (processes.length === 0) {
         return { killed: 0, failed: 0 };
@@ -143,6 +149,250 @@ function validateBazelPath(bazelPath: string): void {
     }
 }
 
+// ───────────────────────────────────────────────────────────────
+// Command scheduler
+// ───────────────────────────────────────────────────────────────
+
+/**
+ * Background work (discovery, metadata queries) waits for commands the user is waiting on
+ */
+export type CommandPriority = 'interactive' | 'background';
+
+export type ScheduledCommandState = 'queued' | 'running' | 'blocked';
+
+export interface ScheduledCommand {
+    id: number;
+    /** `bazel <command> <first argument>` */
+    description: string;
+    outputBase: string;
+    priority: CommandPriority;
+    state: ScheduledCommandState;
+    /** pid of the Bazel client outside this extension that holds the server lock */
+    blockedBy?: number;
+    queuedAt: number;
+}
+
+export interface ScheduleOptions {
+    priority?: CommandPriority;
+    /** Called once with a notice when the command has to wait for another command */
+    onQueued?: (notice: string) => void;
+}
+
+/**
+ * Rejection of a command that was cancelled while it waited in the queue
+ */
+export class QueuedCommandCancelledError extends Error {
+    constructor(description: string) {
+        super(`${description} was cancelled before it started`);
+        this.name = 'QueuedCommandCancelledError';
+    }
+}
+
+interface QueueEntry extends ScheduledCommand {
+    start: () => void;
+    cancel: () => void;
+}
+
+interface OutputBaseQueue {
+    running?: QueueEntry;
+    queued: QueueEntry[];
+}
+
+// "Another command (pid=123) is running. Waiting for it to complete on the server (server_pid=45)..."
+// Older Bazel versions: "Another command is running (pid = 123).  Waiting for it to complete..."
+const SERVER_LOCK_MESSAGE = /^Another command (?:\(pid=(\d+)\) )?is running(?: \(pid ?= ?(\d+)\))?/;
+
+const commandQueues = new Map<string, OutputBaseQueue>();
+const queueEmitter = new vscode.EventEmitter<ScheduledCommand[]>();
+let nextCommandId = 1;
+
+export const onDidChangeCommandQueue = queueEmitter.event;
+
+/**
+ * Output base a command runs against: `--output_base` from its startup options,
+ * otherwise the workspace, whose default output base Bazel derives from its path
+ */
+export function resolveOutputBaseKey(args: string[], cwd: string): string {
+    for (const arg of args) {
+        if (!arg.startsWith('-')) {
+            break;
+        }
+        const match = arg.match(/^--output_base=(.+)$/);
+        if (match) {
+            return path.resolve(cwd, match[1]);
+        }
+    }
+    return path.resolve(cwd);
+}
+
+/**
+ * Running and queued commands of all output bases, running ones first
+ */
+export function getScheduledCommands(): ScheduledCommand[] {
+    const commands: ScheduledCommand[] = [];
+    for (const queue of commandQueues.values()) {
+        if (queue.running) {
+            commands.push(snapshot(queue.running));
+        }
+        commands.push(...queue.queued.map(snapshot));
+    }
+    return commands;
+}
+
+/**
+ * Runs `task` once no other command of the same output base is running.
+ * Interactive commands are started before queued background commands; within a
+ * priority, commands start in the order they were scheduled.
+ */
+export function scheduleBazelCommand<T>(
+    args: string[],
+    cwd: string,
+    task: (setBlocked: (blockedBy: number | undefined) => void) => Promise<T>,
+    options: ScheduleOptions = {},
+    cancellationToken?: CancellationToken
+): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+        const outputBase = resolveOutputBaseKey(args, cwd);
+        const description = describeCommand(args);
+        if (cancellationToken?.isCancellationRequested) {
+            reject(new QueuedCommandCancelledError(description));
+            return;
+        }
+
+        let queue = commandQueues.get(outputBase);
+        if (!queue) {
+            queue = { queued: [] };
+            commandQueues.set(outputBase, queue);
+        }
+        const ownQueue = queue;
+        let cancellationDisposable: vscode.Disposable | undefined;
+
+        const setBlocked = (blockedBy: number | undefined): void => {
+            const state = blockedBy === undefined ? 'running' : 'blocked';
+            if (entry.state !== state || entry.blockedBy !== blockedBy) {
+                entry.state = state;
+                entry.blockedBy = blockedBy;
+                fireQueueChange();
+            }
+        };
+
+        const entry: QueueEntry = {
+            id: nextCommandId++,
+            description,
+            outputBase,
+            priority: options.priority ?? 'interactive',
+            state: 'queued',
+            queuedAt: Date.now(),
+            start: () => {
+                cancellationDisposable?.dispose();
+                entry.state = 'running';
+                ownQueue.running = entry;
+                fireQueueChange();
+                Promise.resolve()
+                    .then(() => task(setBlocked))
+                    .then(resolve, reject)
+                    .finally(() => startNextCommand(outputBase, ownQueue));
+            },
+            cancel: () => {
+                cancellationDisposable?.dispose();
+                reject(new QueuedCommandCancelledError(description));
+            }
+        };
+
+        if (!ownQueue.running) {
+            entry.start();
+            return;
+        }
+
+        // Behind the last queued command of the same or a higher priority
+        const insertAt = entry.priority === 'interactive'
+            ? ownQueue.queued.filter(queued => queued.priority === 'interactive').length
+            : ownQueue.queued.length;
+        ownQueue.queued.splice(insertAt, 0, entry);
+        cancellationDisposable = cancellationToken?.onCancellationRequested(() => {
+            cancelQueuedBazelCommands([entry.id]);
+        });
+
+        const notice = `⏳ Queued (position ${insertAt + 1}) behind "${ownQueue.running.description}"; `
+            + 'Bazel runs one command per output base at a time.';
+        logWithTimestamp(`${description}: ${notice}`);
+        options.onQueued?.(notice);
+        fireQueueChange();
+    });
+}
+
+/**
+ * Cancels queued commands before they start (all queued commands if no ids are given)
+ * and returns how many were cancelled
+ */
+export function cancelQueuedBazelCommands(ids?: number[]): number {
+    const cancelled: QueueEntry[] = [];
+    for (const queue of commandQueues.values()) {
+        const remaining: QueueEntry[] = [];
+        for (const entry of queue.queued) {
+            (ids === undefined || ids.includes(entry.id) ? cancelled : remaining).push(entry);
+        }
+        queue.queued = remaining;
+    }
+    if (cancelled.length === 0) {
+        return 0;
+    }
+
+    logWithTimestamp(`Cancelled ${cancelled.length} queued Bazel command(s)`);
+    cancelled.forEach(entry => entry.cancel());
+    fireQueueChange();
+    return cancelled.length;
+}
+
+/**
+ * Cancels queued commands and releases the queue event emitter.
+ * Call this during extension deactivation.
+ */
+export function disposeCommandScheduler(): void {
+    cancelQueuedBazelCommands();
+    commandQueues.clear();
+    queueEmitter.dispose();
+}
+
+/**
+ * Parses Bazel's message for a server lock held by another client
+ * and returns that client's pid (0 if Bazel did not print it)
+ */
+export function parseServerLockMessage(line: string): number | undefined {
+    const match = line.trim().match(SERVER_LOCK_MESSAGE);
+    if (!match) {
+        return undefined;
+    }
+    return Number(match[1] ?? match[2] ?? 0);
+}
+
+function startNextCommand(outputBase: string, queue: OutputBaseQueue): void {
+    queue.running = undefined;
+    const next = queue.queued.shift();
+    if (next) {
+        next.start();
+        return;
+    }
+    if (commandQueues.get(outputBase) === queue) {
+        commandQueues.delete(outputBase);
+    }
+    fireQueueChange();
+}
+
+function describeCommand(args: string[]): string {
+    const command = args.filter(arg => !arg.startsWith('-'));
+    return ['bazel', ...command.slice(0, 2)].join(' ') + (command.length > 2 ? ' …' : '');
+}
+
+function snapshot(entry: QueueEntry): ScheduledCommand {
+    const { start: _start, cancel: _cancel, ...command } = entry;
+    return command;
+}
+
+function fireQueueChange(): void {
+    queueEmitter.fire(getScheduledCommands());
+}
+
 export function runBazelCommand(
     args: string[],
     cwd: string,
@@ -150,18 +400,37 @@ export function runBazelCommand(
     onErrorLine?: (line: string) => void,
     bazelPath: string = 'bazel',
     env?: NodeJS.ProcessEnv,
-    cancellationToken?: CancellationToken
+    cancellationToken?: CancellationToken,
+    schedule?: ScheduleOptions
 ): Promise<{ code: number; stdout: string; stderr: string }> {
-    return new Promise((resolve, reject) => {
-        // Validate bazel path to prevent command injection
-        try {
-            validateBazelPath(bazelPath);
-        } catch (error) {
-            logWithTimestamp(`Bazel path validation failed: ${error}`, 'error');
-            reject(error);
-            return;
-        }
+    // Validate bazel path to prevent command injection
+    try {
+        validateBazelPath(bazelPath);
+    } catch (error) {
+        logWithTimestamp(`Bazel path validation failed: ${error}`, 'error');
+        return Promise.reject(error);
+    }
+
+    return scheduleBazelCommand(
+        args,
+        cwd,
+        setBlocked => spawnBazelCommand(args, cwd, onLine, onErrorLine, bazelPath, env, cancellationToken, setBlocked),
+        schedule,
+        cancellationToken
+    );
+}
 
+function spawnBazelCommand(
+    args: string[],
+    cwd: string,
+    onLine: ((line: string) => void) | undefined,
+    onErrorLine: ((line: string) => void) | undefined,
+    bazelPath: string,
+    env: NodeJS.ProcessEnv | undefined,
+    cancellationToken: CancellationToken | undefined,
+    setBlocked: (blockedBy: number | undefined) => void
+): Promise<{ code: number; stdout: string; stderr: string }> {
+    return new Promise((resolve, reject) => {
         logWithTimestamp(`Running Bazel: ${bazelPath} ${args.join(" ")}`);
         // Use shell: false to prevent command injection - bazelPath and args are now safely passed
         const proc = cp.spawn(bazelPath, args, { cwd, shell: false, env: { ...process.env, ...(env || {}) } });
@@ -194,8 +463,19 @@ export function runBazelCommand(
             proc.once('close', () => clearTimeout(killTimer));
         });
 
+        // Any output after Bazel's lock message means the lock was acquired
+        let blocked = false;
+        const updateBlocked = (line: string): void => {
+            const blockedBy = parseServerLockMessage(line);
+            if (blockedBy !== undefined || blocked) {
+                blocked = blockedBy !== undefined;
+                setBlocked(blockedBy);
+            }
+        };
+
         const rl = readline.createInterface({ input: proc.stdout });
         rl.on('line', line => {
+            updateBlocked(line);
             const normalizedLine = line.replace(/\r?\n/g, '\r\n');
             stdout += normalizedLine + '\n';
             if (onLine) {onLine(normalizedLine);}
@@ -203,6 +483,7 @@ export function runBazelCommand(
 
         const errorRl = readline.createInterface({ input: proc.stderr });
         errorRl.on('line', line => {
+            updateBlocked(line);
             const normalizedLine = line.replace(/\r?\n/g, '\r\n');
             stderr += normalizedLine + '\n';
             if (onErrorLine) {onErrorLine(normalizedLine);}
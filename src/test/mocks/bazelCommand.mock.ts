@@ -0,0 +1,25 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+import * as processModule from '../../infrastructure/process';
+
+type RunBazelCommand = typeof processModule.runBazelCommand;
+
+/**
+ * Replaces runBazelCommand so tests never spawn Bazel; the returned function
+ * restores the original
+ */
+export function stubBazelCommand(
+  stub: (...args: Parameters<RunBazelCommand>) => ReturnType<RunBazelCommand>
+): () => void {
+  const original = processModule.runBazelCommand;
+  (processModule as any).runBazelCommand = stub;
+  return () => {
+    (processModule as any).runBazelCommand = original;
+  };
+}
@@ -6,7 +6,7 @@
  * See the LICENSE file in the root directory for details.
  */
 
-import { ConfigurationService } from '../../configuration';
+import { ConfigurationService, RunProfileSettings } from '../../configuration';
 
 /**
  * Mock ConfigurationService für Tests
@@ -23,6 +23,22 @@ export class MockConfigurationService implements Partial<ConfigurationService> {
   private _runsPerTestDetectsFlakes = false;
   private _nocacheTestResults = false;
   private _testStrategyExclusive = false;
+  private _runProfiles: RunProfileSettings[] = [];
+  private _runUnderWrappers: RunProfileSettings[] = [];
+  private _testEnvByScope: Record<string, Record<string, string>> = {};
+  private _testArgByScope: Record<string, string[]> = {};
+  private _autoDetectTestKinds = false;
+  private _excludedTestKinds: string[] = [];
+  private _discoveryMode: 'query' | 'cquery' = 'query';
+  private _cqueryArgs: string[] = [];
+  private _ignoreRcFiles = false;
+  private _bazelrcFiles: string[] = [];
+  private _queryOutputBase = '';
+  private _maxParallelQueries = 4;
+  private _showMetadataInLabel = false;
+  private _groupByGenerator = false;
+  private _cppDebugger: 'cppdbg' | 'lldb' = 'cppdbg';
+  private _debugBuildArgs = ['--compilation_mode=dbg'];
   
   private _listeners: Array<() => void> = [];
 
@@ -103,6 +119,118 @@ export class MockConfigurationService implements Partial<ConfigurationService> {
     return this._testStrategyExclusive;
   }
 
+  set runProfiles(value: RunProfileSettings[]) {
+    this._runProfiles = value;
+  }
+  get runProfiles(): RunProfileSettings[] {
+    return this._runProfiles;
+  }
+
+  set runUnderWrappers(value: RunProfileSettings[]) {
+    this._runUnderWrappers = value;
+  }
+  get runUnderWrappers(): RunProfileSettings[] {
+    return this._runUnderWrappers;
+  }
+
+  set testEnvByScope(value: Record<string, Record<string, string>>) {
+    this._testEnvByScope = value;
+  }
+  get testEnvByScope(): Record<string, Record<string, string>> {
+    return this._testEnvByScope;
+  }
+
+  set testArgByScope(value: Record<string, string[]>) {
+    this._testArgByScope = value;
+  }
+  get testArgByScope(): Record<string, string[]> {
+    return this._testArgByScope;
+  }
+
+  set autoDetectTestKinds(value: boolean) {
+    this._autoDetectTestKinds = value;
+  }
+  get autoDetectTestKinds(): boolean {
+    return this._autoDetectTestKinds;
+  }
+
+  set excludedTestKinds(value: string[]) {
+    this._excludedTestKinds = value;
+  }
+  get excludedTestKinds(): string[] {
+    return this._excludedTestKinds;
+  }
+
+  set discoveryMode(value: 'query' | 'cquery') {
+    this._discoveryMode = value;
+  }
+  get discoveryMode(): 'query' | 'cquery' {
+    return this._discoveryMode;
+  }
+
+  set cqueryArgs(value: string[]) {
+    this._cqueryArgs = value;
+  }
+  get cqueryArgs(): string[] {
+    return this._cqueryArgs;
+  }
+
+  set ignoreRcFiles(value: boolean) {
+    this._ignoreRcFiles = value;
+  }
+  get ignoreRcFiles(): boolean {
+    return this._ignoreRcFiles;
+  }
+
+  set bazelrcFiles(value: string[]) {
+    this._bazelrcFiles = value;
+  }
+  get bazelrcFiles(): string[] {
+    return this._bazelrcFiles;
+  }
+
+  set queryOutputBase(value: string) {
+    this._queryOutputBase = value;
+  }
+  get queryOutputBase(): string {
+    return this._queryOutputBase;
+  }
+
+  set maxParallelQueries(value: number) {
+    this._maxParallelQueries = value;
+  }
+  get maxParallelQueries(): number {
+    return this._maxParallelQueries;
+  }
+
+  set showMetadataInLabel(value: boolean) {
+    this._showMetadataInLabel = value;
+  }
+  get showMetadataInLabel(): boolean {
+    return this._showMetadataInLabel;
+  }
+
+  set groupByGenerator(value: boolean) {
+    this._groupByGenerator = value;
+  }
+  get groupByGenerator(): boolean {
+    return this._groupByGenerator;
+  }
+
+  set cppDebugger(value: 'cppdbg' | 'lldb') {
+    this._cppDebugger = value;
+  }
+  get cppDebugger(): 'cppdbg' | 'lldb' {
+    return this._cppDebugger;
+  }
+
+  set debugBuildArgs(value: string[]) {
+    this._debugBuildArgs = value;
+  }
+  get debugBuildArgs(): string[] {
+    return this._debugBuildArgs;
+  }
+
   onDidChangeConfiguration(listener: () => void) {
     this._listeners.push(listener);
     return { dispose: () => {
@@ -132,6 +260,28 @@ export class MockConfigurationService implements Partial<ConfigurationService> {
     this._runsPerTestDetectsFlakes = false;
     this._nocacheTestResults = false;
     this._testStrategyExclusive = false;
-    
+    this._runProfiles = [];
+    this._runUnderWrappers = [];
+    this._testEnvByScope = {};
+    this._testArgByScope = {};
+    this._autoDetectTestKinds = false;
+    this._excludedTestKinds = [];
+    this._discoveryMode = 'query';
+    this._cqueryArgs = [];
+    this._ignoreRcFiles = false;
+    this._bazelrcFiles = [];
+    this._queryOutputBase = '';
+    this._maxParallelQueries = 4;
+    this._showMetadataInLabel = false;
+    this._groupByGenerator = false;
+    this._cppDebugger = 'cppdbg';
+    this._debugBuildArgs = ['--compilation_mode=dbg'];
   }
 }
+
+/**
+ * Test-Utility: MockConfigurationService with the given settings, typed as ConfigurationService
+ */
+export function createMockConfiguration(overrides: Partial<MockConfigurationService> = {}): ConfigurationService {
+  return Object.assign(new MockConfigurationService(), overrides) as unknown as ConfigurationService;
+}
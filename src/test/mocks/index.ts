@@ -6,8 +6,9 @@
  * See the LICENSE file in the root directory for details.
  */
 
-export { MockConfigurationService } from './configurationService.mock';
+export { MockConfigurationService, createMockConfiguration } from './configurationService.mock';
 export { MockBazelClient } from './bazelClient.mock';
+export { stubBazelCommand } from './bazelCommand.mock';
 export {
   MockTestItem,
   MockTestRun,
@@ -32,6 +32,10 @@ export class MockTestItem implements Partial<vscode.TestItem> {
       add: (child: MockTestItem) => {
         this.childrenMap.set(child.id, child);
       },
+      get: (id: string) => this.childrenMap.get(id),
+      delete: (id: string) => {
+        this.childrenMap.delete(id);
+      },
       get size() {
         return (Array.from((this as any).owner.childrenMap.keys()).length);
       },
@@ -58,6 +62,7 @@ export class MockTestRun implements Partial<vscode.TestRun> {
   private startedTests: vscode.TestItem[] = [];
   private passedTests: vscode.TestItem[] = [];
   private failedTests: vscode.TestItem[] = [];
+  private erroredTests: vscode.TestItem[] = [];
   private skippedTests: vscode.TestItem[] = [];
   private outputs: { output: string; item?: vscode.TestItem }[] = [];
 
@@ -73,6 +78,10 @@ export class MockTestRun implements Partial<vscode.TestRun> {
     this.failedTests.push(test);
   }
 
+  errored(test: vscode.TestItem, messages: vscode.TestMessage | readonly vscode.TestMessage[]): void {
+    this.erroredTests.push(test);
+  }
+
   skipped(test: vscode.TestItem): void {
     this.skippedTests.push(test);
   }
@@ -97,6 +106,10 @@ export class MockTestRun implements Partial<vscode.TestRun> {
     return this.failedTests;
   }
 
+  getErroredTests(): vscode.TestItem[] {
+    return this.erroredTests;
+  }
+
   getSkippedTests(): vscode.TestItem[] {
     return this.skippedTests;
   }
@@ -109,6 +122,7 @@ export class MockTestRun implements Partial<vscode.TestRun> {
     this.startedTests = [];
     this.passedTests = [];
     this.failedTests = [];
+    this.erroredTests = [];
     this.skippedTests = [];
     this.outputs = [];
   }
@@ -128,6 +142,13 @@ export class MockTestController implements Partial<vscode.TestController> {
     add: (item: MockTestItem) => {
       this.itemsMap.set(item.id, item);
     },
+    get: (id: string) => this.itemsMap.get(id),
+    delete: (id: string) => {
+      this.itemsMap.delete(id);
+    },
+    forEach: (callback: (item: MockTestItem) => void) => {
+      this.itemsMap.forEach(item => callback(item));
+    },
     [Symbol.iterator]: () => this.itemsMap[Symbol.iterator]()
   } as any;
 
@@ -143,7 +164,7 @@ export class MockTestController implements Partial<vscode.TestController> {
     runHandler: (request: vscode.TestRunRequest, token: vscode.CancellationToken) => Thenable<void> | void,
     isDefault?: boolean
   ): vscode.TestRunProfile {
-    const profile = { label, kind, runHandler, isDefault };
+    const profile = { label, kind, runHandler, isDefault, disposed: false, dispose: () => { profile.disposed = true; } };
     this.runProfiles.push(profile);
     return profile as any;
   }
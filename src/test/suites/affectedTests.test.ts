@@ -0,0 +1,82 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { buildGitDiffArgs, getChangedFiles } from '../../infrastructure/git';
+import { toSourceLabels } from '../../bazel/queries';
+
+suite('Affected tests', () => {
+  let workspace: string;
+
+  const write = (relative: string, content = '') => {
+    const file = path.join(workspace, relative);
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+  };
+
+  setup(() => {
+    workspace = fs.mkdtempSync(path.join(os.tmpdir(), 'bazel-affected-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(workspace, { recursive: true, force: true });
+  });
+
+  test('builds git diff arguments per scope', () => {
+    assert.deepStrictEqual(buildGitDiffArgs('workingTree'), ['diff', '--name-only', '--relative', '--diff-filter=d', 'HEAD']);
+    assert.deepStrictEqual(buildGitDiffArgs('staged'), ['diff', '--name-only', '--relative', '--diff-filter=d', '--cached']);
+    assert.deepStrictEqual(
+      buildGitDiffArgs('baseRef', 'origin/main'),
+      ['diff', '--name-only', '--relative', '--diff-filter=d', 'origin/main...HEAD']
+    );
+    assert.throws(() => buildGitDiffArgs('baseRef', '--output=/tmp/x'), /Invalid git base ref/);
+    assert.throws(() => buildGitDiffArgs('baseRef', 'main; rm -rf'), /Invalid git base ref/);
+  });
+
+  test('maps files to labels of the enclosing package', () => {
+    write('BUILD.bazel');
+    write('lib/BUILD');
+    write('lib/math/add.cc');
+    write('lib/math/BUILD.bazel');
+    write('lib/util/strings.h');
+
+    assert.deepStrictEqual(
+      toSourceLabels(['lib/math/add.cc', 'lib/util/strings.h', 'README.md', '../outside.cc'], workspace),
+      ['//lib/math:add.cc', '//lib:util/strings.h', '//:README.md']
+    );
+  });
+
+  test('lists modified, staged and untracked files', async function () {
+    this.timeout(10000);
+    const git = (...args: string[]) => cp.execFileSync('git', args, { cwd: workspace, stdio: 'pipe' });
+    try {
+      git('init', '-q');
+    } catch {
+      this.skip();
+    }
+    git('config', 'user.email', 'test@example.com');
+    git('config', 'user.name', 'test');
+    write('pkg/a.cc', 'a');
+    write('pkg/b.cc', 'b');
+    git('add', '.');
+    git('commit', '-q', '-m', 'init');
+
+    write('pkg/a.cc', 'changed');
+    write('pkg/c.cc', 'new');
+    write('pkg/b.cc', 'staged');
+    git('add', 'pkg/b.cc');
+
+    assert.deepStrictEqual((await getChangedFiles(workspace, 'workingTree')).sort(), ['pkg/a.cc', 'pkg/b.cc', 'pkg/c.cc']);
+    assert.deepStrictEqual(await getChangedFiles(workspace, 'staged'), ['pkg/b.cc']);
+  });
+});
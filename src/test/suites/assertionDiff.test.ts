@@ -0,0 +1,95 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { analyzeTestFailures } from '../../bazel/parseFailures';
+import { extractAssertionDiff } from '../../bazel/testcase/parseAssertionDiff';
+
+suite('Assertion diffs', () => {
+  test('gtest equality failures', () => {
+    assert.deepStrictEqual(extractAssertionDiff([
+      'Expected equality of these values:',
+      '  expected_name',
+      '    Which is: "hello world"',
+      '  Greet()',
+      '    Which is: "hello there"'
+    ]), { expected: '"hello world"', actual: '"hello there"' });
+
+    assert.deepStrictEqual(extractAssertionDiff([
+      'Expected equality of these values:',
+      '  add(2, 3)',
+      '    Which is: -1',
+      '  5'
+    ]), { expected: '5', actual: '-1' });
+
+    assert.deepStrictEqual(
+      extractAssertionDiff('Value of: Sum()\n  Actual: 4\nExpected: 3'),
+      { expected: '3', actual: '4' }
+    );
+  });
+
+  test('pytest assertion rewriting', () => {
+    assert.deepStrictEqual(extractAssertionDiff([
+      '>       assert parse("a == b") == {"op": "==", "args": ["a", "b"]}',
+      'E       AssertionError: assert {\'op\': \'=\'} == {\'op\': \'==\', \'args\': [\'a\', \'b\']}',
+      'E         Differing items:'
+    ]), { expected: '{\'op\': \'==\', \'args\': [\'a\', \'b\']}', actual: '{\'op\': \'=\'}' });
+
+    assert.deepStrictEqual(extractAssertionDiff('E       assert 4 == 3\nE        +  where 4 = add(2, 2)'), {
+      expected: '3', actual: '4'
+    });
+    assert.strictEqual(extractAssertionDiff('E       assert 4 < 3'), undefined);
+  });
+
+  test('junit and testify', () => {
+    assert.deepStrictEqual(
+      extractAssertionDiff('java.lang.AssertionError: expected:<3> but was:<4>\n\tat org.junit.Assert.fail(Assert.java:89)'),
+      { expected: '3', actual: '4' }
+    );
+    assert.deepStrictEqual(
+      extractAssertionDiff('org.opentest4j.AssertionFailedError: expected: <a\nb> but was: <a\nc>'),
+      { expected: 'a\nb', actual: 'a\nc' }
+    );
+    assert.deepStrictEqual(extractAssertionDiff([
+      '    math_test.go:12: ',
+      '        \tError Trace:\t/sandbox/execroot/_main/pkg/math_test.go:12',
+      '        \tError:      \tNot equal: ',
+      '        \t            \texpected: main.Point{X:1, Y:2}',
+      '        \t            \tactual  : main.Point{X:1, Y:3}'
+    ]), { expected: 'main.Point{X:1, Y:2}', actual: 'main.Point{X:1, Y:3}' });
+  });
+
+  test('failure analysis opens the diff for the failure', () => {
+    const workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'assertion-diff-'));
+    try {
+      fs.mkdirSync(path.join(workspacePath, 'pkg'));
+      fs.writeFileSync(path.join(workspacePath, 'pkg', 'math_test.cc'), '');
+      const log = [
+        '[ RUN      ] Math.Add',
+        'pkg/math_test.cc:7: Failure',
+        'Expected equality of these values:',
+        '  Add(1, 2)',
+        '    Which is: 4',
+        '  3',
+        '[  FAILED  ] Math.Add (0 ms)'
+      ];
+      const item = { id: '//pkg:math_test', label: 'math_test' } as vscode.TestItem;
+      const [message] = analyzeTestFailures(log, workspacePath, item);
+
+      assert.strictEqual(message.expectedOutput, '3');
+      assert.strictEqual(message.actualOutput, '4');
+    } finally {
+      fs.rmSync(workspacePath, { recursive: true, force: true });
+    }
+  });
+});
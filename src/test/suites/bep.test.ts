@@ -0,0 +1,160 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+  findBuildEventFileArg,
+  formatBepStatus,
+  getTestResultsForTarget,
+  parseBuildEventStream,
+  readBuildEventFile
+} from '../../bazel/bep';
+import { executeBazelTestBatch } from '../../bazel/runner';
+import { getTestXmlLoader, setTestXmlLoader, TestXmlLoader } from '../../bazel/testcase/testResultParser';
+import { createMockConfiguration, MockTestItem, MockTestRun, stubBazelCommand } from '../mocks';
+
+const events = [
+  { id: { started: {} }, started: { command: 'test' } },
+  {
+    id: { testResult: { label: '//pkg:a_test', run: 1, shard: 1, attempt: 1 } },
+    testResult: {
+      status: 'PASSED',
+      cachedLocally: true,
+      testAttemptDurationMillis: '300',
+      testActionOutput: [
+        { name: 'test.log', uri: 'file:///tmp/testlogs/pkg/a_test/test.log' },
+        { name: 'test.xml', uri: 'file:///tmp/testlogs/pkg/a_test/test.xml' }
+      ],
+      executionInfo: { strategy: 'linux-sandbox' }
+    }
+  },
+  {
+    id: { testResult: { label: '//pkg:b_test', run: 1, shard: 1, attempt: 2 } },
+    testResult: { status: 'FAILED', testAttemptDuration: '1.5s', executionInfo: { cachedRemotely: true } }
+  },
+  {
+    id: { testResult: { label: '//pkg:b_test', run: 1, shard: 1, attempt: 1 } },
+    testResult: { status: 'FAILED', testAttemptDuration: '1.2s' }
+  },
+  {
+    id: { testSummary: { label: '//pkg:a_test' } },
+    testSummary: { overallStatus: 'PASSED', totalRunCount: 1, totalNumCached: 1, totalRunDurationMillis: '300' }
+  },
+  {
+    id: { testSummary: { label: '//pkg:b_test' } },
+    testSummary: { overallStatus: 'FAILED', totalRunCount: 1, attemptCount: 2, totalRunDuration: '2.7s' }
+  },
+  {
+    id: { targetCompleted: { label: '//pkg:broken_test' } },
+    completed: { failureDetail: { message: 'Compiling pkg/broken_test.cc failed: (Exit 1)' } }
+  },
+  {
+    id: { actionCompleted: { primaryOutput: 'bazel-out/pkg/broken_test.o', label: '//pkg:broken_test' } },
+    action: { success: false, label: '//pkg:broken_test', failureDetail: { message: 'C++ compilation of rule failed' } }
+  },
+  { id: { buildFinished: {} }, finished: { overallSuccess: false, exitCode: { name: 'BUILD_FAILURE', code: 1 } } }
+];
+
+const BEP_STREAM = events.map(event => JSON.stringify(event)).join('\n') + '\n{"truncated":';
+
+suite('Build Event Protocol', () => {
+  test('parses test results with cache, attempt, duration and outputs', () => {
+    const summary = parseBuildEventStream(BEP_STREAM);
+
+    assert.strictEqual(summary.testResults.length, 3);
+    const [passed] = getTestResultsForTarget(summary, '//pkg:a_test');
+    assert.strictEqual(passed.status, 'PASSED');
+    assert.strictEqual(passed.cachedLocally, true);
+    assert.strictEqual(passed.durationMs, 300);
+    assert.strictEqual(passed.strategy, 'linux-sandbox');
+    assert.strictEqual(passed.outputs['test.log'], '/tmp/testlogs/pkg/a_test/test.log');
+  });
+
+  test('orders attempts and reads Duration strings', () => {
+    const summary = parseBuildEventStream(BEP_STREAM);
+    const attempts = getTestResultsForTarget(summary, '//pkg:b_test');
+
+    assert.deepStrictEqual(attempts.map(a => a.attempt), [1, 2]);
+    assert.strictEqual(attempts[1].durationMs, 1500);
+    assert.strictEqual(attempts[1].cachedRemotely, true);
+    assert.strictEqual(summary.testSummaries.get('//pkg:b_test')?.durationMs, 2700);
+    assert.strictEqual(summary.testSummaries.get('//pkg:b_test')?.attemptCount, 2);
+  });
+
+  test('collects build failures and the final exit code', () => {
+    const summary = parseBuildEventStream(BEP_STREAM);
+
+    assert.strictEqual(summary.targets.get('//pkg:broken_test')?.success, false);
+    assert.deepStrictEqual(
+      summary.failures.map(f => f.message),
+      ['Compiling pkg/broken_test.cc failed: (Exit 1)', 'C++ compilation of rule failed']
+    );
+    assert.deepStrictEqual(summary.finished, { overallSuccess: false, exitCode: 1, exitName: 'BUILD_FAILURE' });
+  });
+
+  test('formats statuses and finds explicit file arguments', () => {
+    assert.strictEqual(formatBepStatus('FAILED_TO_BUILD'), 'FAILED TO BUILD');
+    assert.strictEqual(findBuildEventFileArg(['--config=ci', '--build_event_json_file=/tmp/bep.json']), '/tmp/bep.json');
+    assert.strictEqual(findBuildEventFileArg(['--config=ci']), undefined);
+  });
+
+  test('returns undefined for missing files', async () => {
+    const result = await readBuildEventFile(path.join(os.tmpdir(), 'bazel-test-explorer-missing-bep.json'));
+    assert.strictEqual(result, undefined);
+  });
+
+  suite('runner integration', () => {
+    let restoreBazelCommand: () => void;
+    let originalLoader: TestXmlLoader;
+    let writtenFile: string | undefined;
+    const mockConfig = createMockConfiguration();
+
+    setup(() => {
+      writtenFile = undefined;
+      originalLoader = getTestXmlLoader();
+      setTestXmlLoader(async () => null);
+      restoreBazelCommand = stubBazelCommand(async (args: string[]) => {
+        if (args[0] === 'info') {
+          return { code: 1, stdout: '', stderr: 'no testlogs in this test' };
+        }
+        const flag = args.find(a => a.startsWith('--build_event_json_file='));
+        writtenFile = flag?.split('=')[1];
+        if (writtenFile) {
+          fs.writeFileSync(writtenFile, BEP_STREAM);
+        }
+        // stdout intentionally carries no summary lines: status must come from BEP
+        return { code: 1, stdout: '', stderr: '' };
+      });
+    });
+
+    teardown(() => {
+      restoreBazelCommand();
+      setTestXmlLoader(originalLoader);
+    });
+
+    test('reports per-target status from the event stream and removes the temp file', async () => {
+      const run = new MockTestRun();
+      const items = ['a_test', 'b_test', 'broken_test'].map(name =>
+        new MockTestItem(`//pkg:${name}`, `[cc_test] ${name}`) as unknown as vscode.TestItem
+      );
+
+      await executeBazelTestBatch(items, '/workspace', (run as unknown) as vscode.TestRun, mockConfig);
+
+      assert.ok(writtenFile, 'Expected --build_event_json_file to be passed');
+      assert.strictEqual(fs.existsSync(writtenFile!), false, 'Temp BEP file should be removed');
+      assert.deepStrictEqual(run.getPassedTests().map(t => t.id), ['//pkg:a_test']);
+      assert.deepStrictEqual(run.getFailedTests().map(t => t.id), ['//pkg:b_test']);
+      assert.deepStrictEqual(run.getErroredTests().map(t => t.id), ['//pkg:broken_test']);
+    });
+  });
+});
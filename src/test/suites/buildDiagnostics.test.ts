@@ -0,0 +1,132 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { executeBazelTest } from '../../bazel/runner';
+import {
+  clearBuildDiagnostics,
+  disposeBuildDiagnostics,
+  parseCompilerOutput,
+  reportBuildDiagnostics
+} from '../../bazel/buildDiagnostics';
+import { getTestXmlLoader, setTestXmlLoader, TestXmlLoader } from '../../bazel/testcase/testResultParser';
+import { createMockConfiguration, MockTestItem, MockTestRun, stubBazelCommand } from '../mocks';
+
+suite('Build diagnostics', () => {
+  test('parses gcc/clang and javac errors', () => {
+    const messages = parseCompilerOutput([
+      'ERROR: /ws/pkg/BUILD:3:8: Compiling pkg/calc.cc failed: (Exit 1): gcc failed: error executing command',
+      'pkg/calc.cc:12:5: error: use of undeclared identifier \'y\'',
+      'pkg/calc.cc:7:1: warning: unused variable \'z\' [-Wunused-variable]',
+      'pkg/calc.cc:12:5: error: use of undeclared identifier \'y\'',
+      'java/com/example/Calc.java:21: error: cannot find symbol'
+    ]);
+    assert.deepStrictEqual(messages.map(m => [m.compiler, m.severity, m.file, m.line, m.column]), [
+      ['gcc/clang', 'error', 'pkg/calc.cc', 12, 5],
+      ['gcc/clang', 'warning', 'pkg/calc.cc', 7, 1],
+      ['javac', 'error', 'java/com/example/Calc.java', 21, undefined]
+    ]);
+  });
+
+  test('parses rustc and go errors', () => {
+    const messages = parseCompilerOutput([
+      'error[E0425]: cannot find value `x` in this scope',
+      '  --> pkg/src/lib.rs:3:5',
+      '   |',
+      'error: aborting due to 1 previous error',
+      'compilepkg: pkg/main.go:7:2: undefined: Foo'
+    ]);
+    assert.deepStrictEqual(messages.map(m => [m.compiler, m.file, m.line, m.column, m.code, m.message]), [
+      ['rustc', 'pkg/src/lib.rs', 3, 5, 'E0425', 'cannot find value `x` in this scope'],
+      ['go', 'pkg/main.go', 7, 2, undefined, 'undefined: Foo']
+    ]);
+  });
+
+  suite('reporting', () => {
+    let workspacePath: string;
+    let restoreBazelCommand: () => void;
+    let originalLoader: TestXmlLoader;
+    let result: { code: number; stdout: string; stderr: string };
+    let published: Map<string, readonly vscode.Diagnostic[]>;
+    let originalCreate: typeof vscode.languages.createDiagnosticCollection;
+    const mockConfig = createMockConfiguration();
+
+    setup(() => {
+      workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'build-diagnostics-'));
+      fs.mkdirSync(path.join(workspacePath, 'pkg'));
+      fs.writeFileSync(path.join(workspacePath, 'pkg', 'calc.cc'), '');
+
+      // Drop a collection created by earlier suites so the stub below is used
+      disposeBuildDiagnostics();
+      published = new Map();
+      originalCreate = vscode.languages.createDiagnosticCollection;
+      (vscode.languages as any).createDiagnosticCollection = () => ({
+        set: (uri: vscode.Uri, diagnostics: readonly vscode.Diagnostic[]) => published.set(uri.fsPath, diagnostics),
+        clear: () => published.clear(),
+        dispose: () => published.clear()
+      });
+
+      originalLoader = getTestXmlLoader();
+      setTestXmlLoader(async () => null);
+      restoreBazelCommand = stubBazelCommand(async (args: string[]) =>
+        args[0] === 'info' ? { code: 1, stdout: '', stderr: '' } : result);
+    });
+
+    teardown(() => {
+      disposeBuildDiagnostics();
+      (vscode.languages as any).createDiagnosticCollection = originalCreate;
+      restoreBazelCommand();
+      setTestXmlLoader(originalLoader);
+      fs.rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    test('merges targets and clears only the target that built', () => {
+      const messages = parseCompilerOutput(['pkg/calc.cc:12:5: error: use of undeclared identifier \'y\'']);
+      reportBuildDiagnostics('//pkg:a_test', messages, workspacePath);
+      reportBuildDiagnostics('//pkg:b_test', messages, workspacePath);
+      const file = path.join(workspacePath, 'pkg', 'calc.cc');
+      assert.strictEqual(published.get(file)?.length, 1);
+      assert.strictEqual(published.get(file)?.[0].source, 'Bazel (gcc/clang)');
+
+      clearBuildDiagnostics('//pkg:a_test');
+      assert.strictEqual(published.get(file)?.length, 1);
+      clearBuildDiagnostics('//pkg:b_test');
+      assert.strictEqual(published.has(file), false);
+    });
+
+    test('marks the target errored on build failure and clears after a passing run', async () => {
+      const file = path.join(workspacePath, 'pkg', 'calc.cc');
+      const item = new MockTestItem('//pkg:calc_test', '[cc_test] calc_test') as unknown as vscode.TestItem;
+
+      result = {
+        code: 1,
+        stdout: '',
+        stderr: [
+          'ERROR: /ws/pkg/BUILD:3:8: Compiling pkg/calc.cc failed: (Exit 1)',
+          'pkg/calc.cc:12:5: error: use of undeclared identifier \'y\'',
+          'Target //pkg:calc_test failed to build'
+        ].join('\n')
+      };
+      const failedRun = new MockTestRun();
+      await executeBazelTest(item, workspacePath, (failedRun as unknown) as vscode.TestRun, mockConfig);
+      assert.deepStrictEqual(failedRun.getErroredTests().map(t => t.id), ['//pkg:calc_test']);
+      assert.strictEqual(failedRun.getFailedTests().length, 0);
+      assert.strictEqual(published.get(file)?.[0].range.start.line, 11);
+
+      result = { code: 0, stdout: '//pkg:calc_test PASSED in 0.1s', stderr: '' };
+      const passedRun = new MockTestRun();
+      await executeBazelTest(item, workspacePath, (passedRun as unknown) as vscode.TestRun, mockConfig);
+      assert.strictEqual(published.has(file), false);
+    });
+  });
+});
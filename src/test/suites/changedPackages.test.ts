@@ -0,0 +1,154 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { getTestTargetById, getTestTargets, queryChangedPackages, restoreTestTargets } from '../../bazel/queries';
+import { collectChangedPackages, toWatchedRelativePath } from '../../explorer/controller/buildFileChanges';
+import { createMockBazelTestTarget, createMockConfiguration, stubBazelCommand } from '../mocks';
+
+const rule = (name: string, ruleClass = 'cc_test', size = 'small') => JSON.stringify({
+  type: 'RULE',
+  rule: { name, ruleClass, attribute: [{ name: 'size', stringValue: size }] }
+});
+
+suite('Changed packages', () => {
+  let workspacePath: string;
+
+  const writeBuild = (dir: string, name = 'BUILD') => {
+    fs.mkdirSync(path.join(workspacePath, dir), { recursive: true });
+    fs.writeFileSync(path.join(workspacePath, dir, name), '');
+  };
+
+  setup(() => {
+    workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'changed-packages-'));
+  });
+
+  teardown(() => {
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  suite('collectChangedPackages', () => {
+    test('maps BUILD files to their package and the enclosing package', () => {
+      writeBuild('');
+      writeBuild('app');
+      writeBuild('app/core/net', 'BUILD.bazel');
+
+      assert.deepStrictEqual(collectChangedPackages(['app/core/net/BUILD.bazel'], workspacePath), {
+        packages: ['//app', '//app/core/net'],
+        fullReload: false
+      });
+      assert.deepStrictEqual(collectChangedPackages(['app/BUILD'], workspacePath).packages, ['//', '//app']);
+      assert.deepStrictEqual(collectChangedPackages(['BUILD'], workspacePath).packages, ['//']);
+    });
+
+    test('treats deleted BUILD files and directories as removed packages', () => {
+      writeBuild('app');
+
+      // app/old/BUILD was deleted; app gains the files of the former subpackage
+      assert.deepStrictEqual(collectChangedPackages(['app/old/BUILD'], workspacePath).packages, ['//app', '//app/old']);
+      assert.deepStrictEqual(collectChangedPackages(['gone'], workspacePath).packages, ['//gone']);
+    });
+
+    test('searches created or renamed directories for packages', () => {
+      writeBuild('moved');
+      writeBuild('moved/sub/pkg', 'BUILD.bazel');
+      fs.mkdirSync(path.join(workspacePath, 'moved', '.hidden'));
+      fs.writeFileSync(path.join(workspacePath, 'moved', '.hidden', 'BUILD'), '');
+
+      assert.deepStrictEqual(collectChangedPackages(['moved'], workspacePath).packages, ['//moved', '//moved/sub/pkg']);
+    });
+
+    test('WORKSPACE and MODULE changes need a full reload', () => {
+      assert.strictEqual(collectChangedPackages(['MODULE.bazel'], workspacePath).fullReload, true);
+      assert.strictEqual(collectChangedPackages(['WORKSPACE'], workspacePath).fullReload, true);
+    });
+
+    test('ignores paths outside the workspace and in output or hidden directories', () => {
+      assert.strictEqual(toWatchedRelativePath(path.join(workspacePath, 'a', 'BUILD'), workspacePath), 'a/BUILD');
+      assert.strictEqual(toWatchedRelativePath(path.join(workspacePath, 'bazel-out', 'BUILD'), workspacePath), undefined);
+      assert.strictEqual(toWatchedRelativePath(path.join(workspacePath, '.git', 'BUILD'), workspacePath), undefined);
+      assert.strictEqual(toWatchedRelativePath(path.join(os.tmpdir(), 'BUILD'), workspacePath), undefined);
+    });
+  });
+
+  suite('queryChangedPackages', () => {
+    let restoreBazelCommand: () => void;
+    let calls: string[][];
+    let result: { code: number; lines: string[] };
+
+    const configWith = (queryPaths: string[]) => createMockConfiguration({ queryPaths, testTypes: ['cc_test'] });
+
+    setup(() => {
+      calls = [];
+      result = { code: 0, lines: [] };
+      restoreBazelCommand = stubBazelCommand(async (args: string[], _cwd: string, onLine?: (line: string) => void) => {
+        calls.push(args);
+        result.lines.forEach(line => onLine?.(line));
+        return { code: result.code, stdout: result.lines.join('\n'), stderr: 'ERROR: boom' };
+      });
+      writeBuild('a');
+      writeBuild('b');
+      restoreTestTargets(['//a:old_test', '//a:kept_test', '//a:resized_test', '//b:x_test', '//gone:y_test'].map(
+        label => createMockBazelTestTarget({ target: label, location: undefined, srcs: [], tags: [], timeout: undefined, toolchain: undefined, visibility: [], flaky: false })
+      ));
+    });
+
+    teardown(() => {
+      restoreBazelCommand();
+      restoreTestTargets([]);
+    });
+
+    test('queries only the changed package and merges the result', async () => {
+      result.lines = [rule('//a:kept_test'), rule('//a:resized_test', 'cc_test', 'large'), rule('//a:new_test')];
+
+      const diff = await queryChangedPackages(['//a'], workspacePath, configWith(['//...']));
+
+      assert.strictEqual(calls.length, 1);
+      assert.strictEqual(calls[0][1], 'kind(cc_test, //a:*) union kind(test_suite, //a:*)');
+      assert.deepStrictEqual(diff.added.map(t => t.target), ['//a:new_test']);
+      assert.deepStrictEqual(diff.changed.map(t => t.target), ['//a:resized_test']);
+      // //gone lost its BUILD file, so its targets are dropped as well
+      assert.deepStrictEqual(diff.removed.sort(), ['//a:old_test', '//gone:y_test']);
+      assert.deepStrictEqual(
+        getTestTargets().map(t => t.target).sort(),
+        ['//a:kept_test', '//a:new_test', '//a:resized_test', '//b:x_test']
+      );
+      assert.strictEqual(getTestTargetById('//a:resized_test')?.size, 'large');
+    });
+
+    test('removes deleted packages without querying them', async () => {
+      fs.rmSync(path.join(workspacePath, 'a'), { recursive: true });
+
+      const diff = await queryChangedPackages(['//a'], workspacePath, configWith(['//...']));
+
+      assert.strictEqual(calls.length, 0);
+      assert.deepStrictEqual(diff.removed.sort(), ['//a:kept_test', '//a:old_test', '//a:resized_test', '//gone:y_test']);
+      assert.deepStrictEqual(getTestTargets().map(t => t.target), ['//b:x_test']);
+    });
+
+    test('stays within the configured query paths', async () => {
+      writeBuild('c');
+      await queryChangedPackages(['//c', '//b'], workspacePath, configWith(['//b/...', '//c:only_test']));
+      assert.strictEqual(calls[0][1], 'kind(cc_test, //b:* + //c:only_test) union kind(test_suite, //b:* + //c:only_test)');
+
+      calls = [];
+      await queryChangedPackages(['//c'], workspacePath, configWith(['//b/...']));
+      assert.strictEqual(calls.length, 0);
+    });
+
+    test('keeps the known targets when the query fails', async () => {
+      result = { code: 2, lines: [] };
+      await assert.rejects(queryChangedPackages(['//a'], workspacePath, configWith(['//...'])), /Invalid Command Line \(Code 2\)/);
+      assert.strictEqual(getTestTargets().length, 5);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+  cancelQueuedBazelCommands,
+  getScheduledCommands,
+  parseServerLockMessage,
+  QueuedCommandCancelledError,
+  resolveOutputBaseKey,
+  scheduleBazelCommand
+} from '../../infrastructure/process';
+import { formatCommandQueueStatus } from '../../explorer/commandQueueStatus';
+
+/** A task that runs until `release` is called */
+function blockingTask(order: string[], name: string): { task: () => Promise<string>; release: () => void } {
+  let release = () => {};
+  const task = () => new Promise<string>(resolve => {
+    order.push(name);
+    release = () => resolve(name);
+  });
+  return { task, release: () => release() };
+}
+
+const tick = () => new Promise(resolve => setImmediate(resolve));
+
+suite('Command scheduler', () => {
+  const workspace = path.join(path.sep, 'ws');
+
+  teardown(() => {
+    cancelQueuedBazelCommands();
+  });
+
+  test('resolves the output base from startup options', () => {
+    assert.strictEqual(resolveOutputBaseKey(['test', '//pkg:a_test'], workspace), workspace);
+    assert.strictEqual(
+      resolveOutputBaseKey(['--output_base=/tmp/ob', 'query', '//...'], workspace),
+      path.resolve('/tmp/ob')
+    );
+    // Command options after the command do not select an output base
+    assert.strictEqual(resolveOutputBaseKey(['test', '--output_base=/tmp/ob'], workspace), workspace);
+  });
+
+  test('parses the server lock message of current and older Bazel versions', () => {
+    assert.strictEqual(
+      parseServerLockMessage('Another command (pid=4242) is running. Waiting for it to complete on the server (server_pid=17)...'),
+      4242
+    );
+    assert.strictEqual(parseServerLockMessage('Another command is running (pid = 99).  Waiting for it to complete...'), 99);
+    assert.strictEqual(parseServerLockMessage('INFO: Analyzed 3 targets'), undefined);
+  });
+
+  test('runs one command per output base and starts interactive before background work', async () => {
+    const order: string[] = [];
+    const first = blockingTask(order, 'first');
+    const discovery = blockingTask(order, 'discovery');
+    const run = blockingTask(order, 'run');
+    const other = blockingTask(order, 'other-base');
+    const notices: string[] = [];
+
+    const results = [
+      scheduleBazelCommand(['test', '//a'], workspace, first.task),
+      scheduleBazelCommand(['query', '//...'], workspace, discovery.task, { priority: 'background' }),
+      scheduleBazelCommand(['test', '//b'], workspace, run.task, { onQueued: notice => notices.push(notice) }),
+      scheduleBazelCommand(['--output_base=/tmp/other', 'query', '//...'], workspace, other.task)
+    ];
+    await tick();
+
+    assert.deepStrictEqual(order, ['first', 'other-base']);
+    assert.deepStrictEqual(
+      getScheduledCommands().map(command => [command.description, command.state]),
+      [['bazel test //a', 'running'], ['bazel test //b', 'queued'], ['bazel query //...', 'queued'], ['bazel query //...', 'running']]
+    );
+    assert.ok(notices[0].includes('position 1') && notices[0].includes('bazel test //a'));
+
+    first.release();
+    await tick();
+    assert.deepStrictEqual(order, ['first', 'other-base', 'run']);
+    run.release();
+    await tick();
+    discovery.release();
+    other.release();
+    assert.deepStrictEqual(await Promise.all(results), ['first', 'discovery', 'run', 'other-base']);
+    assert.deepStrictEqual(order, ['first', 'other-base', 'run', 'discovery']);
+    assert.deepStrictEqual(getScheduledCommands(), []);
+  });
+
+  test('cancels queued commands by token or by id before they start', async () => {
+    const order: string[] = [];
+    const running = blockingTask(order, 'running');
+    const byToken = blockingTask(order, 'by-token');
+    const byId = blockingTask(order, 'by-id');
+    const source = new vscode.CancellationTokenSource();
+
+    const runningResult = scheduleBazelCommand(['test', '//a'], workspace, running.task);
+    const tokenResult = scheduleBazelCommand(['test', '//b'], workspace, byToken.task, {}, source.token);
+    const idResult = scheduleBazelCommand(['coverage', '//c'], workspace, byId.task);
+    await tick();
+
+    source.cancel();
+    await assert.rejects(tokenResult, QueuedCommandCancelledError);
+    const queuedId = getScheduledCommands().find(command => command.state === 'queued')!.id;
+    assert.strictEqual(cancelQueuedBazelCommands([queuedId]), 1);
+    await assert.rejects(idResult, /bazel coverage \/\/c was cancelled before it started/);
+
+    running.release();
+    assert.strictEqual(await runningResult, 'running');
+    assert.deepStrictEqual(order, ['running']);
+  });
+
+  test('reports commands blocked on the server lock', async () => {
+    let setBlocked: (blockedBy: number | undefined) => void = () => {};
+    let finish = () => {};
+    const result = scheduleBazelCommand(['test', '//a'], workspace, update => {
+      setBlocked = update;
+      return new Promise<void>(resolve => { finish = resolve; });
+    });
+    const queued = scheduleBazelCommand(['query', '//...'], workspace, async () => undefined, { priority: 'background' });
+    await tick();
+
+    setBlocked(4242);
+    const status = formatCommandQueueStatus(getScheduledCommands());
+    assert.strictEqual(status?.text, '$(lock) Bazel: locked by pid 4242, 1 queued');
+    assert.ok(status?.tooltip.includes('bazel query //... (background)'));
+
+    setBlocked(undefined);
+    assert.strictEqual(formatCommandQueueStatus(getScheduledCommands())?.text, '$(clock) Bazel: 1 queued');
+
+    finish();
+    await result;
+    await queued;
+    assert.strictEqual(formatCommandQueueStatus(getScheduledCommands()), undefined);
+  });
+});
@@ -0,0 +1,100 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+  ContinuousRunHost,
+  ContinuousRunSession,
+  isInRequestScope,
+  toWorkspaceRelativePath
+} from '../../explorer/controller/continuousRun';
+import { queryAffectedTestTargets } from '../../bazel/queries';
+import { createMockConfiguration, MockTestItem, stubBazelCommand } from '../mocks';
+
+const WORKSPACE = path.join(path.sep, 'ws');
+
+suite('Continuous run', () => {
+  test('maps changed files to workspace-relative paths', () => {
+    assert.strictEqual(toWorkspaceRelativePath(vscode.Uri.file(path.join(WORKSPACE, 'pkg', 'math.cc')), WORKSPACE), 'pkg/math.cc');
+    assert.strictEqual(toWorkspaceRelativePath(vscode.Uri.file(path.join(WORKSPACE, 'bazel-out', 'x.o')), WORKSPACE), undefined);
+    assert.strictEqual(toWorkspaceRelativePath(vscode.Uri.file(path.join(WORKSPACE, '.git', 'index')), WORKSPACE), undefined);
+    assert.strictEqual(toWorkspaceRelativePath(vscode.Uri.file(path.join(path.sep, 'other', 'a.cc')), WORKSPACE), undefined);
+  });
+
+  test('limits reruns to the included items', () => {
+    const pkg = new MockTestItem('//pkg', 'pkg');
+    const target = new MockTestItem('//pkg:math_test', '[cc_test] math_test');
+    pkg.addChild(target);
+    (target as any).parent = pkg;
+    const other = new MockTestItem('//other:io_test', '[cc_test] io_test');
+    const asItem = (item: MockTestItem) => item as unknown as vscode.TestItem;
+
+    assert.ok(isInRequestScope(asItem(target), new vscode.TestRunRequest()));
+    assert.ok(isInRequestScope(asItem(target), new vscode.TestRunRequest([asItem(pkg)])));
+    assert.ok(!isInRequestScope(asItem(other), new vscode.TestRunRequest([asItem(pkg)])));
+    assert.ok(!isInRequestScope(asItem(target), new vscode.TestRunRequest(undefined, [asItem(pkg)])));
+  });
+
+  test('builds an rdeps query over the query paths limited to test types', async () => {
+    let captured: string[] = [];
+    const restoreBazelCommand = stubBazelCommand(async (args: string[]) => {
+      captured = args;
+      return { code: 0, stdout: '//pkg:math_test\n', stderr: '' };
+    });
+    try {
+      const config = createMockConfiguration({ queryPaths: ['//pkg'] });
+      const labels = await queryAffectedTestTargets(['pkg/math.cc', 'bad file.cc'], WORKSPACE, config);
+
+      assert.deepStrictEqual(labels, ['//pkg:math_test']);
+      assert.strictEqual(
+        captured[1],
+        'let affected = rdeps(//pkg/..., set("pkg/math.cc")) in kind(cc_test, $affected) union kind(py_test, $affected)'
+      );
+    } finally {
+      restoreBazelCommand();
+    }
+  });
+
+  test('cancels the in-flight run when new changes arrive', async () => {
+    const target = new MockTestItem('//pkg:math_test', '[cc_test] math_test') as unknown as vscode.TestItem;
+    const tokens: vscode.CancellationToken[] = [];
+    const queried: string[][] = [];
+    let releaseFirstRun: () => void = () => undefined;
+    const host: ContinuousRunHost = {
+      workspaceRoot: WORKSPACE,
+      debounceMs: 10,
+      queryAffectedTests: async (files) => {
+        queried.push(files);
+        return ['//pkg:math_test', '//pkg:unknown_test'];
+      },
+      findTestItemById: (id) => (id === target.id ? target : undefined),
+      runTests: (request, token) => {
+        assert.deepStrictEqual(request.include?.map(i => i.id), ['//pkg:math_test']);
+        tokens.push(token);
+        return tokens.length === 1 ? new Promise<void>(resolve => { releaseFirstRun = resolve; }) : Promise.resolve();
+      }
+    };
+    const session = new ContinuousRunSession(new vscode.TestRunRequest(), host);
+
+    session.notifyFileChanged(vscode.Uri.file(path.join(WORKSPACE, 'pkg', 'math.cc')));
+    session.notifyFileChanged(vscode.Uri.file(path.join(WORKSPACE, 'pkg', 'math.h')));
+    await new Promise(resolve => setTimeout(resolve, 30));
+    assert.deepStrictEqual(queried, [['pkg/math.cc', 'pkg/math.h']]);
+
+    session.notifyFileChanged(vscode.Uri.file(path.join(WORKSPACE, 'pkg', 'math.cc')));
+    await new Promise(resolve => setTimeout(resolve, 30));
+    releaseFirstRun();
+
+    assert.strictEqual(tokens.length, 2);
+    assert.ok(tokens[0].isCancellationRequested);
+    session.dispose();
+  });
+});
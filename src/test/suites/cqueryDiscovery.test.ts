@@ -0,0 +1,150 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import {
+  buildCqueryFlags,
+  getDiscoveryKeyArgs,
+  getTestTargetById,
+  parseCqueryOutput,
+  queryConfiguredTestTargets,
+  restoreTestTargets
+} from '../../bazel/queries';
+import { QueryCache } from '../../bazel/cache';
+import { applyTestTreeDiff } from '../../explorer/tree';
+import { createMockConfiguration, MockConfigurationService, MockTestController, MockTestItem, stubBazelCommand } from '../mocks';
+
+const rule = (name: string, size: string, srcs: string[] = []) => ({
+  type: 'RULE',
+  rule: {
+    name,
+    ruleClass: 'cc_test',
+    location: '/ws/pkg/BUILD:3:8',
+    attribute: [
+      { name: 'size', stringValue: size },
+      { name: 'srcs', stringListValue: srcs }
+    ]
+  }
+});
+
+suite('cquery discovery', () => {
+  const configWith = (overrides: Partial<MockConfigurationService>) => createMockConfiguration({
+    queryPaths: ['//pkg/...'],
+    testTypes: ['cc_test'],
+    discoveryMode: 'cquery',
+    ...overrides
+  });
+
+  test('parses targets with the configuration of each result', () => {
+    const stdout = JSON.stringify({
+      results: [
+        { target: rule('@@//pkg:a_test', 'small', ['@@//pkg:a_test.cc']), configuration: { checksum: 'abc123def456', mnemonic: 'k8-fastbuild', platformName: 'k8', isTool: false } },
+        { target: { type: 'SOURCE_FILE' }, configuration: { checksum: 'abc123def456' } }
+      ]
+    });
+
+    const [target] = parseCqueryOutput(stdout);
+    assert.strictEqual(target.target, '//pkg:a_test');
+    assert.strictEqual(target.size, 'small');
+    assert.deepStrictEqual(target.srcs, ['//pkg:a_test.cc']);
+    assert.strictEqual(target.configuration, 'k8-fastbuild');
+    assert.deepStrictEqual(parseCqueryOutput(''), []);
+  });
+
+  test('looks up configurations by checksum and prefers target over tool configurations', () => {
+    const stdout = JSON.stringify({
+      configurations: [
+        { checksum: 'tool', mnemonic: 'k8-opt-exec-ST-1', isTool: true },
+        { checksum: 'target', mnemonic: 'aarch64-dbg', isTool: false }
+      ],
+      results: [
+        { target: rule('//pkg:a_test', 'large'), configuration: { checksum: 'tool' } },
+        { target: rule('//pkg:a_test', 'small'), configuration: { checksum: 'target' } },
+        { target: rule('//pkg:b_test', 'small'), configuration: { checksum: 'unknown-checksum' } }
+      ]
+    });
+
+    const targets = parseCqueryOutput(stdout);
+    assert.deepStrictEqual(targets.map(t => [t.target, t.size, t.configuration]), [
+      ['//pkg:a_test', 'small', 'aarch64-dbg'],
+      ['//pkg:b_test', 'small', 'unknown-']
+    ]);
+  });
+
+  test('applies build flags of testArgs and cqueryArgs but not test-only flags', () => {
+    const config = configWith({
+      testArgs: ['--config=asan', '--test_output=errors', '--notest_keep_going', '--nocache_test_results', '--runs_per_test=3', '--copt=-O1', '--build_event_json_file=/tmp/bep.json'],
+      cqueryArgs: ['--platforms=//platforms:arm64']
+    });
+
+    assert.deepStrictEqual(buildCqueryFlags(config), ['--config=asan', '--copt=-O1', '--platforms=//platforms:arm64']);
+    assert.deepStrictEqual(getDiscoveryKeyArgs(config), ['cquery', '--config=asan', '--copt=-O1', '--platforms=//platforms:arm64']);
+    assert.deepStrictEqual(getDiscoveryKeyArgs(configWith({ discoveryMode: 'query', testArgs: ['--config=asan'] })), []);
+    assert.notStrictEqual(
+      QueryCache.createKey(['//...'], ['cc_test'], getDiscoveryKeyArgs(config)),
+      QueryCache.createKey(['//...'], ['cc_test'])
+    );
+  });
+
+  suite('queries', () => {
+    let restoreBazelCommand: () => void;
+    let calls: string[][];
+    let result: { code: number; stdout: string };
+
+    setup(() => {
+      calls = [];
+      result = { code: 0, stdout: JSON.stringify({ results: [{ target: rule('//pkg:a_test', 'small'), configuration: { mnemonic: 'k8-fastbuild' } }] }) };
+      restoreBazelCommand = stubBazelCommand(async (args: string[]) => {
+        calls.push(args);
+        return { code: result.code, stdout: result.stdout, stderr: '' };
+      });
+    });
+
+    teardown(() => {
+      restoreBazelCommand();
+      restoreTestTargets([]);
+    });
+
+    test('runs one cquery with the rc files and flags of test runs', async () => {
+      const targets = await queryConfiguredTestTargets('/workspace', configWith({
+        queryPaths: ['//pkg/...', '//other:b_test'],
+        ignoreRcFiles: true,
+        bazelrcFiles: ['ci.bazelrc'],
+        cqueryArgs: ['--config=linux']
+      }));
+
+      assert.deepStrictEqual(calls, [[
+        '--ignore_all_rc_files', '--bazelrc=ci.bazelrc', 'cquery',
+        'kind(cc_test, //pkg/... + //other:b_test) union kind(test_suite, //pkg/... + //other:b_test)',
+        '--keep_going', '--output=jsonproto', '--config=linux'
+      ]]);
+      assert.deepStrictEqual(targets.map(t => t.target), ['//pkg:a_test']);
+      assert.strictEqual(getTestTargetById('//pkg:a_test')?.configuration, 'k8-fastbuild');
+    });
+
+    test('fails with the exit code of cquery', async () => {
+      result = { code: 2, stdout: '' };
+      await assert.rejects(queryConfiguredTestTargets('/workspace', configWith({})), /bazel cquery failed: Invalid Command Line/);
+    });
+  });
+
+  test('shows the configuration in the tree', () => {
+    const controller = new MockTestController();
+    const config = createMockConfiguration();
+    const [target] = parseCqueryOutput(JSON.stringify({
+      results: [{ target: rule('//pkg:a_test', 'small'), configuration: { mnemonic: 'k8-fastbuild' } }]
+    }));
+
+    applyTestTreeDiff(controller as unknown as vscode.TestController, { added: [target], changed: [], removed: [] }, config);
+
+    const item = (controller.items.get('//pkg') as MockTestItem).childrenMap.get('//pkg:a_test');
+    assert.strictEqual(item?.description, 'Target: //pkg:a_test ⚙️ k8-fastbuild');
+  });
+});
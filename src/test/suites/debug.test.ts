@@ -0,0 +1,185 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+  buildDebugConfiguration,
+  buildTestFilterEnv,
+  PreparedDebugTarget,
+  releaseDebugTarget,
+  resolveDebugLanguage,
+  selectTestBinary,
+  tagDebugConfiguration,
+  trackDebugSession
+} from '../../bazel/debug';
+import { BazelTestTarget } from '../../bazel/types';
+import { createMockConfiguration } from '../mocks';
+
+suite('Debug profile', () => {
+  const prepared: PreparedDebugTarget = {
+    targetLabel: '//pkg:math_test',
+    binary: '/exec/bazel-out/k8-dbg/bin/pkg/math_test',
+    runfilesDir: '/exec/bazel-out/k8-dbg/bin/pkg/math_test.runfiles',
+    workspaceName: '_main',
+    env: { TEST_SRCDIR: '/exec/bazel-out/k8-dbg/bin/pkg/math_test.runfiles' }
+  };
+  const config = (cppDebugger: 'cppdbg' | 'lldb') => createMockConfiguration({ cppDebugger, debugBuildArgs: [] });
+
+  test('maps rule types to debugger languages', () => {
+    assert.strictEqual(resolveDebugLanguage(undefined, 'cc_test'), 'cpp');
+    assert.strictEqual(resolveDebugLanguage(undefined, 'rust_test'), 'cpp');
+    assert.strictEqual(resolveDebugLanguage(undefined, 'py_test'), 'python');
+    assert.strictEqual(resolveDebugLanguage(undefined, 'go_test'), 'go');
+    assert.strictEqual(resolveDebugLanguage(undefined, 'java_test'), 'java');
+    assert.strictEqual(resolveDebugLanguage(undefined, 'sh_test'), undefined);
+  });
+
+  test('selects the binary named after the target', () => {
+    const files = [
+      'bazel-out/k8-dbg/bin/pkg/libmath.a',
+      'bazel-out/k8-dbg/bin/pkg/math_test',
+      ''
+    ];
+    assert.strictEqual(selectTestBinary('//pkg:math_test', files), 'bazel-out/k8-dbg/bin/pkg/math_test');
+    assert.strictEqual(selectTestBinary('//pkg:other', ['a.jar', 'bazel-out/bin/pkg/launcher']), 'bazel-out/bin/pkg/launcher');
+  });
+
+  test('builds filter environment for the selected case', () => {
+    assert.deepStrictEqual(buildTestFilterEnv(undefined), {});
+    assert.deepStrictEqual(buildTestFilterEnv('MathTest.Add', 'gtest'), {
+      TESTBRIDGE_TEST_ONLY: 'MathTest.Add',
+      GTEST_FILTER: 'MathTest.Add'
+    });
+  });
+
+  test('creates cppdbg configuration with runfiles environment', () => {
+    const metadata: BazelTestTarget = { target: '//pkg:math_test', type: 'cc_test', deps: ['@googletest//:gtest_main'] };
+    const launch = buildDebugConfiguration('cpp', prepared, '/ws', config('cppdbg'), metadata, 'MathTest.Add');
+
+    assert.strictEqual(launch.type, 'cppdbg');
+    assert.strictEqual(launch.program, prepared.binary);
+    assert.strictEqual(launch.cwd, path.join(prepared.runfilesDir, '_main'));
+    const env = launch.environment as { name: string; value: string }[];
+    assert.ok(env.some(e => e.name === 'TEST_SRCDIR' && e.value === prepared.runfilesDir));
+    assert.ok(env.some(e => e.name === 'GTEST_FILTER' && e.value === 'MathTest.Add'));
+  });
+
+  test('creates lldb configuration when configured', () => {
+    const launch = buildDebugConfiguration('cpp', prepared, '/ws', config('lldb'));
+    assert.strictEqual(launch.type, 'lldb');
+    assert.strictEqual(launch.env.TEST_SRCDIR, prepared.runfilesDir);
+  });
+
+  test('launches the python main source from runfiles', () => {
+    const metadata: BazelTestTarget = { target: '//pkg:math_test', type: 'py_test', srcs: ['//pkg:math_test.py'] };
+    const launch = buildDebugConfiguration('python', prepared, '/ws', config('cppdbg'), metadata, 'test_add');
+
+    assert.strictEqual(launch.type, 'debugpy');
+    assert.strictEqual(launch.program, path.join(prepared.runfilesDir, '_main', 'pkg', 'math_test.py'));
+    assert.deepStrictEqual(launch.args, ['-k', 'test_add']);
+  });
+
+  test('creates go exec and java attach configurations', () => {
+    const goLaunch = buildDebugConfiguration('go', prepared, '/ws', config('cppdbg'), undefined, 'TestAdd');
+    assert.strictEqual(goLaunch.mode, 'exec');
+    assert.deepStrictEqual(goLaunch.args, ['-test.run', '^TestAdd$']);
+
+    const javaAttach = buildDebugConfiguration('java', prepared, '/ws', config('cppdbg'));
+    assert.strictEqual(javaAttach.request, 'attach');
+    assert.strictEqual(javaAttach.port, 5005);
+  });
+
+  test('removes the TEST_TMPDIR of a debug session', async () => {
+    const tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'debug-release-'));
+    fs.writeFileSync(path.join(tmpDir, 'scratch'), '');
+
+    await releaseDebugTarget({ ...prepared, env: { TEST_TMPDIR: tmpDir } });
+    assert.strictEqual(fs.existsSync(tmpDir), false);
+  });
+
+  suite('session tracking', () => {
+    type Tracker = { onDidSendMessage?: (message: unknown) => void; onExit?: () => void };
+    const original = { ...vscode.debug };
+    let started: vscode.EventEmitter<vscode.DebugSession>;
+    let terminated: vscode.EventEmitter<vscode.DebugSession>;
+    let trackerFactory: { createDebugAdapterTracker: (session: vscode.DebugSession) => Tracker | undefined } | undefined;
+    let stopped: vscode.DebugSession[];
+    let disposed: number;
+
+    const session = (config: vscode.DebugConfiguration) => ({ name: config.name, configuration: config } as vscode.DebugSession);
+
+    setup(() => {
+      started = new vscode.EventEmitter();
+      terminated = new vscode.EventEmitter();
+      stopped = [];
+      disposed = 0;
+      Object.assign(vscode.debug, {
+        onDidStartDebugSession: started.event,
+        onDidTerminateDebugSession: terminated.event,
+        registerDebugAdapterTrackerFactory: (_type: string, factory: typeof trackerFactory) => {
+          trackerFactory = factory;
+          return { dispose: () => { disposed++; } };
+        },
+        stopDebugging: async (stoppedSession: vscode.DebugSession) => { stopped.push(stoppedSession); }
+      });
+    });
+
+    teardown(() => {
+      for (const key of Object.keys(vscode.debug) as (keyof typeof vscode.debug)[]) {
+        if (!(key in original)) {
+          delete (vscode.debug as Partial<typeof vscode.debug>)[key];
+        }
+      }
+      Object.assign(vscode.debug, original);
+    });
+
+    test('reports the exit code of its own session only', async () => {
+      const ours = buildDebugConfiguration('cpp', prepared, '/ws', config('cppdbg'));
+      const other = { ...ours };
+      tagDebugConfiguration(other);
+      const tracking = trackDebugSession(tagDebugConfiguration(ours), new vscode.CancellationTokenSource().token);
+
+      assert.strictEqual(trackerFactory?.createDebugAdapterTracker(session(other)), undefined);
+      const tracker = trackerFactory?.createDebugAdapterTracker(session(ours));
+      tracker?.onDidSendMessage?.({ type: 'event', event: 'exited', body: { exitCode: 1 } });
+      // Same name, different session
+      terminated.fire(session(other));
+      terminated.fire(session(ours));
+
+      assert.deepStrictEqual(await tracking.ended, { exitCode: 1, cancelled: false });
+      tracking.dispose();
+      assert.strictEqual(disposed, 1);
+    });
+
+    test('ends when the debug adapter exits without terminating the session', async () => {
+      const launch = buildDebugConfiguration('python', prepared, '/ws', config('cppdbg'));
+      const tracking = trackDebugSession(tagDebugConfiguration(launch), new vscode.CancellationTokenSource().token);
+
+      trackerFactory?.createDebugAdapterTracker(session(launch))?.onExit?.();
+      assert.deepStrictEqual(await tracking.ended, { exitCode: undefined, cancelled: false });
+      tracking.dispose();
+    });
+
+    test('stops the session and ends on cancellation', async () => {
+      const launch = buildDebugConfiguration('go', prepared, '/ws', config('cppdbg'));
+      const cancellation = new vscode.CancellationTokenSource();
+      const tracking = trackDebugSession(tagDebugConfiguration(launch), cancellation.token);
+      started.fire(session(launch));
+
+      cancellation.cancel();
+      assert.deepStrictEqual(await tracking.ended, { exitCode: undefined, cancelled: true });
+      assert.strictEqual(stopped.length, 1);
+      tracking.dispose();
+    });
+  });
+});
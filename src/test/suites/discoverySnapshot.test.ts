@@ -0,0 +1,195 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+  computeDiscoveryFingerprint,
+  diffTestTargets,
+  disposeDiscoverySnapshot,
+  initializeDiscoverySnapshot,
+  loadDiscoverySnapshot,
+  saveDiscoverySnapshot
+} from '../../bazel/discoverySnapshot';
+import { getTestTargetById } from '../../bazel/queries';
+import { BazelTestTarget } from '../../bazel/types';
+import { BazelClient } from '../../bazel/client';
+import { ConfigurationService } from '../../configuration';
+import { applyTestTreeDiff, restoreTestTreeSnapshot, revalidateTestTree } from '../../explorer/tree';
+import { TestControllerManager } from '../../explorer/controller';
+import { TestCaseAnnotations } from '../../explorer/annotations';
+import { TestCaseInsights } from '../../explorer/panel';
+import { createMockBazelTestTarget, createMockConfiguration, MockTestController, MockTestItem } from '../mocks';
+
+/** In-memory stand-in for `ExtensionContext.workspaceState` */
+function createMemento(): { get: (key: string) => unknown; update: (key: string, value: unknown) => Thenable<void> } {
+  const values = new Map<string, unknown>();
+  return {
+    get: key => values.get(key),
+    update: async (key, value) => {
+      values.set(key, JSON.parse(JSON.stringify(value)));
+    }
+  };
+}
+
+const target = (label: string, overrides: Partial<BazelTestTarget> = {}): BazelTestTarget =>
+  createMockBazelTestTarget({ target: label, srcs: [], ...overrides });
+
+const childIds = (controller: MockTestController, packageName: string): string[] =>
+  Array.from((controller.items.get(packageName) as MockTestItem).childrenMap.keys()).sort();
+
+suite('Discovery snapshot', () => {
+  let workspacePath: string;
+
+  setup(() => {
+    workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'discovery-snapshot-'));
+    fs.writeFileSync(path.join(workspacePath, 'MODULE.bazel'), 'module(name = "demo")\n');
+    fs.mkdirSync(path.join(workspacePath, 'pkg'));
+    fs.writeFileSync(path.join(workspacePath, 'pkg', 'BUILD'), 'cc_test(name = "a_test")\n');
+    initializeDiscoverySnapshot(createMemento());
+  });
+
+  teardown(() => {
+    disposeDiscoverySnapshot();
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  test('fingerprint follows BUILD and MODULE files and the query settings', async () => {
+    const fingerprint = () => computeDiscoveryFingerprint(workspacePath, ['//...'], ['cc_test']);
+    const initial = await fingerprint();
+
+    // Sources, hidden directories and bazel-* output trees do not matter
+    fs.writeFileSync(path.join(workspacePath, 'pkg', 'a_test.cc'), 'int main() {}\n');
+    fs.mkdirSync(path.join(workspacePath, 'bazel-out', 'pkg'), { recursive: true });
+    fs.writeFileSync(path.join(workspacePath, 'bazel-out', 'pkg', 'BUILD'), 'generated\n');
+    fs.mkdirSync(path.join(workspacePath, '.git'));
+    fs.writeFileSync(path.join(workspacePath, '.git', 'BUILD'), 'ignored\n');
+    assert.strictEqual(await fingerprint(), initial);
+    assert.notStrictEqual(await computeDiscoveryFingerprint(workspacePath, ['//...'], ['py_test']), initial);
+
+    fs.writeFileSync(path.join(workspacePath, 'pkg', 'BUILD'), 'cc_test(name = "b_test")\n');
+    const edited = await fingerprint();
+    assert.notStrictEqual(edited, initial);
+
+    fs.mkdirSync(path.join(workspacePath, 'other'));
+    fs.writeFileSync(path.join(workspacePath, 'other', 'BUILD.bazel'), '');
+    assert.notStrictEqual(await fingerprint(), edited);
+  });
+
+  test('loads the snapshot only for the fingerprint it was saved with', async () => {
+    const targets = [target('//pkg:a_test')];
+    await saveDiscoverySnapshot('abc', targets);
+
+    assert.deepStrictEqual(loadDiscoverySnapshot('abc'), targets);
+    assert.strictEqual(loadDiscoverySnapshot('def'), undefined);
+
+    disposeDiscoverySnapshot();
+    assert.strictEqual(loadDiscoverySnapshot('abc'), undefined);
+  });
+
+  test('diffs targets by label and metadata', () => {
+    const diff = diffTestTargets(
+      [target('//pkg:kept'), target('//pkg:edited'), target('//pkg:deleted')],
+      [target('//pkg:kept'), target('//pkg:edited', { size: 'large' }), target('//pkg:renamed')]
+    );
+
+    assert.deepStrictEqual(diff.added.map(t => t.target), ['//pkg:renamed']);
+    assert.deepStrictEqual(diff.changed.map(t => t.target), ['//pkg:edited']);
+    assert.deepStrictEqual(diff.removed, ['//pkg:deleted']);
+  });
+
+  test('applies a diff without recreating unchanged items', () => {
+    const controller = new MockTestController();
+    const config = createMockConfiguration();
+    const tree = controller as unknown as vscode.TestController;
+    applyTestTreeDiff(tree, { added: [target('//pkg:kept'), target('//pkg:edited'), target('//old:gone')], changed: [], removed: [] }, config);
+    const kept = controller.items.get('//pkg').childrenMap.get('//pkg:kept');
+
+    applyTestTreeDiff(tree, {
+      added: [target('//new:added')],
+      changed: [target('//pkg:edited', { flaky: true })],
+      removed: ['//old:gone']
+    }, config);
+
+    assert.strictEqual(controller.items.get('//old'), undefined);
+    assert.deepStrictEqual(childIds(controller, '//pkg'), ['//pkg:edited', '//pkg:kept']);
+    assert.deepStrictEqual(childIds(controller, '//new'), ['//new:added']);
+    assert.strictEqual(controller.items.get('//pkg').childrenMap.get('//pkg:kept'), kept);
+    assert.ok(controller.items.get('//pkg').childrenMap.get('//pkg:edited').label.startsWith('⚠️'));
+  });
+
+  test('restores the tree at activation and revalidates it in the background', async () => {
+    const stored = [target('//pkg:a_test'), target('//pkg:deleted_test')];
+    let discovered = stored;
+    const bazelClient = {
+      workspace: workspacePath,
+      queryTests: async () => discovered
+    } as unknown as BazelClient;
+    const controller = new MockTestController();
+    const tree = controller as unknown as vscode.TestController;
+
+    // No snapshot yet: a full discovery is needed
+    assert.strictEqual(await restoreTestTreeSnapshot(tree, bazelClient), undefined);
+
+    const config = new ConfigurationService();
+    const fingerprint = await computeDiscoveryFingerprint(workspacePath, config.queryPaths, config.testTypes);
+    await saveDiscoverySnapshot(fingerprint, stored);
+
+    const restored = await restoreTestTreeSnapshot(tree, bazelClient);
+    assert.deepStrictEqual(restored, stored);
+    assert.deepStrictEqual(childIds(controller, '//pkg'), ['//pkg:a_test', '//pkg:deleted_test']);
+    assert.strictEqual(getTestTargetById('//pkg:a_test')?.type, 'cc_test');
+
+    discovered = [target('//pkg:a_test'), target('//pkg:b_test')];
+    await revalidateTestTree(tree, bazelClient, restored!);
+    assert.deepStrictEqual(childIds(controller, '//pkg'), ['//pkg:a_test', '//pkg:b_test']);
+    assert.deepStrictEqual(loadDiscoverySnapshot(fingerprint), discovered);
+  });
+
+  test('activation renders the restored tree before the revalidation finishes', async () => {
+    const controller = new MockTestController();
+    const originalCreate = vscode.tests.createTestController;
+    (vscode.tests as any).createTestController = () => controller;
+    let finishQuery: (targets: BazelTestTarget[]) => void = () => undefined;
+    const bazelClient = {
+      workspace: workspacePath,
+      queryTests: () => new Promise<BazelTestTarget[]>(resolve => { finishQuery = resolve; })
+    } as unknown as BazelClient;
+    try {
+      const config = new ConfigurationService();
+      await saveDiscoverySnapshot(
+        await computeDiscoveryFingerprint(workspacePath, config.queryPaths, config.testTypes),
+        [target('//pkg:a_test')]
+      );
+      const manager = new TestControllerManager(
+        bazelClient, createMockConfiguration(),
+        { subscriptions: [] } as unknown as vscode.ExtensionContext,
+        {} as TestCaseAnnotations, {} as TestCaseInsights
+      );
+
+      const { revalidation } = await manager.discoverFromSnapshot();
+      assert.ok(revalidation);
+      assert.deepStrictEqual(childIds(controller, '//pkg'), ['//pkg:a_test']);
+
+      let revalidated = false;
+      void revalidation.then(() => { revalidated = true; });
+      await new Promise(resolve => setTimeout(resolve, 10));
+      assert.strictEqual(revalidated, false);
+
+      finishQuery([target('//pkg:a_test'), target('//pkg:b_test')]);
+      await revalidation;
+      assert.deepStrictEqual(childIds(controller, '//pkg'), ['//pkg:a_test', '//pkg:b_test']);
+    } finally {
+      (vscode.tests as any).createTestController = originalCreate;
+    }
+  });
+});
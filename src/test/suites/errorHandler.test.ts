@@ -9,6 +9,7 @@
 /// <reference types="mocha" />
 import * as assert from 'assert';
 import { ErrorHandler } from '../../errors/errorHandler';
+import { BazelCommandError } from '../../bazel/exitCodes';
 
 suite('ErrorHandler', () => {
   let errorHandler: ErrorHandler;
@@ -25,6 +26,23 @@ suite('ErrorHandler', () => {
     assert.ok(result.userMessage.includes('Bazel') || result.userMessage.includes('error'));
   });
 
+  test('categorizes failed Bazel commands by exit code', () => {
+    const result = errorHandler.handle(new BazelCommandError('query', 2, 'ERROR: Unrecognized option'), 'query');
+
+    assert.strictEqual(result.category, 'bazel');
+    assert.ok(result.userMessage.includes('Invalid Command Line (Code 2)'));
+    assert.strictEqual(result.shouldRetry, false);
+    assert.ok(result.logMessage.includes('COMMAND_LINE_ERROR'));
+
+    assert.strictEqual(errorHandler.handle(new BazelCommandError('test', 32), 'run').shouldRetry, true);
+  });
+
+  test('does not treat every message mentioning a target as a Bazel error', () => {
+    const result = errorHandler.handle(new Error('Cannot read properties of undefined (reading \'target\')'), 'run');
+
+    assert.strictEqual(result.category, 'unknown');
+  });
+
   test('categorizes workspace-related errors', () => {
     const error = new Error('No workspace folder found');
     const result = errorHandler.handle(error, 'discovery');
@@ -0,0 +1,141 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { executeBazelTest } from '../../bazel/runner';
+import { queryBazelTestLabelsOnly } from '../../bazel/queries';
+import {
+  BazelCommandError,
+  describeBazelExitCode,
+  ExitCodeTestState,
+  formatExitCodeMessage
+} from '../../bazel/exitCodes';
+import { getTestXmlLoader, setTestXmlLoader, TestXmlLoader } from '../../bazel/testcase/testResultParser';
+import { createMockConfiguration, MockTestItem, MockTestRun, stubBazelCommand } from '../mocks';
+
+const expected: [number, string, ExitCodeTestState, boolean][] = [
+  [0, 'SUCCESS', 'passed', false],
+  [1, 'BUILD_FAILURE', 'errored', false],
+  [2, 'COMMAND_LINE_ERROR', 'errored', false],
+  [3, 'TESTS_FAILED', 'failed', false],
+  [4, 'NO_TESTS_FOUND', 'skipped', false],
+  [6, 'RUN_FAILURE', 'errored', false],
+  [7, 'ANALYSIS_FAILURE', 'errored', false],
+  [8, 'INTERRUPTED', 'skipped', true],
+  [9, 'LOCK_HELD_NOBLOCK_FOR_LOCK', 'errored', true],
+  [32, 'REMOTE_ENVIRONMENTAL_ERROR', 'errored', true],
+  [33, 'OOM_ERROR', 'errored', false],
+  [36, 'LOCAL_ENVIRONMENTAL_ERROR', 'errored', false],
+  [37, 'BLAZE_INTERNAL_ERROR', 'errored', true],
+  [38, 'TRANSIENT_BUILD_EVENT_SERVICE_UPLOAD_ERROR', 'errored', true],
+  [39, 'REMOTE_CACHE_EVICTED', 'errored', true],
+  [45, 'PERSISTENT_BUILD_EVENT_SERVICE_UPLOAD_ERROR', 'errored', false],
+  [99, 'UNKNOWN', 'errored', false]
+];
+
+suite('Bazel exit codes', () => {
+  test('maps every documented code to a state, message and action', () => {
+    for (const [code, name, testState, transient] of expected) {
+      const exit = describeBazelExitCode(code);
+      assert.deepStrictEqual([exit.code, exit.name, exit.testState, exit.transient], [code, name, testState, transient]);
+      assert.strictEqual(exit.hasTestResults, code === 0 || code === 3, `hasTestResults of ${code}`);
+      assert.ok(exit.message.length > 0);
+      if (testState === 'errored' && code !== 6 && code !== 99) {
+        assert.ok(exit.action, `Code ${code} should suggest an action`);
+      }
+    }
+  });
+
+  test('formats the message with the suggested action', () => {
+    const message = formatExitCodeMessage(describeBazelExitCode(2));
+    assert.ok(message.startsWith('⚙️ Invalid Command Line (Code 2): '));
+    assert.ok(message.includes('\n💡 ') && message.includes('--config'));
+    assert.strictEqual(formatExitCodeMessage(describeBazelExitCode(0)), '✅ Test Passed (Code 0): The build and all tests succeeded.');
+  });
+
+  suite('runner and queries', () => {
+    let restoreBazelCommand: () => void;
+    let originalLoader: TestXmlLoader;
+    let result: { code: number; stdout: string; stderr: string };
+    const mockConfig = createMockConfiguration({ queryPaths: ['//...'], testTypes: ['cc_test'] });
+
+    const runWithCode = async (code: number, stderr = '', label = '[cc_test] a_test'): Promise<MockTestRun> => {
+      result = { code, stdout: '', stderr };
+      const run = new MockTestRun();
+      const item = new MockTestItem('//pkg:a_test', label) as unknown as vscode.TestItem;
+      await executeBazelTest(item, '/workspace', (run as unknown) as vscode.TestRun, mockConfig);
+      return run;
+    };
+    const outputOf = (run: MockTestRun) => run.getOutputs().map(o => o.output).join('');
+
+    setup(() => {
+      originalLoader = getTestXmlLoader();
+      setTestXmlLoader(async () => null);
+      restoreBazelCommand = stubBazelCommand(async (args: string[]) =>
+        args[0] === 'info' ? { code: 1, stdout: '', stderr: '' } : result);
+    });
+
+    teardown(() => {
+      restoreBazelCommand();
+      setTestXmlLoader(originalLoader);
+    });
+
+    test('code 2 marks the test errored and points at the command line', async () => {
+      const run = await runWithCode(2, 'ERROR: Config value \'asan\' is not defined in any .rc file');
+      assert.strictEqual(run.getErroredTests().length, 1);
+      assert.strictEqual(run.getFailedTests().length, 0);
+      assert.ok(outputOf(run).includes('Invalid Command Line (Code 2)'));
+      assert.ok(outputOf(run).includes('every --config exists'));
+    });
+
+    test('code 4 marks the test skipped as no tests found', async () => {
+      const run = await runWithCode(4, 'ERROR: No test targets were found, yet testing was requested');
+      assert.strictEqual(run.getSkippedTests().length, 1);
+      assert.strictEqual(run.getFailedTests().length, 0);
+      assert.ok(outputOf(run).includes('No Tests Found (Code 4)'));
+    });
+
+    test('code 8 marks the test skipped as interrupted', async () => {
+      const run = await runWithCode(8);
+      assert.strictEqual(run.getSkippedTests().length, 1);
+      assert.ok(outputOf(run).includes('Interrupted (Code 8)'));
+    });
+
+    test('environment, internal and unknown codes mark the test errored', async () => {
+      for (const code of [9, 32, 33, 36, 37, 38, 39, 45, 99]) {
+        const run = await runWithCode(code);
+        assert.strictEqual(run.getErroredTests().length, 1, `Code ${code} should error the test`);
+        assert.strictEqual(run.getPassedTests().length + run.getFailedTests().length, 0);
+        assert.ok(outputOf(run).includes(`(Code ${code})`));
+      }
+    });
+
+    test('code 3 without results fails and code 0 passes', async () => {
+      assert.strictEqual((await runWithCode(3)).getFailedTests().length, 1);
+      assert.strictEqual((await runWithCode(0)).getPassedTests().length, 1);
+    });
+
+    test('test suites take the state of the exit code', async () => {
+      const run = await runWithCode(4, '', '[test_suite] a_test');
+      assert.strictEqual(run.getSkippedTests().length, 1);
+    });
+
+    test('discovery queries fail with the exit code', async () => {
+      result = { code: 2, stdout: '', stderr: 'ERROR: Unrecognized option: --bad' };
+      await assert.rejects(
+        queryBazelTestLabelsOnly('/workspace', mockConfig),
+        (error: unknown) => error instanceof BazelCommandError && error.exitCode.name === 'COMMAND_LINE_ERROR'
+      );
+
+      result = { code: 3, stdout: '//pkg:a_test\n', stderr: 'ERROR: package //broken contains errors' };
+      assert.deepStrictEqual(await queryBazelTestLabelsOnly('/workspace', mockConfig), ['//pkg:a_test']);
+    });
+  });
+});
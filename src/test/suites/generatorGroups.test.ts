@@ -0,0 +1,112 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { getTestTargetById, queryBazelTestTargets, restoreTestTargets } from '../../bazel/queries';
+import { BazelTestTarget } from '../../bazel/types';
+import {
+  addTestItemToController,
+  applyTestTreeDiff,
+  buildGeneratorGroupId,
+  isGeneratorGroupId,
+  removeStaleItems
+} from '../../explorer/tree';
+import { createMockBazelTestTarget, createMockConfiguration, MockTestController, MockTestItem, stubBazelCommand } from '../mocks';
+
+const generated = (target: string, generatorName?: string): BazelTestTarget => createMockBazelTestTarget({
+  target,
+  location: undefined,
+  srcs: [],
+  ...(generatorName ? {
+    generator_function: 'gtest_suite',
+    generator_name: generatorName,
+    generator_location: 'pkg/BUILD:12:11'
+  } : {})
+});
+
+suite('Generator groups', () => {
+  const configWith = (groupByGenerator: boolean) => createMockConfiguration({ groupByGenerator });
+
+  test('captures the generator attributes of macro-generated targets', async () => {
+    const restoreBazelCommand = stubBazelCommand(async (_args: string[], _cwd: string, onLine?: (line: string) => void) => {
+      onLine?.(JSON.stringify({
+        type: 'RULE',
+        rule: {
+          name: '//pkg:math_add_test',
+          ruleClass: 'cc_test',
+          attribute: [
+            { name: 'generator_function', stringValue: 'gtest_suite' },
+            { name: 'generator_name', stringValue: 'math' },
+            { name: 'generator_location', stringValue: 'pkg/BUILD:12:11' }
+          ]
+        }
+      }));
+      onLine?.(JSON.stringify({ type: 'RULE', rule: { name: '//pkg:plain_test', ruleClass: 'cc_test', attribute: [] } }));
+      return { code: 0, stdout: '', stderr: '' };
+    });
+    try {
+      await queryBazelTestTargets('/workspace', createMockConfiguration({ queryPaths: ['//pkg/...'], testTypes: ['cc_test'] }));
+
+      const target = getTestTargetById('//pkg:math_add_test');
+      assert.strictEqual(target?.generator_function, 'gtest_suite');
+      assert.strictEqual(target?.generator_name, 'math');
+      assert.strictEqual(target?.generator_location, 'pkg/BUILD:12:11');
+      assert.ok(!('generator_name' in (getTestTargetById('//pkg:plain_test') ?? {})));
+    } finally {
+      restoreBazelCommand();
+      restoreTestTargets([]);
+    }
+  });
+
+  test('nests targets of one macro call under a group of their package', () => {
+    const controller = new MockTestController();
+    const packageCache = new Map<string, vscode.TestItem>();
+    for (const target of [generated('//pkg:math_add_test', 'math'), generated('//pkg:math_sub_test', 'math'), generated('//pkg:solo_test', 'solo_test'), generated('//pkg:plain_test')]) {
+      addTestItemToController(controller as unknown as vscode.TestController, target, packageCache, configWith(true));
+    }
+
+    const packageItem = controller.items.get('//pkg') as MockTestItem;
+    const groupId = buildGeneratorGroupId('//pkg', 'math');
+    assert.deepStrictEqual(Array.from(packageItem.childrenMap.keys()), [groupId, '//pkg:solo_test', '//pkg:plain_test']);
+    const group = packageItem.childrenMap.get(groupId) as MockTestItem;
+    assert.strictEqual(group.label, '🏭 math');
+    assert.strictEqual(group.description, 'gtest_suite()');
+    assert.deepStrictEqual(Array.from(group.childrenMap.keys()), ['//pkg:math_add_test', '//pkg:math_sub_test']);
+    assert.ok(isGeneratorGroupId(groupId));
+    assert.ok(!isGeneratorGroupId('//pkg:math_add_test'));
+  });
+
+  test('keeps targets flat unless grouping is enabled', () => {
+    const controller = new MockTestController();
+    addTestItemToController(controller as unknown as vscode.TestController, generated('//pkg:math_add_test', 'math'), new Map(), configWith(false));
+    assert.deepStrictEqual(Array.from((controller.items.get('//pkg') as MockTestItem).childrenMap.keys()), ['//pkg:math_add_test']);
+  });
+
+  test('moves, removes and keeps grouped targets when the tree changes', () => {
+    const controller = new MockTestController();
+    const tree = controller as unknown as vscode.TestController;
+    const config = configWith(true);
+    applyTestTreeDiff(tree, {
+      added: [generated('//pkg:math_add_test', 'math'), generated('//pkg:math_sub_test', 'math'), generated('//other:x_test', 'other')],
+      changed: [],
+      removed: []
+    }, config);
+
+    // math_sub_test moved to another macro call, math_add_test was deleted
+    applyTestTreeDiff(tree, { added: [], changed: [generated('//pkg:math_sub_test', 'ops')], removed: ['//pkg:math_add_test'] }, config);
+    const packageItem = controller.items.get('//pkg') as MockTestItem;
+    assert.deepStrictEqual(Array.from(packageItem.childrenMap.keys()), [buildGeneratorGroupId('//pkg', 'ops')]);
+
+    // Packages whose targets only live in generator groups are not stale
+    removeStaleItems(tree, [generated('//pkg:math_sub_test', 'ops')]);
+    assert.ok(controller.items.get('//pkg'));
+    assert.strictEqual(controller.items.get('//other'), undefined);
+  });
+});
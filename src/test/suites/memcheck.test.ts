@@ -0,0 +1,127 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { executeBazelTest } from '../../bazel/runner';
+import { analyzeTestFailures } from '../../bazel/parseFailures';
+import { buildMemcheckMessages, parseMemcheckReport } from '../../bazel/testcase/parseMemcheck';
+import { getTestXmlLoader, setTestXmlLoader, TestXmlLoader } from '../../bazel/testcase/testResultParser';
+import { MockTestItem, MockTestRun, stubBazelCommand } from '../mocks';
+import { ConfigurationService } from '../../configuration';
+
+const VALGRIND_LOG = [
+  '==4242== Memcheck, a memory error detector',
+  '==4242== Command: /sandbox/execroot/_main/bazel-out/k8-fastbuild/bin/pkg/buffer_test',
+  '==4242== ',
+  '[ RUN      ] Buffer.Append',
+  '==4242== Invalid write of size 4',
+  '==4242==    at 0x109AB2: append (/sandbox/execroot/_main/pkg/buffer.c:17)',
+  '==4242==    by 0x109B10: Buffer_Append_Test::TestBody() (buffer_test.cc:9)',
+  '==4242==  Address 0x4a8d0a8 is 0 bytes after a block of size 8 alloc\'d',
+  '==4242==    at 0x483B7F3: malloc (in /usr/lib/x86_64-linux-gnu/valgrind/vgpreload_memcheck-amd64-linux.so)',
+  '==4242==    by 0x109A80: buffer_new (/sandbox/execroot/_main/pkg/buffer.c:8)',
+  '==4242== ',
+  '==4242== HEAP SUMMARY:',
+  '==4242==     in use at exit: 16 bytes in 1 blocks',
+  '==4242== ',
+  '==4242== 16 bytes in 1 blocks are definitely lost in loss record 1 of 1',
+  '==4242==    at 0x483B7F3: malloc (in /usr/lib/x86_64-linux-gnu/valgrind/vgpreload_memcheck-amd64-linux.so)',
+  '==4242==    by 0x4E2F1A0: strdup (strdup.c:42)',
+  '==4242==    by 0x109C44: leak_name (pkg/buffer.c:31)',
+  '==4242== ',
+  '==4242== LEAK SUMMARY:',
+  '==4242==    definitely lost: 16 bytes in 1 blocks',
+  '==4242== ERROR SUMMARY: 2 errors from 2 contexts (suppressed: 0 from 0)'
+];
+
+suite('Memcheck', () => {
+  let workspacePath: string;
+
+  setup(() => {
+    workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'memcheck-'));
+    fs.mkdirSync(path.join(workspacePath, 'pkg'));
+    fs.writeFileSync(path.join(workspacePath, 'pkg', 'buffer.c'), '');
+    fs.writeFileSync(path.join(workspacePath, 'pkg', 'buffer_test.cc'), '');
+  });
+
+  teardown(() => {
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  test('parses errors and leaks with their own stack only', () => {
+    const errors = parseMemcheckReport(VALGRIND_LOG);
+
+    assert.deepStrictEqual(errors.map(e => e.kind), [
+      'Invalid write of size 4',
+      '16 bytes in 1 blocks are definitely lost in loss record 1 of 1'
+    ]);
+    assert.deepStrictEqual(errors[0].frames.map(f => f.function), ['append', 'Buffer_Append_Test::TestBody()']);
+    assert.deepStrictEqual(errors[0].frames[0], {
+      function: 'append', file: '/sandbox/execroot/_main/pkg/buffer.c', line: 17
+    });
+    assert.strictEqual(errors[1].frames[0].file, undefined);
+    assert.ok(errors[1].frames[0].object?.endsWith('vgpreload_memcheck-amd64-linux.so'));
+    assert.ok(errors[0].lines.some(line => line.includes('buffer_new')));
+  });
+
+  test('locates messages at the first workspace frame', () => {
+    const messages = buildMemcheckMessages(parseMemcheckReport(VALGRIND_LOG), workspacePath, 'pkg');
+
+    assert.strictEqual(messages.length, 2);
+    assert.strictEqual(messages[0].location?.uri.fsPath, path.join(workspacePath, 'pkg', 'buffer.c'));
+    assert.strictEqual(messages[0].location?.range.start.line, 16);
+    // malloc and strdup live outside the workspace
+    assert.strictEqual(messages[1].location?.uri.fsPath, path.join(workspacePath, 'pkg', 'buffer.c'));
+    assert.strictEqual(messages[1].location?.range.start.line, 30);
+    assert.ok((messages[1].message as string).startsWith('Valgrind: 16 bytes in 1 blocks are definitely lost'));
+  });
+
+  test('failure analysis reports memcheck errors of the target', () => {
+    const item = { id: '//pkg:buffer_test', label: 'buffer_test' } as vscode.TestItem;
+    const messages = analyzeTestFailures(VALGRIND_LOG, workspacePath, item);
+
+    assert.strictEqual(messages.length, 2);
+    assert.ok((messages[0].message as string).includes('Invalid write of size 4'));
+  });
+
+  test('run_under wrappers disable cached results', async () => {
+    const originalLoader: TestXmlLoader = getTestXmlLoader();
+    let captured: string[] = [];
+    setTestXmlLoader(async () => null);
+    const restoreBazelCommand = stubBazelCommand(async (args: string[]) => {
+      if (args[0] === 'test') {
+        captured = args;
+      }
+      return { code: args[0] === 'info' ? 1 : 0, stdout: '', stderr: '' };
+    });
+    try {
+      const config = new ConfigurationService().withRunProfile({
+        name: 'Valgrind',
+        args: [],
+        env: {},
+        tagFilters: [],
+        bazelrcFiles: [],
+        runUnder: 'valgrind --leak-check=full --error-exitcode=1'
+      });
+      const item = new MockTestItem('//pkg:buffer_test', '[cc_test] buffer_test') as unknown as vscode.TestItem;
+
+      await executeBazelTest(item, workspacePath, (new MockTestRun() as unknown) as vscode.TestRun, config);
+
+      assert.ok(captured.includes('--run_under=valgrind --leak-check=full --error-exitcode=1'));
+      assert.ok(captured.includes('--nocache_test_results'));
+    } finally {
+      restoreBazelCommand();
+      setTestXmlLoader(originalLoader);
+    }
+  });
+});
@@ -51,6 +51,14 @@ Expected equality of these values:
     assert.ok(failingCase?.errorMessage?.includes('Expected equality of these values'));
   });
 
+  test('keeps expected and actual values of equality assertions', () => {
+    const result = parseStructuredTestXml(failingXml, '//apps:mathlib_test_fail');
+
+    const add = result.testCases.find(tc => tc.name === 'Add');
+    assert.strictEqual(add?.expectedOutput, '5');
+    assert.strictEqual(add?.actualOutput, '-1');
+  });
+
   test('parses successful Bazel test xml', () => {
     const result = parseStructuredTestXml(passingXml, '//apps:mathlib_test');
 
@@ -0,0 +1,112 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as processModule from '../../infrastructure/process';
+import { expandTestSuite, queryBazelTestLabelsOnly } from '../../bazel/queries';
+import {
+  formatDiskUsage,
+  getQueryServerStatus,
+  measureDiskUsage,
+  resolveQueryOutputBase,
+  shutdownQueryServers
+} from '../../bazel/queryServer';
+import { createMockConfiguration, stubBazelCommand } from '../mocks';
+
+suite('Query server', () => {
+  let workspacePath: string;
+  let restoreBazelCommand: () => void;
+  let calls: string[][];
+
+  const configWith = (queryOutputBase: string) => createMockConfiguration({
+    bazelPath: path.join(os.tmpdir(), 'missing-bazel-for-query-server-test'),
+    queryPaths: ['//...'],
+    testTypes: ['cc_test'],
+    queryOutputBase
+  });
+
+  setup(() => {
+    workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'query-server-'));
+    calls = [];
+    restoreBazelCommand = stubBazelCommand(async (args: string[]) => {
+      calls.push(args);
+      return { code: 0, stdout: '//pkg:a_test\n', stderr: '' };
+    });
+  });
+
+  teardown(async () => {
+    restoreBazelCommand();
+    await shutdownQueryServers();
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  test('resolves the configured output base', () => {
+    assert.strictEqual(resolveQueryOutputBase(workspacePath, ''), undefined);
+    assert.strictEqual(resolveQueryOutputBase(workspacePath, 'ob'), path.join(workspacePath, 'ob'));
+    assert.strictEqual(resolveQueryOutputBase(workspacePath, '~/ob'), path.join(os.homedir(), 'ob'));
+
+    const auto = resolveQueryOutputBase(workspacePath, 'auto')!;
+    assert.strictEqual(path.dirname(auto), path.join(os.homedir(), '.cache', 'bazel-test-explorer'));
+    assert.strictEqual(auto, resolveQueryOutputBase(workspacePath, 'auto'));
+    assert.notStrictEqual(auto, resolveQueryOutputBase(path.join(workspacePath, 'other'), 'auto'));
+  });
+
+  test('queries share the test server unless an output base is configured', async () => {
+    await queryBazelTestLabelsOnly(workspacePath, configWith(''));
+    assert.strictEqual(calls[0][0], 'query');
+  });
+
+  test('label and test_suite queries use the query output base', async () => {
+    const outputBase = path.join(workspacePath, 'query-ob');
+    const config = configWith(outputBase);
+
+    assert.deepStrictEqual(await queryBazelTestLabelsOnly(workspacePath, config), ['//pkg:a_test']);
+    await expandTestSuite('//pkg:suite', workspacePath, config);
+
+    for (const args of calls) {
+      assert.deepStrictEqual(args.slice(0, 2), [`--output_base=${outputBase}`, 'query']);
+      assert.strictEqual(processModule.resolveOutputBaseKey(args, workspacePath), outputBase);
+    }
+    assert.notStrictEqual(processModule.resolveOutputBaseKey(['test', '//pkg:a_test'], workspacePath), outputBase);
+  });
+
+  test('reports the lazily started server and its disk usage', async () => {
+    const outputBase = path.join(workspacePath, 'query-ob');
+    const config = configWith(outputBase);
+
+    assert.deepStrictEqual(await getQueryServerStatus(workspacePath, config), {
+      outputBase, started: false, diskUsageBytes: undefined
+    });
+
+    await queryBazelTestLabelsOnly(workspacePath, config);
+    fs.mkdirSync(path.join(outputBase, 'execroot'), { recursive: true });
+    fs.writeFileSync(path.join(outputBase, 'server.log'), 'x'.repeat(100));
+    fs.writeFileSync(path.join(outputBase, 'execroot', 'file'), 'x'.repeat(28));
+    fs.symlinkSync(path.join(outputBase, 'server.log'), path.join(outputBase, 'execroot', 'link'));
+
+    assert.deepStrictEqual(await getQueryServerStatus(workspacePath, config), {
+      outputBase, started: true, diskUsageBytes: 128
+    });
+
+    // Shutting down forgets the server, even if the Bazel binary cannot be started
+    await shutdownQueryServers();
+    assert.strictEqual((await getQueryServerStatus(workspacePath, config))?.started, false);
+  });
+
+  test('measures and formats disk usage', async () => {
+    assert.strictEqual(await measureDiskUsage(path.join(workspacePath, 'missing')), undefined);
+    assert.strictEqual(await measureDiskUsage(workspacePath), 0);
+    assert.strictEqual(formatDiskUsage(512), '512 B');
+    assert.strictEqual(formatDiskUsage(1536), '1.5 KB');
+    assert.strictEqual(formatDiskUsage(3 * 1024 ** 3), '3.0 GB');
+  });
+});
@@ -0,0 +1,97 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { groupRerunItems } from '../../explorer/controller/rerunFailed';
+import { TestObserver } from '../../explorer/tree/testObserver';
+import { finishTest } from '../../explorer/events';
+import { getCombinedTestFilterArgs } from '../../bazel/testFilterStrategies';
+import { executeBazelTestCases } from '../../bazel/runner';
+import { getTestXmlLoader, setTestXmlLoader, TestXmlLoader } from '../../bazel/testcase/testResultParser';
+import { createMockConfiguration, MockTestItem, MockTestRun, stubBazelCommand } from '../mocks';
+
+const item = (id: string, label = '[cc_test] test') => new MockTestItem(id, label) as unknown as vscode.TestItem;
+
+suite('Rerun failed tests', () => {
+  test('returns ids whose latest result failed', () => {
+    const observer = new TestObserver({ subscriptions: [] } as unknown as vscode.ExtensionContext);
+    try {
+      finishTest('//pkg:a_test', 'failed');
+      finishTest('//pkg:b_test', 'failed');
+      finishTest('//pkg:a_test', 'passed');
+      finishTest('//pkg:c_test::Suite.Case', 'failed');
+
+      assert.deepStrictEqual(observer.getLatestFailedIds(), ['//pkg:c_test::Suite.Case', '//pkg:b_test']);
+    } finally {
+      observer.dispose();
+    }
+  });
+
+  test('groups targets, cases per target and own invocations', () => {
+    const groups = groupRerunItems([
+      item('//pkg:a_test'),
+      item('//pkg:a_test::Math.Add'),
+      item('//pkg:a_test#shard_1_of_2', '🧩 Shard 1/2'),
+      item('//pkg:b_test'),
+      item('//pkg:c_test::Net.Connect'),
+      item('//pkg:c_test::Net.Close'),
+      item('//pkg:suite', '🧰 [test_suite] suite'),
+      item('//pkg:d_test#shard_2_of_2', '🧩 Shard 2/2'),
+      item('//pkg:slow_test', '[sh_test] slow_test')
+    ], ['sh_test']);
+
+    assert.deepStrictEqual(groups.batchTargets.map(i => i.id), ['//pkg:a_test', '//pkg:b_test']);
+    assert.deepStrictEqual(groups.singles.map(i => i.id), ['//pkg:suite', '//pkg:d_test#shard_2_of_2', '//pkg:slow_test']);
+    assert.deepStrictEqual(
+      Array.from(groups.casesByTarget.entries()).map(([target, cases]) => [target, cases.map(c => c.id)]),
+      [['//pkg:c_test', ['//pkg:c_test::Net.Connect', '//pkg:c_test::Net.Close']]]
+    );
+  });
+
+  test('combines filters only where the framework supports it', () => {
+    assert.deepStrictEqual(getCombinedTestFilterArgs(['Net.Connect', 'Net.Close'], 'gtest'), ['--test_filter=Net.Connect*:Net.Close*']);
+    assert.deepStrictEqual(getCombinedTestFilterArgs(['test_a'], 'pytest'), ['--test_filter=test_a']);
+    assert.strictEqual(getCombinedTestFilterArgs(['testA', 'testB'], 'java'), undefined);
+  });
+
+  suite('runner', () => {
+    let restoreBazelCommand: () => void;
+    let originalLoader: TestXmlLoader;
+    let invocations: string[][];
+    const mockConfig = createMockConfiguration();
+
+    setup(() => {
+      invocations = [];
+      originalLoader = getTestXmlLoader();
+      setTestXmlLoader(async () => null);
+      restoreBazelCommand = stubBazelCommand(async (args: string[]) => {
+        invocations.push(args);
+        return { code: 3, stdout: '', stderr: '' };
+      });
+    });
+
+    teardown(() => {
+      restoreBazelCommand();
+      setTestXmlLoader(originalLoader);
+    });
+
+    test('runs the cases of one target in a single filtered invocation', async () => {
+      const run = new MockTestRun();
+      const cases = [item('//pkg:c_test::Net.Connect'), item('//pkg:c_test::Net.Close')];
+
+      await executeBazelTestCases(cases, '/workspace', (run as unknown) as vscode.TestRun, mockConfig);
+
+      assert.strictEqual(invocations.length, 1);
+      assert.strictEqual(invocations[0][1], '//pkg:c_test');
+      assert.ok(invocations[0].includes('--test_filter=Net.Connect*:Net.Close*'));
+      assert.deepStrictEqual(run.getFailedTests().map(t => t.id).sort(), cases.map(c => c.id).sort());
+    });
+  });
+});
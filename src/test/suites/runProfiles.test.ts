@@ -0,0 +1,125 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { executeBazelTest } from '../../bazel/runner';
+import { getTestXmlLoader, setTestXmlLoader, TestXmlLoader } from '../../bazel/testcase/testResultParser';
+import { finishTest, startTest } from '../../explorer/events';
+import { TestObserver } from '../../explorer/tree/testObserver';
+import { TestControllerManager } from '../../explorer/controller';
+import { TestCaseAnnotations } from '../../explorer/annotations';
+import { TestCaseInsights } from '../../explorer/panel';
+import { BazelClient } from '../../bazel/client';
+import { MockConfigurationService, MockTestController, MockTestItem, MockTestRun, stubBazelCommand } from '../mocks';
+import { ConfigurationService, RunProfileSettings } from '../../configuration';
+
+const ASAN_PROFILE: RunProfileSettings = {
+  name: 'ASan',
+  args: ['--config=asan', '--runs_per_test=2'],
+  env: { CC: 'clang' },
+  tagFilters: ['-no_asan', 'unit'],
+  bazelrcFiles: ['tools/asan.bazelrc']
+};
+
+suite('Run profiles', () => {
+  test('applies profile args and tag filters after the global test args', () => {
+    const base = new ConfigurationService();
+    const config = base.withRunProfile(ASAN_PROFILE);
+
+    assert.strictEqual(base.runProfile, undefined);
+    assert.strictEqual(config.runProfile, ASAN_PROFILE);
+    assert.deepStrictEqual(
+      config.testArgs.slice(-4),
+      ['--config=asan', '--runs_per_test=2', '--test_env=CC=clang', '--test_tag_filters=-no_asan,unit']
+    );
+  });
+
+  test('records the profile name in the history', () => {
+    const observer = new TestObserver({ subscriptions: [] } as unknown as vscode.ExtensionContext);
+    try {
+      startTest('//pkg:a_test', '[cc_test] a_test', 'ASan');
+      finishTest('//pkg:a_test', 'passed');
+      startTest('//pkg:a_test', '[cc_test] a_test');
+      finishTest('//pkg:a_test', 'failed');
+
+      assert.deepStrictEqual(
+        observer.getHistory().map(entry => [entry.type, entry.profile]),
+        [['failed', undefined], ['passed', 'ASan']]
+      );
+    } finally {
+      observer.dispose();
+    }
+  });
+
+  test('disposes the profiles of the settings with the controller manager', () => {
+    const controller = new MockTestController();
+    const originalCreate = vscode.tests.createTestController;
+    (vscode.tests as any).createTestController = () => controller;
+    try {
+      const config = new MockConfigurationService();
+      config.runProfiles = [ASAN_PROFILE];
+      const manager = new TestControllerManager(
+        { workspace: '/workspace' } as unknown as BazelClient,
+        config as unknown as ConfigurationService,
+        { subscriptions: [] } as unknown as vscode.ExtensionContext,
+        {} as TestCaseAnnotations, {} as TestCaseInsights
+      );
+      (manager as any).registerUserRunProfiles();
+      const profile = (controller as any).runProfiles.find((p: vscode.TestRunProfile) => p.label === 'ASan');
+      assert.strictEqual(profile.disposed, false);
+
+      manager.dispose();
+      assert.strictEqual(profile.disposed, true);
+    } finally {
+      (vscode.tests as any).createTestController = originalCreate;
+    }
+  });
+
+  suite('runner', () => {
+    let restoreBazelCommand: () => void;
+    let originalLoader: TestXmlLoader;
+    let invocations: { args: string[]; env?: NodeJS.ProcessEnv }[];
+
+    setup(() => {
+      invocations = [];
+      originalLoader = getTestXmlLoader();
+      setTestXmlLoader(async () => null);
+      restoreBazelCommand = stubBazelCommand(async (
+        args: string[], _cwd: string, _onLine: unknown, _onErrorLine: unknown, _bazelPath?: string, env?: NodeJS.ProcessEnv
+      ) => {
+        invocations.push({ args, env });
+        return { code: args[0] === 'info' ? 1 : 0, stdout: '', stderr: '' };
+      });
+    });
+
+    teardown(() => {
+      restoreBazelCommand();
+      setTestXmlLoader(originalLoader);
+    });
+
+    test('passes bazelrc files, args and env of the profile to Bazel', async () => {
+      const run = new MockTestRun();
+      const item = new MockTestItem('//pkg:a_test', '[cc_test] a_test') as unknown as vscode.TestItem;
+      const config = new ConfigurationService().withRunProfile(ASAN_PROFILE);
+
+      await executeBazelTest(item, '/workspace', (run as unknown) as vscode.TestRun, config);
+
+      const testCall = invocations.find(call => call.args.includes('test'));
+      assert.ok(testCall, 'bazel test should be invoked');
+      const { args, env } = testCall;
+      assert.deepStrictEqual(args.slice(0, 3), ['--bazelrc=tools/asan.bazelrc', 'test', '//pkg:a_test']);
+      assert.ok(args.includes('--config=asan'));
+      assert.ok(args.includes('--test_tag_filters=-no_asan,unit'));
+      // The env reaches the tests as --test_env, not through the Bazel client
+      assert.ok(args.includes('--test_env=CC=clang'));
+      assert.strictEqual(env, undefined);
+    });
+  });
+});
@@ -0,0 +1,177 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { executeBazelTestBatch, parseTestSummary, splitBuildOutputByTarget, splitTestOutputByTarget } from '../../bazel/runner';
+import { getTestXmlLoader, setTestXmlLoader, TestXmlLoader } from '../../bazel/testcase/testResultParser';
+import { createMockConfiguration, MockTestItem, MockTestRun, stubBazelCommand } from '../mocks';
+
+const BATCH_STDOUT = [
+  '==================== Test output for //pkg:a_test:',
+  'a is fine',
+  '================================================================================',
+  '==================== Test output for //pkg:b_test:',
+  'b exploded',
+  '================================================================================',
+  '//pkg:a_test                                                    (cached) PASSED in 0.3s',
+  '//pkg:b_test                                                            FAILED in 1.2s',
+  '  /tmp/testlogs/pkg/b_test/test.log',
+  '//pkg:c_test                                                   FLAKY, failed in 1 out of 2 in 0.5s',
+  '',
+  'Executed 2 out of 3 tests: 2 tests pass and 1 fails locally.'
+].join('\n');
+
+const BATCH_STDERR = [
+  'INFO: Analyzed 3 targets (0 packages loaded, 0 targets configured).',
+  'ERROR: /ws/pkg/BUILD:1:8: Compiling pkg/a_test.cc failed: (Exit 1): gcc failed: error executing CppCompile command (from target //pkg:a_test) gcc -c pkg/a_test.cc',
+  'pkg/a_test.cc:3:5: error: expected \';\' before \'}\' token',
+  'ERROR: /ws/pkg/BUILD:9:8: Compiling pkg/b_test.cc failed: (Exit 1): gcc failed: error executing CppCompile command (from target //pkg:b_test) gcc -c pkg/b_test.cc',
+  'pkg/b_test.cc:7:1: error: \'missing\' was not declared in this scope',
+  'ERROR: /ws/lib/BUILD:1:11: Compiling lib/util.cc failed: (Exit 1): gcc failed: error executing CppCompile command (from target //lib:util) gcc -c lib/util.cc',
+  'lib/util.cc:2:1: error: unknown type name \'foo\'',
+  'INFO: Elapsed time: 1.0s',
+  'ERROR: Build did NOT complete successfully'
+].join('\n');
+
+suite('Runner - Batched execution', () => {
+  test('parses per-target summary lines', () => {
+    const summary = parseTestSummary(BATCH_STDOUT);
+
+    assert.strictEqual(summary.size, 3);
+    assert.deepStrictEqual(summary.get('//pkg:a_test'), {
+      label: '//pkg:a_test',
+      status: 'PASSED',
+      cached: true,
+      duration: '0.3s'
+    });
+    assert.strictEqual(summary.get('//pkg:b_test')?.status, 'FAILED');
+    assert.strictEqual(summary.get('//pkg:b_test')?.cached, false);
+    assert.strictEqual(summary.get('//pkg:c_test')?.status, 'FLAKY');
+    assert.strictEqual(summary.get('//pkg:c_test')?.duration, '0.5s');
+  });
+
+  test('recognizes build failures and missing status', () => {
+    const summary = parseTestSummary([
+      '//pkg:broken_test                                            FAILED TO BUILD',
+      '//pkg:skipped_test                                                 NO STATUS'
+    ].join('\n'));
+
+    assert.strictEqual(summary.get('//pkg:broken_test')?.status, 'FAILED TO BUILD');
+    assert.strictEqual(summary.get('//pkg:skipped_test')?.status, 'NO STATUS');
+  });
+
+  test('splits test output by target banner', () => {
+    const sections = splitTestOutputByTarget(BATCH_STDOUT.split('\n'));
+
+    assert.deepStrictEqual(sections.get('//pkg:a_test'), ['a is fine']);
+    assert.deepStrictEqual(sections.get('//pkg:b_test'), ['b exploded']);
+    assert.strictEqual(sections.has('//pkg:c_test'), false);
+  });
+
+  test('keeps sharded sections under the target label', () => {
+    const sections = splitTestOutputByTarget([
+      '==================== Test output for //pkg:sharded_test (shard 1 of 2):',
+      'first shard',
+      '================================================================================',
+      '==================== Test output for //pkg:sharded_test (shard 2 of 2):',
+      'second shard',
+      '================================================================================'
+    ]);
+
+    assert.deepStrictEqual(sections.get('//pkg:sharded_test'), ['first shard', 'second shard']);
+  });
+
+  test('splits build errors by the target named in their ERROR line', () => {
+    const sections = splitBuildOutputByTarget(BATCH_STDERR.split('\n'), ['//pkg:a', '//pkg:a_test', '//pkg:b_test']);
+    const a = sections.get('//pkg:a_test') ?? [];
+    const b = sections.get('//pkg:b_test') ?? [];
+
+    assert.ok(a.some(line => line.startsWith('pkg/a_test.cc:3:5')));
+    assert.ok(!a.some(line => line.includes('b_test.cc')));
+    assert.ok(b.some(line => line.startsWith('pkg/b_test.cc:7:1')));
+    assert.ok(!b.some(line => line.includes('a_test.cc')));
+    // Errors of dependencies and Bazel's own messages cannot be attributed and go to every target
+    for (const section of [a, b, sections.get('//pkg:a') ?? []]) {
+      assert.ok(section.includes('lib/util.cc:2:1: error: unknown type name \'foo\''));
+      assert.ok(section.includes('ERROR: Build did NOT complete successfully'));
+    }
+    assert.ok(!(sections.get('//pkg:a') ?? []).some(line => line.includes('a_test.cc')));
+  });
+
+  suite('executeBazelTestBatch', () => {
+    let restoreBazelCommand: () => void;
+    let originalLoader: TestXmlLoader;
+    let invocations: string[][];
+    let result: { code: number; stdout: string; stderr: string };
+    const mockConfig = createMockConfiguration();
+
+    setup(() => {
+      invocations = [];
+      result = { code: 3, stdout: BATCH_STDOUT, stderr: '' };
+      originalLoader = getTestXmlLoader();
+      setTestXmlLoader(async () => null);
+      restoreBazelCommand = stubBazelCommand(async (args: string[]) => {
+        invocations.push(args);
+        return result;
+      });
+    });
+
+    teardown(() => {
+      restoreBazelCommand();
+      setTestXmlLoader(originalLoader);
+    });
+
+    test('runs all targets in one invocation and reports each target', async () => {
+      const run = new MockTestRun();
+      const items = ['a_test', 'b_test', 'c_test'].map(name =>
+        new MockTestItem(`//pkg:${name}`, `[cc_test] ${name}`) as unknown as vscode.TestItem
+      );
+
+      await executeBazelTestBatch(items, '/workspace', (run as unknown) as vscode.TestRun, mockConfig);
+
+      assert.strictEqual(invocations.length, 1, 'Expected a single Bazel invocation');
+      assert.deepStrictEqual(invocations[0].slice(0, 4), ['test', '//pkg:a_test', '//pkg:b_test', '//pkg:c_test']);
+      assert.ok(invocations[0].includes('--keep_going'));
+      assert.deepStrictEqual(run.getPassedTests().map(t => t.id), ['//pkg:a_test', '//pkg:c_test']);
+      assert.deepStrictEqual(run.getFailedTests().map(t => t.id), ['//pkg:b_test']);
+    });
+
+    test('keeps the keep_going choice of the user', async () => {
+      const items = [new MockTestItem('//pkg:a_test', '[cc_test] a_test') as unknown as vscode.TestItem];
+      const config = createMockConfiguration({ testArgs: ['--nokeep_going'] });
+
+      await executeBazelTestBatch(items, '/workspace', (new MockTestRun() as unknown) as vscode.TestRun, config);
+
+      assert.ok(invocations[0].includes('--nokeep_going'));
+      assert.ok(!invocations[0].includes('--keep_going'));
+    });
+
+    test('reports only the build errors of each target', async () => {
+      result = {
+        code: 1,
+        stdout: ['//pkg:a_test    FAILED TO BUILD', '//pkg:b_test    FAILED TO BUILD'].join('\n'),
+        stderr: BATCH_STDERR
+      };
+      const run = new MockTestRun();
+      const items = ['a_test', 'b_test'].map(name =>
+        new MockTestItem(`//pkg:${name}`, `[cc_test] ${name}`) as unknown as vscode.TestItem
+      );
+
+      await executeBazelTestBatch(items, '/workspace', (run as unknown) as vscode.TestRun, mockConfig);
+
+      const outputOf = (id: string) => run.getOutputs().filter(o => o.item?.id === id).map(o => o.output).join('');
+      assert.deepStrictEqual(run.getErroredTests().map(t => t.id), ['//pkg:a_test', '//pkg:b_test']);
+      assert.ok(outputOf('//pkg:a_test').includes('pkg/a_test.cc:3:5'));
+      assert.ok(!outputOf('//pkg:a_test').includes('pkg/b_test.cc'));
+      assert.ok(outputOf('//pkg:b_test').includes('pkg/b_test.cc:7:1'));
+      assert.ok(!outputOf('//pkg:b_test').includes('pkg/a_test.cc'));
+    });
+  });
+});
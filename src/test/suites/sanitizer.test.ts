@@ -0,0 +1,156 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { analyzeTestFailures } from '../../bazel/parseFailures';
+import { buildSanitizerMessages, parseSanitizerReports } from '../../bazel/testcase/parseSanitizer';
+
+const ASAN_LOG = [
+  '[ RUN      ] Buffer.Append',
+  '=================================================================',
+  '==31==ERROR: AddressSanitizer: heap-buffer-overflow on address 0x602000000018 at pc 0x55d1 bp 0x7ffd sp 0x7ffc',
+  'WRITE of size 4 at 0x602000000018 thread T0',
+  '    #0 0x55d1c3 in __asan_memcpy (/sandbox/execroot/_main/bazel-out/k8-dbg/bin/pkg/buffer_test+0x4c3)',
+  '    #1 0x55d1c4 in append /proc/self/cwd/pkg/buffer.c:17:5',
+  '    #2 0x55d1c5 in Buffer_Append_Test::TestBody() pkg/buffer_test.cc:9:3',
+  '    #3 0x7f0a11 in __libc_start_main (/lib/x86_64-linux-gnu/libc.so.6+0x270b2)',
+  '',
+  '0x602000000018 is located 0 bytes to the right of 8-byte region [0x602000000010,0x602000000018)',
+  'allocated by thread T0 here:',
+  '    #0 0x55d1a0 in malloc (/sandbox/execroot/_main/bazel-out/k8-dbg/bin/pkg/buffer_test+0x4a0)',
+  '    #1 0x55d1a1 in buffer_new /proc/self/cwd/pkg/buffer.c:8:10',
+  '',
+  'SUMMARY: AddressSanitizer: heap-buffer-overflow /proc/self/cwd/pkg/buffer.c:17:5 in append',
+  'Shadow bytes around the buggy address:'
+];
+
+const LSAN_LOG = [
+  '=================================================================',
+  '==40==ERROR: LeakSanitizer: detected memory leaks',
+  '',
+  'Direct leak of 16 byte(s) in 1 object(s) allocated from:',
+  '    #0 0x4a0 in malloc (/out/buffer_test+0x4a0)',
+  '    #1 0x4a1 in leak_name /proc/self/cwd/pkg/buffer.c:31:10',
+  '',
+  'Indirect leak of 8 byte(s) in 1 object(s) allocated from:',
+  '    #0 0x4a0 in malloc (/out/buffer_test+0x4a0)',
+  '    #1 0x4a2 in buffer_new /proc/self/cwd/pkg/buffer.c:8:10',
+  '',
+  'SUMMARY: AddressSanitizer: 24 byte(s) leaked in 2 allocation(s).'
+];
+
+const TSAN_LOG = [
+  '==================',
+  'WARNING: ThreadSanitizer: data race (pid=9876)',
+  '  Write of size 4 at 0x7b04 by thread T1:',
+  '    #0 worker(int*) pkg/race.cc:8:10 (race_test+0x4b1)',
+  '    #1 void* std::__thread_proxy<int>(void*) /usr/include/c++/v1/thread:291:5 (race_test+0x4c2)',
+  '',
+  '  Previous read of size 4 at 0x7b04 by main thread:',
+  '    #0 main pkg/race.cc:15:3 (race_test+0x4d3)',
+  '',
+  'SUMMARY: ThreadSanitizer: data race pkg/race.cc:8:10 in worker(int*)',
+  '=================='
+];
+
+const UBSAN_LOG = [
+  '/proc/self/cwd/pkg/math.cc:12:14: runtime error: signed integer overflow: 2147483647 + 1 cannot be represented in type \'int\'',
+  '    #0 0x4e1 in add(int, int) /proc/self/cwd/pkg/math.cc:12:14',
+  'SUMMARY: UndefinedBehaviorSanitizer: undefined-behavior /proc/self/cwd/pkg/math.cc:12:14 in',
+  '[       OK ] Math.Add (0 ms)'
+];
+
+suite('Sanitizer reports', () => {
+  let workspacePath: string;
+
+  setup(() => {
+    workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'sanitizer-'));
+    fs.mkdirSync(path.join(workspacePath, 'pkg'));
+    for (const file of ['buffer.c', 'buffer_test.cc', 'race.cc', 'math.cc']) {
+      fs.writeFileSync(path.join(workspacePath, 'pkg', file), '');
+    }
+  });
+
+  teardown(() => {
+    fs.rmSync(workspacePath, { recursive: true, force: true });
+  });
+
+  test('parses AddressSanitizer errors with the faulting stack', () => {
+    const [report] = parseSanitizerReports(ASAN_LOG);
+
+    assert.strictEqual(report.sanitizer, 'AddressSanitizer');
+    assert.strictEqual(report.errorType, 'heap-buffer-overflow');
+    assert.deepStrictEqual(report.frames.map(f => f.function), [
+      '__asan_memcpy', 'append', 'Buffer_Append_Test::TestBody()', '__libc_start_main'
+    ]);
+    assert.deepStrictEqual(report.frames[1], {
+      index: 1, function: 'append', file: '/proc/self/cwd/pkg/buffer.c', line: 17, column: 5, module: undefined
+    });
+    assert.strictEqual(report.frames[3].module, '/lib/x86_64-linux-gnu/libc.so.6+0x270b2');
+    assert.strictEqual(report.summary, 'heap-buffer-overflow /proc/self/cwd/pkg/buffer.c:17:5 in append');
+    assert.ok(report.lines.some(line => line.includes('buffer_new')));
+    assert.ok(!report.lines.some(line => line.startsWith('Shadow bytes')));
+  });
+
+  test('splits LeakSanitizer reports into one report per leak', () => {
+    const reports = parseSanitizerReports(LSAN_LOG);
+
+    assert.deepStrictEqual(reports.map(r => [r.sanitizer, r.errorType, r.frames.length]), [
+      ['LeakSanitizer', 'Direct leak', 2],
+      ['LeakSanitizer', 'Indirect leak', 2]
+    ]);
+    assert.strictEqual(reports[1].summary, undefined);
+  });
+
+  test('parses ThreadSanitizer and UndefinedBehaviorSanitizer reports', () => {
+    const [race] = parseSanitizerReports(TSAN_LOG);
+    assert.strictEqual(race.errorType, 'data race');
+    assert.deepStrictEqual(race.frames.map(f => [f.function, f.file, f.line]), [
+      ['worker(int*)', 'pkg/race.cc', 8],
+      ['void* std::__thread_proxy<int>(void*)', '/usr/include/c++/v1/thread', 291]
+    ]);
+    assert.ok(race.lines.some(line => line.includes('Previous read')));
+
+    const [ub] = parseSanitizerReports(UBSAN_LOG);
+    assert.strictEqual(ub.sanitizer, 'UndefinedBehaviorSanitizer');
+    assert.strictEqual(ub.errorType, 'signed integer overflow');
+    assert.deepStrictEqual(ub.location, { file: '/proc/self/cwd/pkg/math.cc', line: 12, column: 14 });
+    assert.strictEqual(ub.frames[0].function, 'add(int, int)');
+    assert.ok(!ub.lines.some(line => line.includes('[       OK ]')));
+  });
+
+  test('locates messages at the first user frame', () => {
+    const messages = buildSanitizerMessages(
+      parseSanitizerReports([...ASAN_LOG, ...TSAN_LOG, ...UBSAN_LOG]),
+      workspacePath,
+      'pkg'
+    );
+
+    assert.deepStrictEqual(
+      messages.map(m => [path.relative(workspacePath, m.location!.uri.fsPath), m.location!.range.start.line]),
+      [[path.join('pkg', 'buffer.c'), 16], [path.join('pkg', 'race.cc'), 7], [path.join('pkg', 'math.cc'), 11]]
+    );
+    const text = messages[0].message as string;
+    assert.ok(text.startsWith(`AddressSanitizer: heap-buffer-overflow at ${path.join('pkg', 'buffer.c')}:17 in append\n\n`));
+    assert.ok(text.includes('#3 0x7f0a11 in __libc_start_main'));
+  });
+
+  test('failure analysis reports sanitizer errors first', () => {
+    const item = { id: '//pkg:buffer_test', label: 'buffer_test' } as vscode.TestItem;
+    const messages = analyzeTestFailures(LSAN_LOG, workspacePath, item);
+
+    assert.strictEqual(messages.length, 2);
+    assert.ok((messages[0].message as string).startsWith('LeakSanitizer: Direct leak'));
+    assert.strictEqual(messages[1].location?.range.start.line, 7);
+  });
+});
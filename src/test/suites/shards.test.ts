@@ -0,0 +1,118 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { buildShardId, buildSingleShardFlags, getShardCount, isShardId, parseShardId } from '../../bazel/shards';
+import { buildShardTestLogPaths, clearTestLogsCache } from '../../bazel/testlogs';
+import { executeBazelTest } from '../../bazel/runner';
+import { createMockConfiguration, MockTestItem, MockTestRun, stubBazelCommand } from '../mocks';
+
+const xmlWithResult = (failed: boolean) => `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites tests="1" failures="${failed ? 1 : 0}">
+  <testsuite name="MathTest" tests="1" failures="${failed ? 1 : 0}">
+    <testcase name="Add" classname="MathTest" status="run" result="completed">${failed ? '<failure message="boom"><![CDATA[boom]]></failure>' : ''}</testcase>
+  </testsuite>
+</testsuites>`;
+
+suite('Test sharding', () => {
+  test('builds and parses shard ids', () => {
+    const id = buildShardId('//pkg:sharded_test', 2, 4);
+
+    assert.strictEqual(id, '//pkg:sharded_test#shard_2_of_4');
+    assert.ok(isShardId(id));
+    assert.ok(!isShardId('//pkg:sharded_test'));
+    assert.deepStrictEqual(parseShardId(id), { targetId: '//pkg:sharded_test', index: 2, total: 4 });
+    assert.strictEqual(parseShardId('//pkg:sharded_test::Case'), undefined);
+  });
+
+  test('only treats shard_count > 1 as sharded', () => {
+    assert.strictEqual(getShardCount({ target: '//a:b', type: 'cc_test', shard_count: 3 }), 3);
+    assert.strictEqual(getShardCount({ target: '//a:b', type: 'cc_test', shard_count: 1 }), 0);
+    assert.strictEqual(getShardCount(undefined), 0);
+  });
+
+  test('single shard flags use a zero-based shard index', () => {
+    assert.deepStrictEqual(buildSingleShardFlags({ targetId: '//a:b', index: 2, total: 4 }), [
+      '--test_sharding_strategy=disabled',
+      '--test_env=TEST_TOTAL_SHARDS=4',
+      '--test_env=TEST_SHARD_INDEX=1'
+    ]);
+  });
+
+  test('builds shard testlog paths', () => {
+    const paths = buildShardTestLogPaths('//pkg:sharded_test', '/logs', 1, 2);
+    assert.strictEqual(paths.xml, path.join('/logs', 'pkg', 'sharded_test', 'shard_1_of_2', 'test.xml'));
+    assert.strictEqual(paths.log, path.join('/logs', 'pkg', 'sharded_test', 'shard_1_of_2', 'test.log'));
+  });
+
+  suite('runner', () => {
+    let restoreBazelCommand: () => void;
+    let logsDir: string;
+    let invocations: string[][];
+    const mockConfig = createMockConfiguration();
+
+    setup(() => {
+      invocations = [];
+      logsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bazel-testlogs-'));
+      clearTestLogsCache();
+      restoreBazelCommand = stubBazelCommand(async (args: string[]) => {
+        if (args[0] === 'info') {
+          return { code: 0, stdout: `${logsDir}\n`, stderr: '' };
+        }
+        invocations.push(args);
+        return { code: 3, stdout: '', stderr: '' };
+      });
+    });
+
+    teardown(() => {
+      restoreBazelCommand();
+      clearTestLogsCache();
+      fs.rmSync(logsDir, { recursive: true, force: true });
+    });
+
+    test('runs a single shard with both shard variables', async () => {
+      const run = new MockTestRun();
+      const shardItem = new MockTestItem('//pkg:sharded_test#shard_2_of_2', '🧩 Shard 2/2') as unknown as vscode.TestItem;
+
+      await executeBazelTest(shardItem, '/workspace', (run as unknown) as vscode.TestRun, mockConfig);
+
+      const args = invocations[0];
+      assert.strictEqual(args[1], '//pkg:sharded_test');
+      assert.ok(args.includes('--test_env=TEST_TOTAL_SHARDS=2'));
+      assert.ok(args.includes('--test_env=TEST_SHARD_INDEX=1'));
+      assert.ok(args.includes('--test_sharding_strategy=disabled'));
+    });
+
+    test('reports failures on the shard where they happened', async () => {
+      for (const [index, failed] of [[1, false], [2, true]] as const) {
+        const paths = buildShardTestLogPaths('//pkg:sharded_test', logsDir, index, 2);
+        fs.mkdirSync(path.dirname(paths.xml), { recursive: true });
+        fs.writeFileSync(paths.xml, xmlWithResult(failed));
+        fs.writeFileSync(paths.log, `shard ${index} output`);
+      }
+
+      const run = new MockTestRun();
+      const target = new MockTestItem('//pkg:sharded_test', '[cc_test] sharded_test');
+      target.addChild(new MockTestItem('//pkg:sharded_test#shard_1_of_2', '🧩 Shard 1/2'));
+      target.addChild(new MockTestItem('//pkg:sharded_test#shard_2_of_2', '🧩 Shard 2/2'));
+
+      await executeBazelTest(target as unknown as vscode.TestItem, '/workspace', (run as unknown) as vscode.TestRun, mockConfig);
+
+      assert.deepStrictEqual(run.getPassedTests().map(t => t.id), ['//pkg:sharded_test#shard_1_of_2']);
+      assert.deepStrictEqual(
+        run.getFailedTests().map(t => t.id).sort(),
+        ['//pkg:sharded_test', '//pkg:sharded_test#shard_2_of_2']
+      );
+    });
+  });
+});
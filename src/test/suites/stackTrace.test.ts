@@ -0,0 +1,149 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import { analyzeTestFailures } from '../../bazel/parseFailures';
+import { buildTestStackTrace, parseStackFrames } from '../../bazel/testcase/parseStackTrace';
+import { stripBazelPathPrefix } from '../../explorer/sourceUtils';
+
+const frameSummary = (output: string | string[]) =>
+  parseStackFrames(output).map(f => [f.label, f.file, f.line]);
+
+suite('Stack traces', () => {
+  test('python tracebacks are reported innermost first', () => {
+    const output = [
+      'Traceback (most recent call last):',
+      '  File "/sandbox/pkg/calc_test.runfiles/_main/pkg/calc_test.py", line 12, in test_div',
+      '    self.assertEqual(calc.div(1, 0), 0)',
+      '  File "/sandbox/pkg/calc_test.runfiles/_main/pkg/calc.py", line 4, in div',
+      '    return a / b',
+      'ZeroDivisionError: division by zero'
+    ];
+    assert.deepStrictEqual(frameSummary(output), [
+      ['div', '/sandbox/pkg/calc_test.runfiles/_main/pkg/calc.py', 4],
+      ['test_div', '/sandbox/pkg/calc_test.runfiles/_main/pkg/calc_test.py', 12]
+    ]);
+  });
+
+  test('java traces keep the first exception only', () => {
+    const output = [
+      'java.lang.AssertionError: expected:<3> but was:<4>',
+      '\tat org.junit.Assert.fail(Assert.java:89)',
+      '\tat com.example.MathTest.testAdd(MathTest.java:21)',
+      '\tat java.base/jdk.internal.reflect.NativeMethodAccessorImpl.invoke0(Native Method)',
+      '\t... 12 more',
+      'Caused by: java.lang.IllegalStateException',
+      '\tat com.example.Other.run(Other.java:5)'
+    ].join('\n');
+    assert.deepStrictEqual(frameSummary(output), [
+      ['org.junit.Assert.fail', path.join('org', 'junit', 'Assert.java'), 89],
+      ['com.example.MathTest.testAdd', path.join('com', 'example', 'MathTest.java'), 21],
+      ['java.base/jdk.internal.reflect.NativeMethodAccessorImpl.invoke0', undefined, undefined]
+    ]);
+  });
+
+  test('go panics, rust backtraces and C++ frames', () => {
+    assert.deepStrictEqual(frameSummary([
+      'panic: runtime error: index out of range [3] with length 3 [recovered]',
+      'goroutine 7 [running]:',
+      'testing.tRunner.func1.2({0x5a4e20, 0xc000018150})',
+      '\t/usr/lib/go/src/testing/testing.go:1526 +0x24e',
+      'example.com/pkg.TestIndex(0xc0000a2340)',
+      '\t/sandbox/execroot/_main/pkg/index_test.go:12 +0x1d'
+    ]), [
+      ['testing.tRunner.func1.2', '/usr/lib/go/src/testing/testing.go', 1526],
+      ['example.com/pkg.TestIndex', '/sandbox/execroot/_main/pkg/index_test.go', 12]
+    ]);
+
+    assert.deepStrictEqual(frameSummary([
+      'thread \'tests::adds\' panicked at pkg/src/lib.rs:10:9:',
+      'stack backtrace:',
+      '   0: rust_begin_unwind',
+      '             at /rustc/abc/library/std/src/panicking.rs:645:5',
+      '   1: core::panicking::panic_fmt',
+      '   2: mycrate::tests::adds',
+      '             at ./pkg/src/lib.rs:10:9'
+    ]), [
+      ['rust_begin_unwind', '/rustc/abc/library/std/src/panicking.rs', 645],
+      ['core::panicking::panic_fmt', undefined, undefined],
+      ['mycrate::tests::adds', './pkg/src/lib.rs', 10]
+    ]);
+
+    assert.deepStrictEqual(frameSummary([
+      '*** SIGSEGV received at time=1700000000 ***',
+      '    #0 0x55d1c4 in Parser::next() /proc/self/cwd/pkg/parser.cc:40:7',
+      '#1  0x000055d1c5 in run (argc=1) at pkg/main.cc:8'
+    ]), [
+      ['Parser::next()', '/proc/self/cwd/pkg/parser.cc', 40],
+      ['run (argc=1)', 'pkg/main.cc', 8]
+    ]);
+  });
+
+  suite('resolution', () => {
+    let workspacePath: string;
+
+    setup(() => {
+      workspacePath = fs.mkdtempSync(path.join(os.tmpdir(), 'stacktrace-'));
+      fs.mkdirSync(path.join(workspacePath, 'java', 'com', 'example'), { recursive: true });
+      fs.writeFileSync(path.join(workspacePath, 'java', 'com', 'example', 'MathTest.java'), '');
+      fs.mkdirSync(path.join(workspacePath, 'pkg'));
+      fs.writeFileSync(path.join(workspacePath, 'pkg', 'calc.py'), '');
+    });
+
+    teardown(() => {
+      fs.rmSync(workspacePath, { recursive: true, force: true });
+    });
+
+    test('links workspace frames and labels the others', () => {
+      const trace = buildTestStackTrace([
+        { label: 'org.junit.Assert.fail', file: path.join('org', 'junit', 'Assert.java'), line: 89 },
+        { label: 'com.example.MathTest.testAdd', file: path.join('com', 'example', 'MathTest.java'), line: 21 }
+      ], workspacePath, 'java/com/example');
+
+      assert.strictEqual(trace[0].uri, undefined);
+      assert.strictEqual(trace[0].label, `org.junit.Assert.fail (${path.join('org', 'junit', 'Assert.java')}:89)`);
+      assert.strictEqual(trace[1].label, 'com.example.MathTest.testAdd');
+      assert.strictEqual(trace[1].uri?.fsPath, path.join(workspacePath, 'java', 'com', 'example', 'MathTest.java'));
+      assert.strictEqual(trace[1].position?.line, 20);
+    });
+
+    test('failure analysis attaches the stack trace', () => {
+      const log = [
+        'Traceback (most recent call last):',
+        '  File "/sandbox/pkg/calc_test.runfiles/_main/pkg/calc.py", line 4, in div',
+        '    return a / b',
+        'Error: pkg/calc.py:4: division by zero'
+      ];
+      const item = { id: '//pkg:calc_test', label: 'calc_test' } as vscode.TestItem;
+      const [message] = analyzeTestFailures(log, workspacePath, item);
+
+      assert.strictEqual(message.stackTrace?.length, 1);
+      assert.strictEqual(message.stackTrace?.[0].uri?.fsPath, path.join(workspacePath, 'pkg', 'calc.py'));
+    });
+  });
+
+  test('strips the Bazel prefixes of workspace files', () => {
+    const workspace = path.join(path.sep, 'ws');
+    const expected = path.join(workspace, 'pkg', 'calc.cc');
+    for (const file of [
+      '/root/.cache/bazel/_bazel_u/abc/execroot/_main/pkg/calc.cc',
+      '/root/.cache/bazel/_bazel_u/abc/execroot/my_ws/pkg/calc.cc',
+      '/sandbox/pkg/calc_test.runfiles/my_ws/pkg/calc.cc',
+      '/proc/self/cwd/pkg/calc.cc',
+      'pkg/calc.cc'
+    ]) {
+      assert.strictEqual(stripBazelPathPrefix(file.split('/').join(path.sep), workspace), expected, file);
+    }
+    assert.strictEqual(stripBazelPathPrefix('/usr/include/vector', workspace), path.normalize('/usr/include/vector'));
+  });
+});
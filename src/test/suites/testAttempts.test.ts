@@ -0,0 +1,123 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import * as vscode from 'vscode';
+import {
+  clearRecordedTestAttempts,
+  formatTestAttempts,
+  getRecordedTestAttempts,
+  isFlakyPass,
+  readTestAttempts
+} from '../../bazel/testAttempts';
+import { buildTestLogsTargetDirectory, clearTestLogsCache } from '../../bazel/testlogs';
+import { executeBazelTest } from '../../bazel/runner';
+import { isMarkedFlaky } from '../../explorer/tree/flakyState';
+import { createMockConfiguration, MockTestItem, MockTestRun, stubBazelCommand } from '../mocks';
+
+const failingXml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites tests="1" failures="1">
+  <testsuite name="NetTest" tests="1" failures="1">
+    <testcase name="Connect" classname="NetTest" status="run" result="completed"><failure message="timeout talking to server"><![CDATA[timeout talking to server]]></failure></testcase>
+  </testsuite>
+</testsuites>`;
+
+const passingXml = `<?xml version="1.0" encoding="UTF-8"?>
+<testsuites tests="1" failures="0">
+  <testsuite name="NetTest" tests="1" failures="0">
+    <testcase name="Connect" classname="NetTest" status="run" result="completed"></testcase>
+  </testsuite>
+</testsuites>`;
+
+function writeAttempts(targetDir: string): void {
+  fs.mkdirSync(path.join(targetDir, 'test_attempts'), { recursive: true });
+  fs.writeFileSync(path.join(targetDir, 'test_attempts', 'attempt_1.log'), 'first try\nConnect FAILED');
+  fs.writeFileSync(path.join(targetDir, 'test_attempts', 'attempt_1.xml'), failingXml);
+  fs.writeFileSync(path.join(targetDir, 'test.log'), 'second try\nConnect OK');
+  fs.writeFileSync(path.join(targetDir, 'test.xml'), passingXml);
+}
+
+suite('Flaky test attempts', () => {
+  let logsDir: string;
+
+  setup(() => {
+    logsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'bazel-testlogs-'));
+    clearRecordedTestAttempts();
+  });
+
+  teardown(() => {
+    fs.rmSync(logsDir, { recursive: true, force: true });
+  });
+
+  test('reads earlier attempts and the final attempt', async () => {
+    const targetDir = buildTestLogsTargetDirectory('//pkg:net_test', logsDir);
+    writeAttempts(targetDir);
+
+    const attempts = await readTestAttempts('//pkg:net_test', targetDir, true);
+
+    assert.deepStrictEqual(attempts.map(a => [a.attempt, a.status]), [[1, 'FAILED'], [2, 'PASSED']]);
+    assert.deepStrictEqual(attempts[0].failedCases.map(tc => tc.name), ['Connect']);
+    assert.deepStrictEqual(attempts[1].log, ['second try', 'Connect OK']);
+    assert.ok(isFlakyPass(attempts));
+  });
+
+  test('returns no attempts when the target ran once', async () => {
+    const targetDir = buildTestLogsTargetDirectory('//pkg:net_test', logsDir);
+    fs.mkdirSync(targetDir, { recursive: true });
+
+    assert.deepStrictEqual(await readTestAttempts('//pkg:net_test', targetDir, true), []);
+    assert.ok(!isFlakyPass([]));
+  });
+
+  test('formats every attempt with its status', () => {
+    const lines = formatTestAttempts('//pkg:net_test', [
+      { attempt: 1, status: 'FAILED', durationMs: 1200, log: ['boom'], failedCases: [] },
+      { attempt: 2, status: 'PASSED', log: [], failedCases: [] }
+    ]);
+
+    assert.ok(lines.includes('----- Attempt 1/2: FAILED in 1.2s -----'));
+    assert.ok(lines.includes('----- Attempt 2/2: PASSED -----'));
+  });
+
+  suite('runner', () => {
+    let restoreBazelCommand: () => void;
+    const mockConfig = createMockConfiguration();
+
+    setup(() => {
+      clearTestLogsCache();
+      restoreBazelCommand = stubBazelCommand(async (args: string[]) => {
+        if (args[0] === 'info') {
+          return { code: 0, stdout: `${logsDir}\n`, stderr: '' };
+        }
+        return { code: 0, stdout: '//pkg:net_test   FLAKY, failed in 1 out of 2 in 0.4s\n', stderr: '' };
+      });
+    });
+
+    teardown(() => {
+      restoreBazelCommand();
+      clearTestLogsCache();
+    });
+
+    test('marks a pass after retry as flaky and records the attempts', async () => {
+      writeAttempts(buildTestLogsTargetDirectory('//pkg:net_test', logsDir));
+      const run = new MockTestRun();
+      const item = new MockTestItem('//pkg:net_test', '[cc_test] net_test');
+
+      await executeBazelTest(item as unknown as vscode.TestItem, '/workspace', (run as unknown) as vscode.TestRun, mockConfig);
+
+      assert.deepStrictEqual(run.getPassedTests().map(t => t.id), ['//pkg:net_test']);
+      assert.ok(isMarkedFlaky('//pkg:net_test'));
+      assert.match(String((item as any).description), /FLAKY \(passed on attempt 2 of 2\)/);
+      assert.strictEqual(getRecordedTestAttempts('//pkg:net_test')?.length, 2);
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { buildTestEnvironmentFlags, getFlagMergeKey, getScopeSpecificity, resolveTestEnvironment } from '../../bazel/testEnvironment';
+import { executeBazelTest } from '../../bazel/runner';
+import { getTestXmlLoader, setTestXmlLoader, TestXmlLoader } from '../../bazel/testcase/testResultParser';
+import { createMockConfiguration, MockTestItem, MockTestRun, stubBazelCommand } from '../mocks';
+
+const ENV_BY_SCOPE = {
+  '//pkg:math_test': { LOG_LEVEL: 'trace' },
+  '//pkg/...': { LOG_LEVEL: 'info', DATA_DIR: 'pkg/data' },
+  '*': { LOG_LEVEL: 'warn', TZ: 'UTC' },
+  '//pkg:*': { DATA_DIR: 'pkg/testdata' },
+  '//other/...': { OTHER: '1' }
+};
+
+const ARGS_BY_SCOPE = {
+  '//pkg:math_test': ['--gtest_repeat=2'],
+  '*': ['--verbose']
+};
+
+suite('Test environment', () => {
+  test('matches scopes by specificity', () => {
+    const label = '//pkg/sub:math_test';
+    assert.strictEqual(getScopeSpecificity('*', label), 0);
+    assert.strictEqual(getScopeSpecificity('//...', label), 0);
+    assert.ok((getScopeSpecificity('//pkg/...', label) ?? -1) < (getScopeSpecificity('//pkg/sub/...', label) ?? -1));
+    assert.strictEqual(getScopeSpecificity('//pkg/sub:all', label), 2);
+    assert.strictEqual(getScopeSpecificity('//pkg:*', label), undefined);
+    assert.strictEqual(getScopeSpecificity('//pkg/sub:math_test', label), 3);
+    assert.strictEqual(getScopeSpecificity('//pkg/subdir/...', label), undefined);
+  });
+
+  test('lets specific scopes override general ones', () => {
+    const resolved = resolveTestEnvironment('//pkg:math_test', ENV_BY_SCOPE, ARGS_BY_SCOPE);
+
+    assert.deepStrictEqual(Object.fromEntries(resolved.env), {
+      LOG_LEVEL: { value: 'trace', scope: '//pkg:math_test' },
+      TZ: { value: 'UTC', scope: '*' },
+      DATA_DIR: { value: 'pkg/testdata', scope: '//pkg:*' }
+    });
+    assert.deepStrictEqual(resolved.args.map(a => a.value), ['--verbose', '--gtest_repeat=2']);
+    assert.deepStrictEqual(buildTestEnvironmentFlags(resolved), [
+      '--test_env=LOG_LEVEL=trace',
+      '--test_env=TZ=UTC',
+      '--test_env=DATA_DIR=pkg/testdata',
+      '--test_arg=--verbose',
+      '--test_arg=--gtest_repeat=2'
+    ]);
+  });
+
+  test('runner merges scoped flags over the global test args', async () => {
+    const originalLoader: TestXmlLoader = getTestXmlLoader();
+    let captured: string[] = [];
+    setTestXmlLoader(async () => null);
+    const restoreBazelCommand = stubBazelCommand(async (args: string[]) => {
+      if (args[0] === 'test') {
+        captured = args;
+      }
+      return { code: args[0] === 'info' ? 1 : 0, stdout: '', stderr: '' };
+    });
+    try {
+      const config = createMockConfiguration({
+        testArgs: ['--test_env=LOG_LEVEL=error', '--test_env=KEEP=1'],
+        testEnvByScope: ENV_BY_SCOPE,
+        testArgByScope: ARGS_BY_SCOPE
+      });
+      const item = new MockTestItem('//pkg:math_test', '[cc_test] math_test') as unknown as vscode.TestItem;
+
+      await executeBazelTest(item, '/workspace', (new MockTestRun() as unknown) as vscode.TestRun, config);
+
+      const testEnv = captured.filter(arg => arg.startsWith('--test_env='));
+      assert.ok(testEnv.includes('--test_env=LOG_LEVEL=trace'));
+      assert.ok(!testEnv.includes('--test_env=LOG_LEVEL=error'));
+      assert.ok(testEnv.includes('--test_env=KEEP=1'));
+      assert.ok(captured.includes('--test_arg=--gtest_repeat=2'));
+    } finally {
+      restoreBazelCommand();
+      setTestXmlLoader(originalLoader);
+    }
+  });
+
+  test('keys repeatable flags so only same-name variables override each other', () => {
+    assert.strictEqual(getFlagMergeKey('--test_env=LOG_LEVEL=trace'), '--test_env=LOG_LEVEL');
+    assert.strictEqual(getFlagMergeKey('--test_output=all'), '--test_output');
+    assert.strictEqual(getFlagMergeKey('--config=asan'), '--config=asan');
+  });
+
+  test('runner keeps every repeated --config value', async () => {
+    const originalLoader: TestXmlLoader = getTestXmlLoader();
+    let captured: string[] = [];
+    setTestXmlLoader(async () => null);
+    const restoreBazelCommand = stubBazelCommand(async (args: string[]) => {
+      if (args[0] === 'test') {
+        captured = args;
+      }
+      return { code: args[0] === 'info' ? 1 : 0, stdout: '', stderr: '' };
+    });
+    try {
+      const config = createMockConfiguration({ testArgs: ['--config=asan', '--config=ci', '--test_output=all', '--test_output=errors'] });
+      const item = new MockTestItem('//pkg:math_test', '[cc_test] math_test') as unknown as vscode.TestItem;
+
+      await executeBazelTest(item, '/workspace', (new MockTestRun() as unknown) as vscode.TestRun, config);
+
+      assert.deepStrictEqual(captured.filter(arg => arg.startsWith('--config=')), ['--config=asan', '--config=ci']);
+      assert.deepStrictEqual(captured.filter(arg => arg.startsWith('--test_output=')), ['--test_output=errors']);
+    } finally {
+      restoreBazelCommand();
+      setTestXmlLoader(originalLoader);
+    }
+  });
+});
@@ -0,0 +1,126 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import * as vscode from 'vscode';
+import { getCombinedTestFilterArgs, getTestFilterArgs, supportsTestFilter } from '../../bazel/testFilterStrategies';
+import { detectPrimaryFramework } from '../../bazel/frameworkDetection';
+import { TestControllerManager } from '../../explorer/controller';
+import { MockConfigurationService, MockTestController } from '../mocks';
+
+suite('Test filter strategies', () => {
+  test('go anchors every subtest level and escapes regex characters', () => {
+    assert.ok(supportsTestFilter('go'));
+    assert.deepStrictEqual(getTestFilterArgs('TestAdd', 'go'), ['--test_filter=^TestAdd$']);
+    assert.deepStrictEqual(
+      getTestFilterArgs('TestParse/with_(parens)_and_1.5+x', 'go'),
+      ['--test_filter=^TestParse$/^with_\\(parens\\)_and_1\\.5\\+x$']
+    );
+  });
+
+  test('rust passes the exact name as test argument', () => {
+    assert.deepStrictEqual(
+      getTestFilterArgs('tests::parse::handles_[brackets]', 'rust'),
+      ['--test_arg=tests::parse::handles_[brackets]', '--test_arg=--exact']
+    );
+  });
+
+  test('junit filters on Class#method', () => {
+    assert.deepStrictEqual(getTestFilterArgs('MathTest#testAdd', 'java'), ['--test_filter=MathTest#testAdd$']);
+    assert.deepStrictEqual(
+      getTestFilterArgs('com.example.MathTest.testAdd[1]', 'java'),
+      ['--test_filter=com\\.example\\.MathTest#testAdd\\[1\\]$']
+    );
+    assert.deepStrictEqual(getTestFilterArgs('Outer$Inner#run', 'java'), ['--test_filter=Outer\\$Inner#run$']);
+    assert.deepStrictEqual(getTestFilterArgs('adds 1.5 (twice)', 'java'), ['--test_filter=#adds 1\\.5 \\(twice\\)$']);
+  });
+
+  test('catch2 escapes test spec characters', () => {
+    assert.deepStrictEqual(getTestFilterArgs('Vector grows', 'catch2'), ['--test_arg=Vector grows']);
+    assert.deepStrictEqual(
+      getTestFilterArgs('a, b [tag] *x* ~y "z" \\', 'catch2'),
+      ['--test_arg=a\\, b \\[tag\\] \\*x\\* \\~y \\"z\\" \\\\']
+    );
+  });
+
+  test('boost runs the normalized test path', () => {
+    assert.deepStrictEqual(getTestFilterArgs('MathSuite/add_works', 'boost'), ['--test_arg=--run_test=MathSuite/add_works']);
+    assert.deepStrictEqual(
+      getTestFilterArgs('Suite/case with, chars:*', 'boost'),
+      ['--test_arg=--run_test=Suite/case_with__chars__']
+    );
+  });
+
+  test('unknown frameworks run the whole target', () => {
+    assert.ok(!supportsTestFilter('other'));
+    assert.deepStrictEqual(getTestFilterArgs('anything', 'other'), []);
+  });
+
+  test('detects catch2 and boost from dependencies', () => {
+    assert.strictEqual(
+      detectPrimaryFramework({ target: '//a:b', type: 'cc_test', deps: ['@catch2//:catch2_main'] }),
+      'catch2'
+    );
+    assert.strictEqual(
+      detectPrimaryFramework({ target: '//a:b', type: 'cc_test', deps: ['@boost//:test.so'] }),
+      'boost'
+    );
+  });
+
+  test('combines the cases of one target into one filter', () => {
+    assert.deepStrictEqual(getCombinedTestFilterArgs(['test_a', 'test_b'], 'pytest'), ['--test_filter=test_a or test_b']);
+    assert.deepStrictEqual(getCombinedTestFilterArgs(['add', 'sub'], 'criterion'), ['--test_filter=^(add|sub)$']);
+    assert.deepStrictEqual(getCombinedTestFilterArgs(['TestA', 'TestB.x'], 'go'), ['--test_filter=^(TestA|TestB\\.x)$']);
+    assert.strictEqual(getCombinedTestFilterArgs(['TestA/sub', 'TestB'], 'go'), undefined);
+    assert.deepStrictEqual(
+      getCombinedTestFilterArgs(['a::one', 'a::two'], 'rust'),
+      ['--test_arg=a::one', '--test_arg=a::two', '--test_arg=--exact']
+    );
+    assert.deepStrictEqual(getCombinedTestFilterArgs(['x, y', 'z'], 'catch2'), ['--test_arg=x\\, y,z']);
+    assert.deepStrictEqual(
+      getCombinedTestFilterArgs(['S/a', 'S/b'], 'boost'),
+      ['--test_arg=--run_test=S/a', '--test_arg=--run_test=S/b']
+    );
+    assert.strictEqual(getCombinedTestFilterArgs(['a', 'b'], 'java'), undefined);
+  });
+
+  test('run profile groups selected cases by target', async () => {
+    const mockController = new MockTestController();
+    const originalCreate = vscode.tests.createTestController;
+    (vscode.tests as any).createTestController = () => mockController as any;
+    try {
+      const single: string[] = [];
+      const grouped: string[][] = [];
+      const mockClient = {
+        runTest: async (t: vscode.TestItem) => { single.push(t.id); },
+        runTestCases: async (cases: vscode.TestItem[]) => { grouped.push(cases.map(c => c.id)); },
+        getTargetMetadata: () => undefined
+      } as any;
+      const manager = new TestControllerManager(
+        mockClient,
+        new MockConfigurationService() as any,
+        { subscriptions: [] } as any,
+        { clear: () => {} } as any,
+        { clear: () => {} } as any
+      );
+      manager.initialize();
+
+      const cases = ['//pkg:a_test::Math.Add', '//pkg:a_test::Math.Sub', '//pkg:b_test::Io.Read']
+        .map(id => mockController.createTestItem(id, `🧪 ${id.split('::')[1]}`) as any as vscode.TestItem);
+      const handler = mockController.getRunProfiles()[0].runHandler;
+      await handler({ include: cases } as any, { isCancellationRequested: false } as any);
+
+      assert.deepStrictEqual(grouped, [['//pkg:a_test::Math.Add', '//pkg:a_test::Math.Sub']]);
+      assert.deepStrictEqual(single, ['//pkg:b_test::Io.Read']);
+    } finally {
+      (vscode.tests as any).createTestController = originalCreate;
+      mockController.reset();
+    }
+  });
+});
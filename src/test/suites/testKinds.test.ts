@@ -0,0 +1,87 @@
+/*
+ * Copyright (c) 2025 @tragisch <https://github.com/tragisch>
+ * SPDX-License-Identifier: MIT
+ *
+ * This file is part of a project licensed under the MIT License.
+ * See the LICENSE file in the root directory for details.
+ */
+
+/// <reference types="mocha" />
+import * as assert from 'assert';
+import { buildTestKindQuery, getDiscoveryKeyArgs, queryBazelTestLabelsOnly } from '../../bazel/queries';
+import { getTestKindSummaries, recordDiscoveredTestKinds } from '../../bazel/testKinds';
+import { createMockBazelTestTarget, createMockConfiguration, MockConfigurationService, stubBazelCommand } from '../mocks';
+
+suite('Test kinds', () => {
+  const configWith = (overrides: Partial<MockConfigurationService>) => createMockConfiguration({
+    queryPaths: ['//...'],
+    testTypes: ['cc_test'],
+    autoDetectTestKinds: true,
+    ...overrides
+  });
+
+  teardown(() => {
+    recordDiscoveredTestKinds([]);
+  });
+
+  test('queries the configured test types unless kinds are detected', () => {
+    const manual = configWith({ autoDetectTestKinds: false, testTypes: ['cc_test', 'py_test'] });
+    assert.strictEqual(
+      buildTestKindQuery('//pkg/...', manual),
+      'kind(cc_test, //pkg/...) union kind(py_test, //pkg/...) union kind(test_suite, //pkg/...)'
+    );
+    assert.strictEqual(buildTestKindQuery('$affected', manual, false), 'kind(cc_test, $affected) union kind(py_test, $affected)');
+  });
+
+  test('detects every *_test kind except the excluded ones', () => {
+    assert.strictEqual(
+      buildTestKindQuery('//...', configWith({})),
+      'kind(".*_test rule", //...) union kind(test_suite, //...)'
+    );
+    assert.strictEqual(
+      buildTestKindQuery('//...', configWith({ excludedTestKinds: ['sh_test', 'py_test', 'bad kind"'] }), false),
+      '(kind(".*_test rule", //...) except kind("^(sh_test|py_test) rule$", //...))'
+    );
+  });
+
+  test('separates cached results of detected and configured kinds', () => {
+    assert.deepStrictEqual(getDiscoveryKeyArgs(configWith({ autoDetectTestKinds: false })), []);
+    assert.deepStrictEqual(
+      getDiscoveryKeyArgs(configWith({ excludedTestKinds: ['sh_test', 'py_test'] })),
+      ['auto-kinds', '-py_test', '-sh_test']
+    );
+  });
+
+  test('runs the detection query during discovery', async () => {
+    const calls: string[][] = [];
+    const restoreBazelCommand = stubBazelCommand(async (args: string[]) => {
+      calls.push(args);
+      return { code: 0, stdout: '//pkg:a_test\n', stderr: '' };
+    });
+    try {
+      const labels = await queryBazelTestLabelsOnly('/workspace', configWith({}));
+      assert.deepStrictEqual(labels, ['//pkg:a_test']);
+      assert.strictEqual(calls[0][1], 'kind(".*_test rule", //...) union kind(test_suite, //...)');
+    } finally {
+      restoreBazelCommand();
+    }
+  });
+
+  test('groups discovered targets by kind with the most common framework', () => {
+    recordDiscoveredTestKinds([
+      createMockBazelTestTarget({ target: '//a:one', type: 'cc_test', deps: ['@googletest//:gtest_main'] }),
+      createMockBazelTestTarget({ target: '//a:two', type: 'cc_test', deps: ['@googletest//:gtest'] }),
+      createMockBazelTestTarget({ target: '//a:three', type: 'cc_test', deps: ['@catch2//:catch2_main'] }),
+      createMockBazelTestTarget({ target: '//b:py', type: 'py_test', deps: [] }),
+      createMockBazelTestTarget({ target: '//b:sh', type: 'sh_test', deps: [] }),
+      createMockBazelTestTarget({ target: '//b:suite', type: 'test_suite' })
+    ]);
+
+    assert.deepStrictEqual(getTestKindSummaries(['sh_test', 'kt_jvm_test']), [
+      { kind: 'cc_test', count: 3, framework: 'gtest', excluded: false },
+      { kind: 'kt_jvm_test', count: 0, excluded: true },
+      { kind: 'py_test', count: 1, framework: 'pytest', excluded: false },
+      { kind: 'sh_test', count: 1, framework: undefined, excluded: true }
+    ]);
+  });
+});